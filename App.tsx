@@ -1,13 +1,61 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Menu, Bell, ShieldCheck, Plus, Trash2, Loader2, CheckCircle, Pill, Stethoscope } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Menu, Bell, ShieldCheck, Trash2, Loader2, CheckCircle, Pill, Stethoscope, WifiOff, CloudOff } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip } from 'recharts';
 
 import { Sidebar } from './components/Sidebar';
+import { AuthView } from './components/AuthView';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { Avatar } from './components/Avatar';
 import { UploadReport } from './components/UploadReport';
-import { generateHealthInsights, analyzeMedicalDocument, processMedicalImage } from './services/geminiService';
+import { MedicationsView } from './components/MedicationsView';
+import { ProfileView } from './components/ProfileView';
+import { MedicalHistoryEditor } from './components/MedicalHistoryEditor';
+import { InteractionWarnings, SeverityBadge } from './components/InteractionWarnings';
+import { SymptomsView } from './components/SymptomsView';
+import { SymptomAnalyticsView } from './components/SymptomAnalyticsView';
+import { DoseChecklist } from './components/DoseChecklist';
+import { AdherenceChart } from './components/AdherenceChart';
+import { ChatView } from './components/ChatView';
+import { EmergencyAlertModal, TriageBanner } from './components/TriageAlerts';
+import { SyncIssues } from './components/SyncIssues';
+import { ScoreTrendChart, ScoreBreakdown } from './components/HealthScoreHistory';
+import { VitalsView } from './components/VitalsView';
+import { LabResultsView } from './components/LabResultsView';
+import { LabReviewDialog } from './components/LabReviewDialog';
+import { getAIProvider } from './services/aiProvider';
 // Ensure strict relative path here:
-import { syncPatientData, addPatientSymptom, updatePatientProfile, addPatientReport, isFirebaseReady } from './services/firebaseService';
-import { PatientProfile, Medication, MedicalRecord, SymptomLog, AIInsight, UploadedFile } from './types';
+import { syncPatientData, onAuthChange, signInPatient, registerPatient, signOutPatient, AuthUser, loadMorePatientData, PagedCollection, migrateInlineReports, getReportOriginal, subscribeAccessiblePatients, createDependentProfile, grantCaregiverAccess, revokeCaregiverAccess, isFirebaseReady } from './services/firebaseService';
+import { checkInteractions, highestSeverity } from './services/interactionService';
+import { calculateAdherence } from './services/adherenceService';
+import { runTriage, reconcileUrgency } from './services/triageService';
+import { createScoreRecord } from './services/healthScoreService';
+import { summarizeVitals, toStandardUnit } from './services/vitalsService';
+import { analyzePdf, PdfAnalysis } from './services/pdfService';
+import { analyzeDicom, deidentifyDicom, DicomAnalysis, DICOM_MIME_TYPE, isDicomFile, MAX_DICOM_SIZE } from './services/dicomService';
+import { createUploadQueue, readAsDataUrl, UploadJob, UploadJobContext } from './services/uploadQueue';
+import { DEFAULT_PREPROCESSING, isPreprocessingEnabled, preprocessImage } from './services/imagePreprocessing';
+import { createInsightScheduler, getDataVersion, InsightResult } from './services/insightScheduler';
+import type { HealthInsightInput } from './services/aiProvider';
+import {
+  PatientMutation,
+  PatientSnapshot,
+  diffEntries,
+  applyToList,
+  applyToProfile,
+  loadLocalSnapshot,
+  saveLocalSnapshot,
+  clearLocalSnapshots,
+  overlayPendingWrites,
+  getPatientView,
+  enqueueMutations,
+  startOutboxSync,
+  subscribeFailedWrites,
+  retryFailedWrite,
+  discardFailedWrite,
+  FailedWrite
+} from './services/syncService';
+import { normalizeSymptomLog } from './services/symptomService';
+import { PatientProfile, Medication, MedicalRecord, SymptomLog, AIInsight, AnalysisResult, UploadedFile, DoseEvent, PatientAccess, ChatMessage, HealthScoreRecord, VitalReading, LabResult, LabExtraction, PreprocessingRecord, PreprocessingSettings } from './types';
 
 // --- MOCK DATA FOR INITIALIZATION ---
 const INITIAL_PROFILE: PatientProfile = {
@@ -27,8 +75,8 @@ const INITIAL_MEDS: Medication[] = [
 ];
 
 const INITIAL_SYMPTOMS: SymptomLog[] = [
-  { id: '1', symptom: 'Headache', severity: 4, date: new Date(Date.now() - 86400000 * 2).toISOString(), duration: '2 hours' },
-  { id: '2', symptom: 'Mild Chest Pain', severity: 6, date: new Date(Date.now() - 86400000).toISOString(), duration: '15 mins' }
+  { id: '1', symptom: 'Headache', severity: 4, date: new Date(Date.now() - 86400000 * 2).toISOString(), duration: { value: 2, unit: 'hours' } },
+  { id: '2', symptom: 'Mild Chest Pain', severity: 6, date: new Date(Date.now() - 86400000).toISOString(), duration: { value: 15, unit: 'minutes' }, bodyLocation: 'Chest' }
 ];
 
 const INITIAL_HISTORY: MedicalRecord[] = [
@@ -36,8 +84,30 @@ const INITIAL_HISTORY: MedicalRecord[] = [
   { id: '2', type: 'Surgery', name: 'Appendectomy', date: '2015-11-12', notes: 'Laparoscopic removal' }
 ];
 
+// Used only in offline mode, where there is no signed-in user
 const DEMO_USER_ID = "demo_patient_001";
 
+// Starting point for a newly registered account
+const createNewPatientProfile = (name: string): PatientProfile => ({
+  name,
+  age: 0,
+  gender: "",
+  bloodGroup: "O+",
+  height: 0,
+  weight: 0,
+  allergies: [],
+  lifestyle: { smoking: false, alcohol: false, activityLevel: 'Moderate' }
+});
+
+// A new file, or a saved report being retried or reprocessed with other settings
+interface UploadInput {
+  id: string;
+  patientId: string; // Results are dropped if the user has switched profiles meanwhile
+  file?: File;
+  report?: UploadedFile;
+  settings?: PreprocessingSettings; // Defaults to what the report was last preprocessed with
+}
+
 function App() {
   // --- STATE ---
   const [currentView, setCurrentView] = useState('dashboard');
@@ -48,144 +118,598 @@ function App() {
   const [symptoms, setSymptoms] = useState<SymptomLog[]>(INITIAL_SYMPTOMS);
   const [history, setHistory] = useState<MedicalRecord[]>(INITIAL_HISTORY);
   const [files, setFiles] = useState<UploadedFile[]>([]);
+  const [doseEvents, setDoseEvents] = useState<DoseEvent[]>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [scoreHistory, setScoreHistory] = useState<HealthScoreRecord[]>([]);
+  const [vitals, setVitals] = useState<VitalReading[]>([]);
+  const [labResults, setLabResults] = useState<LabResult[]>([]);
+  // Whether older entries exist beyond the currently loaded page
+  const [hasMore, setHasMore] = useState<Partial<Record<PagedCollection, boolean>>>({});
+  // Patient whose local copy has been loaded; nothing is saved locally before that
+  const [loadedPatientId, setLoadedPatientId] = useState<string | null>(null);
   
   const [aiInsight, setAiInsight] = useState<AIInsight | null>(null);
+  // Emergency alerts the patient has already dismissed this session
+  const [acknowledgedAlerts, setAcknowledgedAlerts] = useState<string[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [processingStatus, setProcessingStatus] = useState<string>('');
+  const [uploadJobs, setUploadJobs] = useState<UploadJob[]>([]);
+  // Preprocessing for new uploads; each report keeps the settings it was processed with
+  const [preprocessingDefaults, setPreprocessingDefaults] = useState<PreprocessingSettings>(DEFAULT_PREPROCESSING);
+  // Lab values read from a report, waiting for the patient to confirm them
+  const [labReview, setLabReview] = useState<{ report: UploadedFile; extraction: LabExtraction } | null>(null);
+  const [extractingLabsFor, setExtractingLabsFor] = useState<string | null>(null);
   const [isFirebaseConnected, setIsFirebaseConnected] = useState(false);
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [failedWrites, setFailedWrites] = useState<FailedWrite[]>([]);
+  const [accessiblePatients, setAccessiblePatients] = useState<PatientAccess[]>([]);
+  const [activePatientId, setActivePatientId] = useState<string | null>(null);
+
+  // The patient being viewed: the account holder, a dependent, or someone shared with them
+  const patientId = activePatientId ?? authUser?.uid ?? DEMO_USER_ID;
+  // Lets async work notice the profile was switched while it ran
+  const patientIdRef = useRef(patientId);
+  patientIdRef.current = patientId;
+  // The signed-in user's name and email, read when a new patient document is created
+  const authUserRef = useRef(authUser);
+  authUserRef.current = authUser;
+
+  const interactions = useMemo(
+    () => checkInteractions(medications, profile.allergies),
+    [medications, profile.allergies]
+  );
+  const adherence = useMemo(() => calculateAdherence(medications, doseEvents), [medications, doseEvents]);
+  const vitalSummaries = useMemo(() => summarizeVitals(vitals, profile), [vitals, profile]);
+
+  // Everything insights are generated from, and its fingerprint
+  const insightInput = useMemo<HealthInsightInput>(
+    () => ({ profile, symptoms, medications, history, interactions, adherence, vitals: vitalSummaries }),
+    [profile, symptoms, medications, history, interactions, adherence, vitalSummaries]
+  );
+  const dataVersion = useMemo(() => getDataVersion(insightInput), [insightInput]);
+  // A new dataVersion is what triggers regeneration; the input behind it is read from here
+  const insightInputRef = useRef(insightInput);
+  insightInputRef.current = insightInput;
+  const [insightScheduler] = useState(() => createInsightScheduler(input => getAIProvider().generateHealthInsights(input)));
+  // The queue outlives renders, so it calls whichever runUploadJob is current
+  const runUploadJobRef = useRef<(input: UploadInput, context: UploadJobContext) => Promise<void>>(null);
+  const [uploadQueue] = useState(() => createUploadQueue<UploadInput>((input, context) => runUploadJobRef.current!(input, context)));
+
+  // Red flags are checked on every change, without waiting for the model
+  const triageAlerts = useMemo(
+    () => runTriage(symptoms, { profile, history, medications }),
+    [symptoms, profile, history, medications]
+  );
+  const pendingEmergencies = triageAlerts.filter(a => a.level === 'Emergency' && !acknowledgedAlerts.includes(a.id));
+
+  const sortedScores = useMemo(
+    () => [...scoreHistory].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    [scoreHistory]
+  );
+
+  // The latest insight, or the last saved score until one is generated,
+  // with its urgency cross-checked against triage
+  const insight = useMemo(() => {
+    const latest = aiInsight ?? sortedScores[sortedScores.length - 1] ?? null;
+    return latest && reconcileUrgency(latest, triageAlerts);
+  }, [aiInsight, sortedScores, triageAlerts]);
+  const scoreRecord = insight && 'breakdown' in insight ? insight as HealthScoreRecord : null;
+  const previousScore = scoreRecord ? sortedScores.filter(r => r.createdAt < scoreRecord.createdAt).pop() : undefined;
+  // The data changed since the shown score and a new one is on its way
+  const isInsightStale = !!scoreRecord && scoreRecord.dataVersion !== dataVersion;
+
+  // What the health assistant may answer from
+  const chatGrounding = useMemo(() => ({
+    ...insightInput,
+    reports: files,
+    labs: labResults,
+    insight,
+  }), [insightInput, files, labResults, insight]);
 
   // --- ACTIONS ---
 
-  const refreshAIInsights = useCallback(async () => {
+  // New model output is saved as a score record; cached results already were
+  const handleInsightResult = async (forPatient: string, version: string, input: HealthInsightInput, { insight, fromCache }: InsightResult) => {
+    if (patientIdRef.current !== forPatient) return;
+    if (fromCache || insight.error) {
+      setAiInsight(insightScheduler.getCached(version) ?? insight);
+      return;
+    }
+    const record = createScoreRecord(insight, input, getAIProvider().name, version);
+    insightScheduler.remember(version, record);
+    setAiInsight(record);
+    await commitChanges([{ type: 'upsert', collection: 'insights', entry: record }]);
+  };
+  // Scheduled results arrive after the debounce, so they go to whichever handler is current
+  const handleInsightResultRef = useRef(handleInsightResult);
+  handleInsightResultRef.current = handleInsightResult;
+
+  // Unchanged data returns the cached insight, so repeated clicks cost nothing
+  const refreshAIInsights = async () => {
+    insightScheduler.cancel();
     setIsAnalyzing(true);
     try {
-      const jsonResult = await generateHealthInsights(profile, symptoms, medications, history);
-      const parsed = JSON.parse(jsonResult) as AIInsight;
-      setAiInsight(parsed);
+      const result = await insightScheduler.request(dataVersion, insightInput);
+      await handleInsightResult(patientId, dataVersion, insightInput, result);
     } catch (e) {
-      console.error("Failed to parse AI response", e);
+      console.error("Failed to generate insights", e);
     } finally {
       setIsAnalyzing(false);
     }
-  }, [profile, symptoms, medications, history]);
+  };
+
+  // Clears everything belonging to the previous account. Only calls state setters, so it never changes.
+  const resetPatientState = useCallback(() => {
+    setProfile(createNewPatientProfile(''));
+    setMedications([]);
+    setSymptoms([]);
+    setHistory([]);
+    setFiles([]);
+    setDoseEvents([]);
+    setChatMessages([]);
+    setScoreHistory([]);
+    setVitals([]);
+    setLabResults([]);
+    setHasMore({});
+    setAiInsight(null);
+    setLabReview(null);
+  }, []);
 
-  // Initial load & Firebase Sync
+  // Initial load & Firebase Auth
   useEffect(() => {
-    // 1. Initial Insight generation
-    refreshAIInsights();
-    
-    // 2. Firebase Sync
+    // Auth state; the patient document is bound per user below
     if (isFirebaseReady()) {
       setIsFirebaseConnected(true);
-      const unsubscribe = syncPatientData(DEMO_USER_ID, (data) => {
-        if (data.profile) setProfile(data.profile);
-        if (data.medications) setMedications(data.medications);
-        if (data.symptoms) setSymptoms(data.symptoms);
-        if (data.history) setHistory(data.history);
-        if (data.reports) setFiles(data.reports);
-      }, {
-        profile: INITIAL_PROFILE,
-        medications: INITIAL_MEDS,
-        symptoms: INITIAL_SYMPTOMS,
-        history: INITIAL_HISTORY
+      return onAuthChange((user) => {
+        if (!user) resetPatientState();
+        setActivePatientId(null);
+        setAuthUser(user);
+        setIsAuthChecked(true);
       });
-      return () => unsubscribe();
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resetPatientState]);
+
+  // Connectivity for the offline indicator
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Profiles this account can switch between
+  useEffect(() => {
+    if (!authUser) {
+      setAccessiblePatients([]);
+      return;
+    }
+    return subscribeAccessiblePatients(authUser, setAccessiblePatients);
+  }, [authUser?.uid]);
+
+  // Fall back to the account holder if access to the viewed profile is revoked
+  useEffect(() => {
+    if (activePatientId && accessiblePatients.length > 0 && !accessiblePatients.some(p => p.id === activePatientId)) {
+      setActivePatientId(null);
+    }
+  }, [accessiblePatients, activePatientId]);
+
+  // Replay queued writes for the signed-in account, now and whenever it comes back online
+  useEffect(() => {
+    if (!authUser) return;
+    return startOutboxSync(authUser.uid);
+  }, [authUser?.uid]);
+
+  // Writes the server rejected stay queued until the patient retries or discards them
+  useEffect(() => {
+    if (!authUser) {
+      setFailedWrites([]);
+      return;
+    }
+    return subscribeFailedWrites(authUser.uid, setFailedWrites);
+  }, [authUser?.uid]);
+
+  const applySnapshot = useCallback((snapshot: PatientSnapshot) => {
+    setProfile(snapshot.profile);
+    setMedications(snapshot.medications);
+    setSymptoms(snapshot.symptoms.map(normalizeSymptomLog));
+    setHistory(snapshot.history);
+    setFiles(snapshot.reports);
+    setDoseEvents(snapshot.adherence);
+    setChatMessages(snapshot.chat ?? []);
+    setScoreHistory(snapshot.insights ?? []);
+    setVitals(snapshot.vitals ?? []);
+    setLabResults(snapshot.labs ?? []);
+  }, []);
+
+  // Applies the keys present in (partial) Firestore data
+  const applyServerData = useCallback((data: any) => {
+    if (data.profile) setProfile(data.profile);
+    if (data.medications) setMedications(data.medications);
+    if (data.symptoms) setSymptoms(data.symptoms.map(normalizeSymptomLog));
+    if (data.history) setHistory(data.history);
+    if (data.reports) setFiles(data.reports);
+    if (data.adherence) setDoseEvents(data.adherence);
+    if (data.chat) setChatMessages(data.chat);
+    if (data.insights) setScoreHistory(data.insights);
+    if (data.vitals) setVitals(data.vitals);
+    if (data.labs) setLabResults(data.labs);
+    if (data.hasMore) setHasMore(prev => ({ ...prev, ...data.hasMore }));
   }, []);
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || e.target.files.length === 0) return;
-    const file = e.target.files[0];
-    
-    setIsUploading(true);
-    setProcessingStatus('Uploading...');
+  // Load the active patient from IndexedDB, then (with Firebase) follow Firestore.
+  // Torn down on sign-out or profile switch.
+  const authUid = authUser?.uid;
+  useEffect(() => {
+    const useFirebase = isFirebaseReady();
+    const authUser = authUserRef.current;
+    if (useFirebase && !authUser) return;
+    if (useFirebase) resetPatientState();
+
+    let cancelled = false;
+    let unsubscribe = () => {};
+    loadLocalSnapshot(patientId).then(snapshot => {
+      if (cancelled) return;
+      if (snapshot) applySnapshot(snapshot);
+      setLoadedPatientId(patientId);
+      if (!useFirebase || !authUser) return;
+
+      const isSelf = patientId === authUser.uid;
+      unsubscribe = syncPatientData(patientId, (raw) => {
+        if (raw.reports) {
+          migrateInlineReports(patientId, raw.reports).catch(e => console.error("Report image migration failed", e));
+        }
+        // Changes still waiting in the outbox win over what the server has
+        applyServerData(overlayPendingWrites(patientId, raw));
+      }, {
+        // Only the account holder's own document may be created or claimed here
+        ownerId: isSelf ? authUser.uid : undefined,
+        profile: createNewPatientProfile(isSelf ? authUser.displayName || authUser.email?.split('@')[0] || '' : ''),
+        medications: [],
+        symptoms: [],
+        history: []
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      uploadQueue.clear();
+      setLoadedPatientId(null);
+    };
+  }, [authUid, patientId, resetPatientState, applySnapshot, applyServerData, uploadQueue]);
 
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const base64DataUrl = reader.result as string;
+  // IndexedDB keeps the latest copy of the active patient, so a reload works offline
+  useEffect(() => {
+    if (loadedPatientId !== patientId) return;
+    saveLocalSnapshot(patientId, { profile, medications, symptoms, history, reports: files, adherence: doseEvents, chat: chatMessages, insights: scoreHistory, vitals, labs: labResults });
+  }, [loadedPatientId, patientId, profile, medications, symptoms, history, files, doseEvents, chatMessages, scoreHistory, vitals, labResults]);
+
+  // Saved scores seed the insight cache, so reloading unchanged data never calls the model
+  useEffect(() => {
+    sortedScores.forEach(r => insightScheduler.remember(r.dataVersion, r));
+  }, [sortedScores, insightScheduler]);
+
+  // Regenerate insights once loaded data has settled after a change
+  useEffect(() => {
+    if (loadedPatientId !== patientId) return;
+    const cached = insightScheduler.getCached(dataVersion);
+    if (cached) {
+      setAiInsight(cached);
+      return;
+    }
+    const version = dataVersion;
+    const input = insightInputRef.current;
+    insightScheduler.schedule(version, input, result => handleInsightResultRef.current(patientId, version, input, result));
+    return () => insightScheduler.cancel();
+  }, [loadedPatientId, patientId, dataVersion, sortedScores, insightScheduler]);
+
+  useEffect(() => uploadQueue.subscribe(setUploadJobs), [uploadQueue]);
+
+  // Changes apply to local state first; with Firebase they are also queued for upload
+  const commitChanges = async (mutations: PatientMutation[]) => {
+    if (mutations.length === 0) return;
+    setProfile(prev => applyToProfile(prev, mutations));
+    setMedications(prev => applyToList(prev, 'medications', mutations));
+    setSymptoms(prev => applyToList(prev, 'symptoms', mutations));
+    setHistory(prev => applyToList(prev, 'history', mutations));
+    setFiles(prev => applyToList(prev, 'reports', mutations));
+    setDoseEvents(prev => applyToList(prev, 'adherence', mutations));
+    setChatMessages(prev => applyToList(prev, 'chat', mutations));
+    setScoreHistory(prev => applyToList(prev, 'insights', mutations));
+    setVitals(prev => applyToList(prev, 'vitals', mutations));
+    setLabResults(prev => applyToList(prev, 'labs', mutations));
+    if (isFirebaseConnected && authUser) {
+      await enqueueMutations(authUser.uid, patientId, mutations);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOutPatient();
+    await clearLocalSnapshots();
+    setCurrentView('dashboard');
+  };
+
+  // Processes one upload: preprocess, analyze (PDFs page by page) and save. A failure is
+  // saved on the report as well, so it survives a reload and can be retried from there.
+  const runUploadJob = async (input: UploadInput, { signal, setStage }: UploadJobContext) => {
+    const { file, report } = input;
+    const mimeType = file ? file.type : report!.type;
+    // Retries keep the report's id, date and stored original
+    const base: UploadedFile = file
+      ? { id: input.id, name: file.name, type: file.type, date: new Date().toISOString(), size: file.size }
+      : { id: report!.id, name: report!.name, type: report!.type, date: report!.date };
+    if (report?.size !== undefined) base.size = report.size;
+    if (report?.originalPath) base.originalPath = report.originalPath;
+    if (report?.previewUrl) base.previewUrl = report.previewUrl;
+
+    const save = (changes: Partial<UploadedFile>) => {
+      if (patientIdRef.current !== input.patientId) return;
+      return commitChanges([{ type: 'upsert', collection: 'reports', entry: { ...base, ...changes } }]);
+    };
+
+    let saved = false;
+    try {
+      let base64DataUrl: string;
+      if (file && mimeType === DICOM_MIME_TYPE) {
+        // DICOM headers name the patient; only the blanked copy is kept, stored and analyzed
+        const bytes = deidentifyDicom(new Uint8Array(await file.arrayBuffer()));
+        base64DataUrl = await readAsDataUrl(new Blob([bytes], { type: DICOM_MIME_TYPE }));
+      } else if (file) {
+        base64DataUrl = await readAsDataUrl(file);
+      } else {
+        const data = await getReportOriginal(report!);
+        if (!data) throw new Error("The original file is no longer available");
+        base64DataUrl = `data:${mimeType};base64,${data}`;
+      }
+      signal.throwIfAborted();
       const base64String = base64DataUrl.split(',')[1];
-      const mimeType = file.type;
-
-      try {
-        let processedImageBase64 = null;
-        let finalImageBase64 = base64String;
-
-        // 1. Process Image (Denoise/Crop) if it's an image
-        if (file.type.startsWith('image/')) {
-          setProcessingStatus('Removing noise & cropping...');
-          const processed = await processMedicalImage(base64String, mimeType);
-          if (processed) {
-            processedImageBase64 = processed;
-            finalImageBase64 = processed;
+      if (file) base.previewUrl = base64DataUrl;
+
+      // 1. Preprocess images locally (crop, denoise, contrast); the original is kept as uploaded
+      const settings = input.settings ?? report?.preprocessing?.settings ?? DEFAULT_PREPROCESSING;
+      let processedImageBase64: string | null = null;
+      let preprocessing: PreprocessingRecord | null = null;
+      if (mimeType.startsWith('image/') && isPreprocessingEnabled(settings)) {
+        setStage('enhancing');
+        const processed = await preprocessImage(base64DataUrl, settings);
+        processedImageBase64 = processed.dataUrl.split(',')[1];
+        preprocessing = processed.record;
+        signal.throwIfAborted();
+        // The model's enhancement can invent or erase detail, so it only runs when asked for
+        if (settings.aiEnhance) {
+          setStage('enhancing', 'AI enhancement...');
+          const enhanced = await getAIProvider().enhanceImage(processedImageBase64, 'image/png');
+          signal.throwIfAborted();
+          if (enhanced) {
+            processedImageBase64 = enhanced;
+            preprocessing.aiEnhanced = true;
           }
         }
+      }
 
-        // 2. Analyze the FINAL image (processed or original)
-        setProcessingStatus('Detecting anomalies...');
-        const analysisResult = await analyzeMedicalDocument(finalImageBase64, mimeType);
-
-        const newFile: UploadedFile = {
-          id: Date.now().toString(),
-          name: file.name,
-          type: file.type,
-          date: new Date().toISOString(),
-          previewUrl: base64DataUrl,
-          processedUrl: processedImageBase64 ? `data:image/png;base64,${processedImageBase64}` : undefined,
-          analysisResult: analysisResult
-        };
-        
-        if (isFirebaseConnected) {
-          setProcessingStatus('Saving to database...');
-          await addPatientReport(DEMO_USER_ID, newFile);
-        } else {
-          setFiles(prev => [newFile, ...prev]);
-        }
+      // 2. Analyze the FINAL image (processed or original); PDFs page by page
+      setStage('analyzing');
+      let pdf: PdfAnalysis | null = null;
+      let dicom: DicomAnalysis | null = null;
+      let analysisResult: AnalysisResult;
+      if (mimeType === 'application/pdf') {
+        pdf = await analyzePdf(
+          base64String,
+          (page, text) => getAIProvider().analyzeDocument(page, 'image/jpeg', { kind: 'pdf-page', text }),
+          status => setStage('analyzing', status)
+        );
+        analysisResult = pdf.analysisResult;
+      } else if (mimeType === DICOM_MIME_TYPE) {
+        dicom = await analyzeDicom(
+          base64String,
+          (frame, description) => getAIProvider().analyzeDocument(frame, 'image/png', { kind: 'dicom-frame', description }),
+          status => setStage('analyzing', status)
+        );
+        analysisResult = dicom.analysisResult;
+      } else {
+        analysisResult = processedImageBase64
+          ? await getAIProvider().analyzeDocument(processedImageBase64, 'image/png')
+          : await getAIProvider().analyzeDocument(base64String, mimeType);
+      }
+      signal.throwIfAborted();
 
-      } catch (error) {
-        console.error("Pipeline failed", error);
-      } finally {
-        setIsUploading(false);
-        setProcessingStatus('');
+      setStage('saving');
+      const changes: Partial<UploadedFile> = { analysisResult };
+      if (processedImageBase64) changes.processedUrl = `data:image/png;base64,${processedImageBase64}`;
+      if (preprocessing) changes.preprocessing = preprocessing;
+      if (pdf) {
+        changes.pageCount = pdf.pageCount;
+        changes.pages = pdf.pages;
       }
-    };
-    reader.readAsDataURL(file);
+      if (dicom) changes.dicom = dicom.info;
+      if (analysisResult.error) changes.processingError = analysisResult.error.message;
+      await save(changes);
+      saved = true;
+      if (analysisResult.error) throw new Error(analysisResult.error.message);
+    } catch (error) {
+      if (signal.aborted || saved) throw error;
+      // pdf.js names its errors InvalidPDFException, PasswordException, ...
+      const message = error instanceof Error && /PDF|Password/.test(error.name)
+        ? "This PDF could not be read. It may be damaged or password-protected."
+        : error instanceof Error ? error.message : String(error);
+      await save({ processingError: message });
+      throw new Error(message, { cause: error });
+    }
   };
+  runUploadJobRef.current = runUploadJob;
 
-  const addSymptom = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const newLog: SymptomLog = {
-      id: Date.now().toString(),
-      symptom: formData.get('symptom') as string,
-      severity: Number(formData.get('severity')),
-      duration: formData.get('duration') as string,
-      date: new Date().toISOString()
-    };
-    
-    if (isFirebaseConnected) {
-      await addPatientSymptom(DEMO_USER_ID, newLog);
-    } else {
-      setSymptoms([newLog, ...symptoms]);
+  const handleFilesSelected = async (selected: File[]) => {
+    const supported: File[] = [];
+    const skipped: string[] = [];
+    for (const file of selected) {
+      if (await isDicomFile(file)) {
+        // Browsers rarely know the DICOM type, so it is set here for storage and analysis
+        if (file.size > MAX_DICOM_SIZE) skipped.push(`${file.name} (over ${MAX_DICOM_SIZE / 1024 / 1024} MB)`);
+        else supported.push(file.type === DICOM_MIME_TYPE ? file : new File([file], file.name, { type: DICOM_MIME_TYPE }));
+      } else if (file.type.startsWith('image/') || file.type === 'application/pdf') {
+        supported.push(file);
+      } else {
+        skipped.push(file.name);
+      }
+    }
+    if (skipped.length > 0) alert(`Only images, PDFs and DICOM files can be analyzed. Skipped: ${skipped.join(', ')}`);
+    supported.forEach((file, i) => {
+      const id = `${Date.now()}-${i}`;
+      uploadQueue.add({ id, patientId, file, settings: preprocessingDefaults }, { id, name: file.name, type: file.type, size: file.size });
+    });
+  };
+
+  // Failed reports retry in place; the job is reused when this session still has the file
+  const handleRetryReport = (report: UploadedFile) => {
+    if (uploadQueue.retry(report.id)) return;
+    uploadQueue.add({ id: report.id, patientId, report }, { id: report.id, name: report.name, type: report.type, size: report.size ?? 0 });
+  };
+
+  // Runs a report through preprocessing and analysis again with adjusted settings
+  const handleReprocessReport = (report: UploadedFile, settings: PreprocessingSettings) => {
+    if (!uploadQueue.add({ id: report.id, patientId, report, settings }, { id: report.id, name: report.name, type: report.type, size: report.size ?? 0 })) {
+      alert("This report is still being processed. Try again once it has finished.");
+    }
+  };
+
+  const addSymptom = async (newLog: SymptomLog) => {
+    await commitChanges([{ type: 'upsert', collection: 'symptoms', entry: newLog }]);
+  };
+
+  const handleSymptomsChange = async (next: SymptomLog[]) => {
+    await commitChanges(diffEntries('symptoms', symptoms, next));
+  };
+
+  const handleMedicationsChange = async (next: Medication[]) => {
+    await commitChanges(diffEntries('medications', medications, next));
+  };
+
+  // A new weight reading also becomes the profile weight, which BMI is based on
+  const handleVitalAdd = async (reading: VitalReading) => {
+    const mutations: PatientMutation[] = [{ type: 'upsert', collection: 'vitals', entry: reading }];
+    const isLatestWeight = reading.type === 'weight'
+      && !vitals.some(v => v.type === 'weight' && v.takenAt > reading.takenAt);
+    if (isLatestWeight) mutations.push({ type: 'profile', profile: { ...profile, weight: toStandardUnit(reading) } });
+    await commitChanges(mutations);
+  };
+
+  const handleVitalDelete = async (id: string) => {
+    await commitChanges([{ type: 'delete', collection: 'vitals', entryId: id }]);
+  };
+
+  // Reads lab values off a saved report and opens them for review
+  const handleExtractLabs = async (report: UploadedFile) => {
+    const forPatient = patientId;
+    setExtractingLabsFor(report.id);
+    try {
+      const data = await getReportOriginal(report);
+      if (!data) {
+        alert("The original file for this report is no longer available, so its values cannot be read.");
+        return;
+      }
+      const extraction = await getAIProvider().extractLabResults(data, report.type);
+      if (patientIdRef.current === forPatient) setLabReview({ report, extraction });
+    } catch (e) {
+      console.error("Lab extraction failed", e);
+      alert("Could not read this report. Please try again.");
+    } finally {
+      setExtractingLabsFor(null);
     }
-    
-    (e.target as HTMLFormElement).reset();
   };
 
-  const handleProfileSave = async () => {
-    if (isFirebaseConnected) {
-      await updatePatientProfile(DEMO_USER_ID, profile);
+  const handleLabConfirm = async (results: LabResult[]) => {
+    setLabReview(null);
+    await commitChanges(results.map((entry): PatientMutation => ({ type: 'upsert', collection: 'labs', entry })));
+    setCurrentView('labs');
+  };
+
+  const handleLabDelete = async (id: string) => {
+    await commitChanges([{ type: 'delete', collection: 'labs', entryId: id }]);
+  };
+
+  const handleDoseRecord = async (event: DoseEvent) => {
+    await commitChanges([{ type: 'upsert', collection: 'adherence', entry: event }]);
+  };
+
+  const handleHistoryAdd = async (record: MedicalRecord) => {
+    await commitChanges([{ type: 'upsert', collection: 'history', entry: record }]);
+  };
+
+  const handleHistoryChange = async (next: MedicalRecord[]) => {
+    await commitChanges(diffEntries('history', history, next));
+  };
+
+  // A streamed answer is built from the record it was asked about; drop it after a profile switch
+  const handleChatMessage = async (message: ChatMessage, forPatient: string) => {
+    if (patientIdRef.current !== forPatient) return;
+    await commitChanges([{ type: 'upsert', collection: 'chat', entry: message }]);
+  };
+
+  const handleRetryWrite = (key: string) => {
+    if (authUser) retryFailedWrite(authUser.uid, key);
+  };
+
+  // The rejected change is still shown locally; go back to what the server has
+  const handleDiscardWrite = async (write: FailedWrite) => {
+    await discardFailedWrite(write.key);
+    if (patientIdRef.current === write.patientId) applyServerData(getPatientView(write.patientId));
+  };
+
+  const handleProfileSave = async (profile: PatientProfile) => {
+    await commitChanges([{ type: 'profile', profile }]);
+    if (!isFirebaseConnected) {
+      alert('Profile saved locally.');
+    } else if (navigator.onLine) {
       alert('Profile synced to database!');
     } else {
-      alert('Profile saved locally.');
+      alert('Profile saved. It will sync when you are back online.');
+    }
+  };
+
+  const handleLoadMore = (name: PagedCollection) => loadMorePatientData(patientId, name);
+
+  const handleSelectPatient = (id: string) => {
+    setActivePatientId(id === authUser?.uid ? null : id);
+    setCurrentView('dashboard');
+  };
+
+  const handleAddDependent = async (name: string, relationship: string) => {
+    if (!authUser) return;
+    try {
+      const id = await createDependentProfile(authUser.uid, relationship, createNewPatientProfile(name));
+      if (id) handleSelectPatient(id);
+    } catch (e) {
+      console.error("Failed to create profile", e);
+      alert('Could not create the profile. Please try again.');
+    }
+  };
+
+  const handleGrantAccess = async (email: string) => {
+    try {
+      await grantCaregiverAccess(patientId, email);
+    } catch (e) {
+      console.error("Failed to share profile", e);
+      alert('Could not share this profile. Please try again.');
+    }
+  };
+
+  const handleRevokeAccess = async (email: string) => {
+    if (!confirm(`Remove ${email}'s access to ${profile.name}'s records?`)) return;
+    try {
+      await revokeCaregiverAccess(patientId, email);
+    } catch (e) {
+      console.error("Failed to revoke access", e);
     }
   };
 
   // --- RENDER HELPERS ---
 
   const renderHealthScore = () => {
-    const score = aiInsight?.healthScore || 0;
+    const score = insight?.healthScore || 0;
     const data = [
       { name: 'Score', value: score },
       { name: 'Remaining', value: 100 - score },
@@ -231,11 +755,23 @@ function App() {
           <h1 className="text-2xl font-bold text-gray-900">Welcome back, {profile.name}</h1>
           <p className="text-gray-500">Here's your daily health overview.</p>
         </div>
-        {isFirebaseConnected && (
-          <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded-full font-medium border border-green-200">
-             Database Connected
-          </span>
-        )}
+        <div className="flex items-center gap-2">
+          {!isOnline && (
+            <span className="flex items-center gap-1 text-xs px-2 py-1 bg-amber-100 text-amber-700 rounded-full font-medium border border-amber-200">
+              <WifiOff className="w-3 h-3" /> Offline
+            </span>
+          )}
+          {failedWrites.length > 0 && (
+            <span className="flex items-center gap-1 text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full font-medium border border-red-200">
+              <CloudOff className="w-3 h-3" /> {failedWrites.length} not saved
+            </span>
+          )}
+          {isFirebaseConnected && (
+            <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded-full font-medium border border-green-200">
+               Database Connected
+            </span>
+          )}
+        </div>
       </header>
 
       {/* Top Cards */}
@@ -246,10 +782,14 @@ function App() {
           {renderHealthScore()}
           <div className="text-center mt-2">
             <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-              (aiInsight?.healthScore || 0) > 70 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+              insight?.urgency === 'Emergency' ? 'bg-red-100 text-red-700'
+                : (insight?.healthScore || 0) > 70 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
             }`}>
-              {aiInsight?.urgency === 'Low' ? 'Stable Condition' : 'Attention Needed'}
+              {insight?.urgency === 'Emergency' ? 'Emergency' : insight?.urgency === 'Low' ? 'Stable Condition' : 'Attention Needed'}
             </span>
+            {insight?.modelUrgency && (
+              <p className="text-xs text-gray-500 mt-2">Raised from {insight.modelUrgency} by red-flag safety rules</p>
+            )}
           </div>
         </div>
 
@@ -262,12 +802,18 @@ function App() {
             </h3>
             <button 
               onClick={refreshAIInsights}
-              disabled={isAnalyzing}
+              disabled={isAnalyzing || loadedPatientId !== patientId}
               className="text-sm text-brand-600 hover:text-brand-800 disabled:opacity-50"
             >
               {isAnalyzing ? 'Analyzing...' : 'Refresh Analysis'}
             </button>
           </div>
+          {scoreRecord && (
+            <p className="text-xs text-gray-400 -mt-2 mb-4" title={`Data version ${scoreRecord.dataVersion}`}>
+              Generated {new Date(scoreRecord.createdAt).toLocaleString()} from data version {scoreRecord.dataVersion.slice(0, 7)}
+              {isInsightStale && <span className="text-amber-600"> · your data changed, updating shortly</span>}
+            </p>
+          )}
           
           {isAnalyzing ? (
             <div className="flex items-center justify-center h-40">
@@ -276,23 +822,23 @@ function App() {
           ) : (
             <div className="space-y-4">
               <p className="text-gray-600 leading-relaxed">
-                {aiInsight?.summary || "No data available yet. Please add symptoms or medical records."}
+                {insight?.summary || "No data available yet. Please add symptoms or medical records."}
               </p>
               
-              {aiInsight?.riskFactors && aiInsight.riskFactors.length > 0 && (
+              {insight?.riskFactors && insight.riskFactors.length > 0 && (
                 <div className="bg-red-50 p-4 rounded-lg border border-red-100">
                   <p className="text-sm font-bold text-red-800 mb-2">Potential Risk Factors:</p>
                   <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
-                    {aiInsight.riskFactors.map((rf, i) => <li key={i}>{rf}</li>)}
+                    {insight.riskFactors.map((rf, i) => <li key={i}>{rf}</li>)}
                   </ul>
                 </div>
               )}
 
-              {aiInsight?.recommendations && (
+              {insight?.recommendations && (
                 <div className="bg-brand-50 p-4 rounded-lg border border-brand-100">
                   <p className="text-sm font-bold text-brand-800 mb-2">Recommendations:</p>
                   <ul className="list-disc list-inside text-sm text-brand-700 space-y-1">
-                     {aiInsight.recommendations.map((rec, i) => <li key={i}>{rec}</li>)}
+                     {insight.recommendations.map((rec, i) => <li key={i}>{rec}</li>)}
                   </ul>
                 </div>
               )}
@@ -301,26 +847,47 @@ function App() {
         </div>
       </div>
 
+      {/* Score History & Breakdown */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 md:col-span-2">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Health Score Trend</h3>
+          <ScoreTrendChart records={sortedScores} />
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Why This Score?</h3>
+          {scoreRecord
+            ? <ScoreBreakdown record={scoreRecord} previous={previousScore} />
+            : <p className="text-sm text-gray-400">Refresh insights to see how the score is made up.</p>}
+        </div>
+      </div>
+
       {/* Quick Actions & Recent */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">Active Medications</h3>
           <div className="space-y-3">
-            {medications.filter(m => m.active).map(med => (
-              <div key={med.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                <div className="flex items-center gap-3">
-                  <div className="p-2 bg-blue-100 text-blue-600 rounded-full">
-                    <Pill className="w-4 h-4" />
+            <InteractionWarnings warnings={interactions} compact />
+            {medications.filter(m => m.active).map(med => {
+              const worst = highestSeverity(interactions.filter(w => w.medications.includes(med.name)));
+              return (
+                <div key={med.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-blue-100 text-blue-600 rounded-full">
+                      <Pill className="w-4 h-4" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">{med.name}</p>
+                      <p className="text-xs text-gray-500">{med.dosage} • {med.frequency}</p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="font-medium text-gray-900">{med.name}</p>
-                    <p className="text-xs text-gray-500">{med.dosage} • {med.frequency}</p>
+                  <div className="flex items-center gap-2">
+                    {worst && <SeverityBadge severity={worst} />}
+                    <span className="text-xs font-medium text-green-600 bg-green-50 px-2 py-1 rounded">Active</span>
                   </div>
                 </div>
-                <span className="text-xs font-medium text-green-600 bg-green-50 px-2 py-1 rounded">Active</span>
-              </div>
-            ))}
-            {medications.length === 0 && <p className="text-gray-400 text-sm">No active medications.</p>}
+              );
+            })}
+            {!medications.some(m => m.active) && <p className="text-gray-400 text-sm">No active medications.</p>}
           </div>
           <button onClick={() => setCurrentView('medications')} className="w-full mt-4 py-2 text-sm text-brand-600 font-medium hover:bg-brand-50 rounded-lg transition-colors">
             Manage Medications
@@ -328,7 +895,17 @@ function App() {
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4">Recent Symptoms</h3>
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Today's Doses</h3>
+          <DoseChecklist medications={medications} doseEvents={doseEvents} onRecord={handleDoseRecord} />
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+            <div className="flex justify-between items-start mb-4">
+              <h3 className="text-lg font-semibold text-gray-800">Recent Symptoms</h3>
+              <button onClick={() => setCurrentView('analytics')} className="text-sm text-brand-600 hover:text-brand-800">
+                View Trends
+              </button>
+            </div>
             <div className="h-48">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={symptoms.slice(0, 5).reverse()}>
@@ -343,103 +920,11 @@ function App() {
             Log New Symptom
           </button>
         </div>
-      </div>
-    </div>
-  );
 
-  const ProfileView = () => (
-    <div className="max-w-2xl mx-auto space-y-6">
-       <h2 className="text-2xl font-bold text-gray-900">Patient Profile</h2>
-       <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-100">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
-                <input type="text" value={profile.name} onChange={e => setProfile({...profile, name: e.target.value})} className="w-full p-2 border border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500" />
-             </div>
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Age</label>
-                <input type="number" value={profile.age} onChange={e => setProfile({...profile, age: parseInt(e.target.value)})} className="w-full p-2 border border-gray-300 rounded-md" />
-             </div>
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Blood Group</label>
-                <select value={profile.bloodGroup} onChange={e => setProfile({...profile, bloodGroup: e.target.value})} className="w-full p-2 border border-gray-300 rounded-md">
-                   {['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'].map(bg => <option key={bg} value={bg}>{bg}</option>)}
-                </select>
-             </div>
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Height (cm)</label>
-                <input type="number" value={profile.height} onChange={e => setProfile({...profile, height: parseInt(e.target.value)})} className="w-full p-2 border border-gray-300 rounded-md" />
-             </div>
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Weight (kg)</label>
-                <input type="number" value={profile.weight} onChange={e => setProfile({...profile, weight: parseInt(e.target.value)})} className="w-full p-2 border border-gray-300 rounded-md" />
-             </div>
-             <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Allergies (comma separated)</label>
-                <input type="text" value={profile.allergies.join(', ')} onChange={e => setProfile({...profile, allergies: e.target.value.split(',').map(s => s.trim())})} className="w-full p-2 border border-gray-300 rounded-md" />
-             </div>
-          </div>
-          <div className="mt-8 flex justify-end">
-            <button onClick={handleProfileSave} className="bg-brand-600 text-white px-6 py-2 rounded-lg hover:bg-brand-700 transition-colors">
-              Save Changes
-            </button>
-          </div>
-       </div>
-    </div>
-  );
-
-  const SymptomsView = () => (
-    <div className="space-y-6">
-      <h2 className="text-2xl font-bold text-gray-900">Symptom Logger</h2>
-      
-      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-        <h3 className="text-lg font-medium text-gray-800 mb-4">Log a New Symptom</h3>
-        <form onSubmit={addSymptom} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
-           <div className="md:col-span-2">
-              <label className="block text-sm font-medium text-gray-700 mb-1">Symptom Name</label>
-              <input name="symptom" type="text" placeholder="e.g. Migraine, Nausea" required className="w-full p-2 border border-gray-300 rounded-md" />
-           </div>
-           <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Severity (1-10)</label>
-              <input name="severity" type="number" min="1" max="10" required className="w-full p-2 border border-gray-300 rounded-md" />
-           </div>
-           <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
-              <input name="duration" type="text" placeholder="e.g. 2 hours" required className="w-full p-2 border border-gray-300 rounded-md" />
-           </div>
-           <button type="submit" className="md:col-span-4 bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 flex items-center justify-center gap-2">
-             <Plus className="w-4 h-4" /> Add Symptom
-           </button>
-        </form>
-      </div>
-
-      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-        <table className="w-full text-left">
-          <thead className="bg-gray-50 border-b border-gray-200">
-            <tr>
-              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Date</th>
-              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Symptom</th>
-              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Severity</th>
-              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Duration</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-gray-100">
-             {symptoms.map(log => (
-               <tr key={log.id} className="hover:bg-gray-50">
-                 <td className="p-4 text-sm text-gray-600">{new Date(log.date).toLocaleDateString()}</td>
-                 <td className="p-4 text-sm font-medium text-gray-900">{log.symptom}</td>
-                 <td className="p-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      log.severity >= 7 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
-                    }`}>
-                      {log.severity}/10
-                    </span>
-                 </td>
-                 <td className="p-4 text-sm text-gray-600">{log.duration}</td>
-               </tr>
-             ))}
-          </tbody>
-        </table>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Medication Adherence</h3>
+          <AdherenceChart medications={medications} doseEvents={doseEvents} />
+        </div>
       </div>
     </div>
   );
@@ -455,13 +940,13 @@ function App() {
                  <Stethoscope className="w-8 h-8 text-white" />
               </div>
               <div>
-                 <h3 className="text-lg font-bold">Recommended Specialist: {aiInsight?.doctorSpecialty || "General Physician"}</h3>
+                 <h3 className="text-lg font-bold">Recommended Specialist: {insight?.doctorSpecialty || "General Physician"}</h3>
                  <p className="text-brand-50 mt-1 opacity-90">
                     Based on your symptoms ({symptoms.map(s => s.symptom).join(', ')}) and history, MediQuest AI suggests consulting a specialist.
                  </p>
                  <div className="mt-4 flex gap-2">
                     <span className="px-3 py-1 bg-white/20 rounded-full text-xs font-medium border border-white/30">
-                       Urgency: {aiInsight?.urgency || "Low"}
+                       Urgency: {insight?.urgency || "Low"}
                     </span>
                  </div>
               </div>
@@ -478,7 +963,7 @@ function App() {
                    </div>
                    <div>
                       <h4 className="font-bold text-gray-900">Dr. Sarah Smith</h4>
-                      <p className="text-sm text-brand-600">{aiInsight?.doctorSpecialty || "General Physician"}</p>
+                      <p className="text-sm text-brand-600">{insight?.doctorSpecialty || "General Physician"}</p>
                    </div>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-500 mb-4">
@@ -497,37 +982,83 @@ function App() {
   const renderContent = () => {
     switch (currentView) {
       case 'dashboard': return <DashboardView />;
-      case 'profile': return <ProfileView />;
-      case 'medications': 
+      case 'profile': return <ProfileView profile={profile} onSave={handleProfileSave} />;
+      case 'medications': return <MedicationsView medications={medications} allergies={profile.allergies} interactions={interactions} onChange={handleMedicationsChange} />;
       case 'inventory':
-          // Reusing Inventory logic simply for this demo
           return (
-             <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-100 text-center">
-                <h2 className="text-xl font-bold mb-2">Medical Inventory</h2>
-                <p className="text-gray-500">Comprehensive list of Conditions, Surgeries, and Medications.</p>
+             <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-100">
+                <div className="text-center">
+                   <h2 className="text-xl font-bold mb-2">Medical Inventory</h2>
+                   <p className="text-gray-500">Comprehensive list of Conditions, Surgeries, Vaccinations, and Medications.</p>
+                </div>
                 <div className="mt-8 text-left space-y-4">
-                   <h3 className="font-bold text-gray-800 border-b pb-2">Conditions</h3>
-                   {history.map(h => <div key={h.id} className="p-3 bg-gray-50 rounded">{h.name} ({h.date})</div>)}
+                   <MedicalHistoryEditor history={history} onAdd={handleHistoryAdd} onChange={handleHistoryChange} />
                    <h3 className="font-bold text-gray-800 border-b pb-2 pt-4">Medications</h3>
                    {medications.map(m => <div key={m.id} className="p-3 bg-gray-50 rounded">{m.name} - {m.dosage}</div>)}
                 </div>
              </div>
           );
-      case 'symptoms': return <SymptomsView />;
-      case 'upload': return <UploadReport files={files} isUploading={isUploading} processingStatus={processingStatus} onFileUpload={handleFileUpload} />;
+      case 'vitals': return <VitalsView readings={vitals} profile={profile} onAdd={handleVitalAdd} onDelete={handleVitalDelete} hasMore={hasMore.vitals} onLoadMore={() => handleLoadMore('vitals')} />;
+      case 'symptoms': return <SymptomsView symptoms={symptoms} medications={medications} onAdd={addSymptom} onChange={handleSymptomsChange} hasMore={hasMore.symptoms} onLoadMore={() => handleLoadMore('symptoms')} />;
+      case 'analytics': return <SymptomAnalyticsView symptoms={symptoms} medications={medications} />;
+      case 'upload': return <UploadReport files={files} jobs={uploadJobs} onFilesSelected={handleFilesSelected} onCancelJob={uploadQueue.cancel} onRetryJob={uploadQueue.retry} onDismissJob={uploadQueue.dismiss} onRetryReport={handleRetryReport} preprocessing={preprocessingDefaults} onPreprocessingChange={setPreprocessingDefaults} onReprocessReport={handleReprocessReport} onExtractLabs={handleExtractLabs} extractingLabsFor={extractingLabsFor} hasMore={hasMore.reports} onLoadMore={() => handleLoadMore('reports')} />;
+      case 'labs': return <LabResultsView results={labResults} onDelete={handleLabDelete} hasMore={hasMore.labs} onLoadMore={() => handleLoadMore('labs')} />;
+      case 'assistant': return <ChatView messages={chatMessages} grounding={chatGrounding} patientId={patientId} onSaveMessage={handleChatMessage} hasMore={hasMore.chat} onLoadMore={() => handleLoadMore('chat')} />;
       case 'doctor': return <DoctorRecommendationView />;
       default: return <DashboardView />;
     }
   };
 
+  if (isFirebaseConnected && !isAuthChecked) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-500" />
+      </div>
+    );
+  }
+
+  if (isFirebaseConnected && !authUser) {
+    return <AuthView onSignIn={signInPatient} onRegister={registerPatient} />;
+  }
+
   return (
     <div className="flex h-screen bg-gray-50 overflow-hidden font-sans text-gray-900">
+      <EmergencyAlertModal
+        alerts={pendingEmergencies}
+        onAcknowledge={ids => setAcknowledgedAlerts(prev => [...prev, ...ids])}
+      />
+      {labReview && (
+        <LabReviewDialog
+          key={labReview.report.id}
+          reportId={labReview.report.id}
+          reportName={labReview.report.name}
+          extraction={labReview.extraction}
+          defaultDate={labReview.report.date.slice(0, 10)}
+          existing={labResults}
+          onConfirm={handleLabConfirm}
+          onCancel={() => setLabReview(null)}
+        />
+      )}
       {/* Sidebar */}
       <Sidebar 
         currentView={currentView} 
         setCurrentView={setCurrentView} 
         isMobileOpen={isMobileOpen}
         setIsMobileOpen={setIsMobileOpen}
+        profile={profile}
+        patientId={patientId}
+        onSignOut={authUser ? handleSignOut : undefined}
+        profileSwitcher={authUser && (
+          <ProfileSwitcher
+            patients={accessiblePatients}
+            activeId={patientId}
+            currentUid={authUser.uid}
+            onSelect={handleSelectPatient}
+            onAddDependent={handleAddDependent}
+            onGrantAccess={handleGrantAccess}
+            onRevokeAccess={handleRevokeAccess}
+          />
+        )}
       />
 
       {/* Main Content */}
@@ -549,15 +1080,15 @@ function App() {
                  <Bell className="w-5 h-5" />
                  <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full"></span>
               </button>
-              <div className="h-8 w-8 rounded-full bg-brand-600 text-white flex items-center justify-center font-bold">
-                 JD
-              </div>
+              <Avatar name={profile.name} />
            </div>
         </header>
 
         {/* Content Scroll Area */}
         <main className="flex-1 overflow-y-auto p-4 md:p-8 no-scrollbar">
            <div className="max-w-6xl mx-auto">
+              <TriageBanner alerts={triageAlerts} />
+              <SyncIssues failed={failedWrites} patientId={patientId} onRetry={handleRetryWrite} onDiscard={handleDiscardWrite} />
               {renderContent()}
            </div>
         </main>
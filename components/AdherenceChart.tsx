@@ -0,0 +1,39 @@
+import React from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip } from 'recharts';
+import { Medication, DoseEvent } from '../types';
+import { calculateAdherence, getDailyAdherence } from '../services/adherenceService';
+
+interface AdherenceChartProps {
+  medications: Medication[];
+  doseEvents: DoseEvent[];
+  windowDays?: number;
+}
+
+export const AdherenceChart: React.FC<AdherenceChartProps> = ({ medications, doseEvents, windowDays = 7 }) => {
+  const summary = calculateAdherence(medications, doseEvents, windowDays);
+  const daily = getDailyAdherence(medications, doseEvents, windowDays);
+  const overall = summary.overallPercent;
+
+  let color = '#22c55e'; // Green
+  if (overall !== null && overall < 80) color = '#eab308'; // Yellow
+  if (overall !== null && overall < 50) color = '#ef4444'; // Red
+
+  return (
+    <div>
+      <div className="flex items-baseline gap-2 mb-2">
+        <span className="text-3xl font-bold text-gray-800">{overall === null ? '--' : `${overall}%`}</span>
+        <span className="text-xs text-gray-500 uppercase">Last {windowDays} days</span>
+      </div>
+      <div className="h-36">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={daily}>
+            <XAxis dataKey="day" tick={{ fontSize: 10 }} interval={0} />
+            <YAxis hide domain={[0, 100]} />
+            <RechartsTooltip formatter={(value) => (value === null ? 'No doses due' : `${value}%`)} />
+            <Bar dataKey="percent" fill={color} radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
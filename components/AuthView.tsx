@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Activity, Loader2, LogIn, UserPlus } from 'lucide-react';
+
+interface AuthViewProps {
+  onSignIn: (email: string, password: string) => Promise<unknown>;
+  onRegister: (name: string, email: string, password: string) => Promise<unknown>;
+}
+
+// Firebase Auth error codes mapped to patient-friendly messages
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-credential': 'Incorrect email or password.',
+  'auth/invalid-email': 'Please enter a valid email address.',
+  'auth/user-not-found': 'No account exists for this email.',
+  'auth/wrong-password': 'Incorrect email or password.',
+  'auth/email-already-in-use': 'An account already exists for this email.',
+  'auth/weak-password': 'Password must be at least 6 characters.',
+  'auth/too-many-requests': 'Too many attempts. Please try again later.',
+  'auth/network-request-failed': 'Network error. Check your connection and try again.',
+};
+
+const describeAuthError = (error: unknown) => {
+  const code = (error as { code?: string })?.code;
+  return (code && AUTH_ERROR_MESSAGES[code]) || 'Something went wrong. Please try again.';
+};
+
+export const AuthView: React.FC<AuthViewProps> = ({ onSignIn, onRegister }) => {
+  const [mode, setMode] = useState<'signIn' | 'register'>('signIn');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const email = (formData.get('email') as string).trim();
+    const password = formData.get('password') as string;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'register') {
+        await onRegister((formData.get('name') as string).trim(), email, password);
+      } else {
+        await onSignIn(email, password);
+      }
+    } catch (err) {
+      console.error("Authentication failed", err);
+      setError(describeAuthError(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4 font-sans">
+      <div className="w-full max-w-md bg-white p-8 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex items-center justify-center gap-2 text-brand-700 mb-6">
+          <Activity className="h-8 w-8" />
+          <span className="text-xl font-bold tracking-tight">MediQuest AI</span>
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 text-center">
+          {mode === 'signIn' ? 'Welcome back' : 'Create your account'}
+        </h1>
+        <p className="text-gray-500 text-center mt-1 mb-6">
+          {mode === 'signIn' ? 'Sign in to access your health records.' : 'Start tracking your health in one place.'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+              <input name="name" type="text" required autoComplete="name" className="w-full p-2 border border-gray-300 rounded-md" />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input name="email" type="email" required autoComplete="email" className="w-full p-2 border border-gray-300 rounded-md" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              name="password"
+              type="password"
+              required
+              minLength={6}
+              autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">{error}</p>
+          )}
+
+          <button type="submit" disabled={isSubmitting} className="w-full bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 disabled:opacity-50 flex items-center justify-center gap-2">
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'signIn' ? <LogIn className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+            {mode === 'signIn' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <p className="text-sm text-gray-500 text-center mt-6">
+          {mode === 'signIn' ? "Don't have an account?" : 'Already registered?'}{' '}
+          <button
+            onClick={() => { setMode(mode === 'signIn' ? 'register' : 'signIn'); setError(null); }}
+            className="text-brand-600 font-medium hover:text-brand-800"
+          >
+            {mode === 'signIn' ? 'Create one' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface AvatarProps {
+  name: string;
+  className?: string;
+}
+
+export const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?';
+
+export const Avatar: React.FC<AvatarProps> = ({ name, className = 'h-8 w-8 bg-brand-600 text-white' }) => (
+  <div className={`rounded-full flex items-center justify-center font-bold shrink-0 ${className}`} title={name}>
+    {getInitials(name)}
+  </div>
+);
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Send, Bot, User, AlertTriangle, Loader2, BookOpen } from 'lucide-react';
+import { ChatMessage, ChatCitation } from '../types';
+import { getAIProvider } from '../services/aiProvider';
+import { ChatGrounding, buildChatSources, splitCitations, collectCitations, sortMessages } from '../services/chatService';
+
+interface ChatViewProps {
+  messages: ChatMessage[];
+  grounding: ChatGrounding;
+  patientId: string;
+  /** `forPatient` is the profile the message was asked for, so a late answer can be dropped */
+  onSaveMessage: (message: ChatMessage, forPatient: string) => void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+// Earlier turns give the model context; older ones only cost tokens
+const HISTORY_TURNS = 20;
+
+const SUGGESTIONS = [
+  'What medications am I taking?',
+  'How have my symptoms been lately?',
+  'What did my latest report show?',
+];
+
+const MessageContent: React.FC<{ content: string; citations: ChatCitation[] }> = ({ content, citations }) => (
+  <p className="whitespace-pre-wrap leading-relaxed">
+    {splitCitations(content, citations).map((segment, i) => 'text' in segment ? (
+      <React.Fragment key={i}>{segment.text}</React.Fragment>
+    ) : (
+      <sup key={i} title={segment.citation.label} className="mx-0.5 px-1 rounded bg-brand-100 text-brand-700 text-[10px] font-semibold cursor-help">
+        {segment.index}
+      </sup>
+    ))}
+  </p>
+);
+
+const Sources: React.FC<{ citations: ChatCitation[] }> = ({ citations }) => (
+  <div className="mt-3 pt-3 border-t border-gray-100 flex flex-wrap gap-2">
+    {citations.map((c, i) => (
+      <span key={c.key} className="inline-flex items-center gap-1 text-xs bg-gray-50 border border-gray-200 text-gray-600 rounded-full px-2 py-0.5">
+        <BookOpen className="w-3 h-3" /> {i + 1}. {c.label}
+      </span>
+    ))}
+  </div>
+);
+
+export const ChatView: React.FC<ChatViewProps> = ({ messages, grounding, patientId, onSaveMessage, hasMore, onLoadMore }) => {
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const sources = useMemo(() => buildChatSources(grounding), [grounding]);
+  const ordered = useMemo(() => sortMessages(messages), [messages]);
+  // Citations for the partial answer resolve as soon as their keys arrive
+  const streamingCitations = useMemo(
+    () => (streamingText ? collectCitations(streamingText, sources) : []),
+    [streamingText, sources]
+  );
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [ordered.length, streamingText]);
+
+  const ask = async (question: string) => {
+    const text = question.trim();
+    if (!text || streamingText !== null) return;
+    setInput('');
+    const forPatient = patientId;
+
+    const userMessage: ChatMessage = { id: Date.now().toString(), role: 'user', content: text, createdAt: new Date().toISOString() };
+    onSaveMessage(userMessage, forPatient);
+
+    const conversation = [...ordered.filter(m => !m.error), userMessage].slice(-HISTORY_TURNS);
+    let answer = '';
+    setStreamingText('');
+    try {
+      for await (const chunk of getAIProvider().streamChat({ sources, messages: conversation })) {
+        answer += chunk;
+        setStreamingText(answer);
+      }
+      onSaveMessage({
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: answer.trim() || 'Sorry, I could not come up with an answer. Please try rephrasing the question.',
+        createdAt: new Date().toISOString(),
+        citations: collectCitations(answer, sources),
+      }, forPatient);
+    } catch (error) {
+      console.error('Health assistant error:', error);
+      onSaveMessage({
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: answer.trim()
+          ? `${answer.trim()}\n\n(The answer was cut off. Please try again.)`
+          : 'The assistant is unavailable right now. Please try again later.',
+        createdAt: new Date().toISOString(),
+        citations: collectCitations(answer, sources),
+        error: true,
+      }, forPatient);
+    } finally {
+      setStreamingText(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(input);
+  };
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-10rem)] space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Health Assistant</h2>
+        <p className="text-sm text-gray-500">Answers are based on your record. Numbers link each statement to the entry it comes from.</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+        {hasMore && onLoadMore && (
+          <button onClick={onLoadMore} className="w-full py-2 text-sm font-medium text-brand-600 hover:bg-brand-50 rounded-lg">
+            Load older messages
+          </button>
+        )}
+
+        {ordered.length === 0 && streamingText === null && (
+          <div className="text-center py-10">
+            <Bot className="w-10 h-10 text-brand-400 mx-auto mb-3" />
+            <p className="text-gray-600 mb-4">Ask anything about your medications, symptoms, history or reports.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTIONS.map(s => (
+                <button key={s} onClick={() => ask(s)} className="text-sm px-3 py-1.5 rounded-full border border-brand-200 text-brand-700 hover:bg-brand-50">
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {ordered.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end gap-2">
+            <div className="max-w-[75%] bg-brand-600 text-white rounded-2xl rounded-tr-sm px-4 py-2 whitespace-pre-wrap">{message.content}</div>
+            <User className="w-6 h-6 text-gray-400 flex-shrink-0 mt-1" />
+          </div>
+        ) : (
+          <div key={message.id} className="flex gap-2">
+            {message.error
+              ? <AlertTriangle className="w-6 h-6 text-amber-500 flex-shrink-0 mt-1" />
+              : <Bot className="w-6 h-6 text-brand-500 flex-shrink-0 mt-1" />}
+            <div className={`max-w-[75%] rounded-2xl rounded-tl-sm px-4 py-2 text-gray-800 ${message.error ? 'bg-amber-50 border border-amber-200' : 'bg-gray-100'}`}>
+              <MessageContent content={message.content} citations={message.citations ?? []} />
+              {message.citations && message.citations.length > 0 && <Sources citations={message.citations} />}
+            </div>
+          </div>
+        ))}
+
+        {streamingText !== null && (
+          <div className="flex gap-2">
+            <Bot className="w-6 h-6 text-brand-500 flex-shrink-0 mt-1" />
+            <div className="max-w-[75%] rounded-2xl rounded-tl-sm px-4 py-2 bg-gray-100 text-gray-800">
+              {streamingText
+                ? <MessageContent content={streamingText} citations={streamingCitations} />
+                : <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+              {streamingCitations.length > 0 && <Sources citations={streamingCitations} />}
+            </div>
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="Ask about your health record..."
+          className="flex-1 border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || streamingText !== null}
+          className="bg-brand-600 text-white px-4 py-2 rounded-lg hover:bg-brand-700 disabled:opacity-50 flex items-center gap-2"
+        >
+          <Send className="w-4 h-4" /> Send
+        </button>
+      </form>
+      <p className="text-xs text-gray-400 text-center">The assistant can make mistakes and is not a substitute for professional medical advice.</p>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Layers, Loader2, ShieldCheck } from 'lucide-react';
+import { DicomInfo, DicomWindow, MedicalFinding } from '../types';
+import { DicomImage, FramePixels, autoWindow, defaultWindow, openDicom, presetsFor, readDicomFrame, renderDicomFrame } from '../services/dicomService';
+import { ImageAnnotator } from './ImageAnnotator';
+
+interface DicomViewerProps {
+  url?: string; // Download or data URL of the original DICOM file
+  info: DicomInfo;
+  findings: MedicalFinding[];
+  frame: number; // 1-based; controlled so findings elsewhere can jump to their frame
+  onFrameChange: (frame: number) => void;
+}
+
+// 'default' is the file's own window, 'auto' spans the frame's full range; anything else is a preset id
+type WindowChoice = string;
+
+const loadDicom = async (url: string): Promise<DicomImage> => {
+  if (url.startsWith('data:')) return openDicom({ data: url.split(',')[1] });
+  const response = await fetch(url);
+  return openDicom({ bytes: new Uint8Array(await response.arrayBuffer()) });
+};
+
+const resolveWindow = (choice: WindowChoice, modality: string, image: DicomImage, decoded: FramePixels): DicomWindow => {
+  if (choice === 'auto' && decoded.kind === 'grey') return autoWindow(decoded.values);
+  return presetsFor(modality).find(p => p.id === choice) ?? defaultWindow(image, decoded);
+};
+
+/**
+ * Viewer for DICOM reports: frames are decoded from the original file and
+ * shown with a selectable display window; each frame shows only its findings.
+ */
+export const DicomViewer: React.FC<DicomViewerProps> = ({ url, info, findings, frame, onFrameChange }) => {
+  const [image, setImage] = useState<DicomImage | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pixels, setPixels] = useState<{ frame: number; pixels: FramePixels } | null>(null);
+  const [windowChoice, setWindowChoice] = useState<WindowChoice>('default');
+  const [frameImage, setFrameImage] = useState<{ frame: number; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    setLoadError(null);
+    loadDicom(url)
+      .then(doc => { if (!cancelled) setImage(doc); })
+      .catch(e => {
+        console.error("Failed to open DICOM file", e);
+        if (!cancelled) setLoadError(e instanceof Error ? e.message : "The DICOM file could not be loaded for viewing.");
+      });
+    return () => {
+      cancelled = true;
+      setImage(null);
+      setPixels(null);
+      setFrameImage(null);
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!image) return;
+    let cancelled = false;
+    readDicomFrame(image, frame)
+      .then(decoded => { if (!cancelled) setPixels({ frame, pixels: decoded }); })
+      .catch(e => {
+        console.error("Failed to decode frame", e);
+        if (!cancelled) setLoadError(e instanceof Error ? e.message : "This frame could not be decoded.");
+      });
+    return () => { cancelled = true; };
+  }, [image, frame]);
+
+  const presets = presetsFor(info.modality);
+
+  useEffect(() => {
+    if (!image || !pixels) return;
+    try {
+      const displayWindow = resolveWindow(windowChoice, info.modality, image, pixels.pixels);
+      setFrameImage({ frame: pixels.frame, url: renderDicomFrame(pixels.pixels, displayWindow) });
+    } catch (e) {
+      console.error("Failed to render frame", e);
+    }
+  }, [image, pixels, windowChoice, info.modality]);
+
+  const frameFindings = findings.filter(f => (f.frame ?? 1) === frame);
+  const findingCount = (n: number) => findings.filter(f => (f.frame ?? 1) === n).length;
+  const isGrey = pixels?.pixels.kind !== 'rgb';
+  const activeWindow = image && pixels && isGrey ? resolveWindow(windowChoice, info.modality, image, pixels.pixels) : null;
+
+  const details: [string, string | undefined][] = [
+    ['Modality', info.modality],
+    ['Body part', info.bodyPart],
+    ['Study', info.studyDescription],
+    ['Series', info.seriesDescription],
+    ['Sex / age', [info.patientSex, info.patientAge].filter(Boolean).join(' / ') || undefined],
+    ['Size', `${info.columns}×${info.rows} px`],
+    ['Pixel spacing', info.pixelSpacing && `${info.pixelSpacing[0].toFixed(2)}×${info.pixelSpacing[1].toFixed(2)} mm`],
+    ['Scanner', info.manufacturer],
+  ];
+
+  return (
+    <div className="bg-gray-900 rounded-3xl p-1 shadow-2xl overflow-hidden border border-gray-800">
+      <div className="bg-gray-800/50 px-6 py-4 flex flex-wrap items-center justify-between gap-4 border-b border-gray-700/50">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-brand-500/10 rounded-lg text-brand-400">
+            <Layers className="w-5 h-5" />
+          </div>
+          <div>
+            <h5 className="text-white font-bold">
+              {info.modality}{info.frameCount > 1 && ` · Frame ${frame} of ${info.frameCount}`}
+            </h5>
+            <p className="text-gray-400 text-xs">
+              {info.analyzedFrames.includes(frame)
+                ? `${frameFindings.length} finding${frameFindings.length === 1 ? '' : 's'} on this frame`
+                : 'This frame was not analyzed'}
+              {activeWindow && ` · W ${Math.round(activeWindow.width)} / L ${Math.round(activeWindow.center)}`}
+            </p>
+          </div>
+        </div>
+
+        {isGrey && (
+          <div className="flex flex-wrap bg-gray-800/50 p-1 rounded-lg border border-gray-700/50">
+            {[{ id: 'default', label: 'Default' }, ...presets, { id: 'auto', label: 'Full range' }].map(option => (
+              <button
+                key={option.id}
+                onClick={() => setWindowChoice(option.id)}
+                className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-all ${windowChoice === option.id ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {info.frameCount > 1 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onFrameChange(frame - 1)}
+              disabled={frame <= 1}
+              className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg disabled:opacity-30"
+              title="Previous frame"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onFrameChange(frame + 1)}
+              disabled={frame >= info.frameCount}
+              className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg disabled:opacity-30"
+              title="Next frame"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {info.frameCount > 1 && (
+        <div className="px-6 py-3 border-b border-gray-700/50 space-y-2">
+          <input
+            type="range"
+            min={1}
+            max={info.frameCount}
+            value={frame}
+            onChange={e => onFrameChange(Number(e.target.value))}
+            className="w-full accent-brand-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {info.analyzedFrames.map(n => (
+              <button
+                key={n}
+                onClick={() => onFrameChange(n)}
+                className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${n === frame ? 'bg-brand-500 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+              >
+                Frame {n}{findingCount(n) > 0 && ` · ${findingCount(n)}`}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="min-h-[500px] flex items-center justify-center bg-black/40 p-4">
+        {loadError || !url ? (
+          <p className="text-gray-400 text-sm">{loadError ?? 'The DICOM file could not be loaded for viewing.'}</p>
+        ) : frameImage && frameImage.frame === frame ? (
+          <ImageAnnotator imageUrl={frameImage.url} findings={frameFindings} pixelSpacing={info.pixelSpacing} />
+        ) : (
+          <div className="text-gray-500 flex flex-col items-center">
+            <Loader2 className="w-8 h-8 animate-spin mb-2" />
+            Decoding frame...
+          </div>
+        )}
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-700/50 space-y-3">
+        <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-xs">
+          {details.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-gray-500 font-semibold">{label}</dt>
+              <dd className="text-gray-200">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {info.removedFields.length > 0 && (
+          <p className="flex items-start gap-2 text-xs text-emerald-400">
+            <ShieldCheck className="w-4 h-4 shrink-0" />
+            Blanked in the file kept in your account and never sent for analysis: {info.removedFields.join(', ')}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
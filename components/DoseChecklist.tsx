@@ -0,0 +1,93 @@
+import React from 'react';
+import { Check, X, Clock, Pill, Plus } from 'lucide-react';
+import { Medication, DoseEvent, DoseStatus } from '../types';
+import { getScheduledDoses, getSchedule, findDoseEvent, createDoseEvent } from '../services/adherenceService';
+
+interface DoseChecklistProps {
+  medications: Medication[];
+  doseEvents: DoseEvent[];
+  onRecord: (event: DoseEvent) => void;
+}
+
+const statusStyles: Record<DoseStatus, string> = {
+  taken: 'bg-green-50 text-green-700 border-green-200',
+  late: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  skipped: 'bg-gray-100 text-gray-500 border-gray-200',
+};
+
+export const DoseChecklist: React.FC<DoseChecklistProps> = ({ medications, doseEvents, onRecord }) => {
+  const now = new Date();
+  const doses = getScheduledDoses(medications, now);
+  const prnMeds = medications.filter(m => m.active && getSchedule(m).prn);
+
+  const prnTakenToday = (medicationId: string) =>
+    doseEvents.filter(e => e.medicationId === medicationId && new Date(e.scheduledFor).toDateString() === now.toDateString()).length;
+
+  return (
+    <div className="space-y-2">
+      {doses.map(({ medication, scheduledFor }) => {
+        const event = findDoseEvent(doseEvents, medication.id, scheduledFor);
+        const isOverdue = !event && scheduledFor < now;
+        return (
+          <div key={`${medication.id}-${scheduledFor.getTime()}`} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <div className="flex items-center gap-3">
+              <span className={`text-xs font-mono font-medium ${isOverdue ? 'text-red-600' : 'text-gray-500'}`}>
+                {scheduledFor.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <div>
+                <p className="font-medium text-gray-900 text-sm">{medication.name}</p>
+                <p className="text-xs text-gray-500">{medication.dosage}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {event && (
+                <span className={`text-xs font-medium px-2 py-1 rounded border capitalize ${statusStyles[event.status]}`}>
+                  {event.status}
+                </span>
+              )}
+              {isOverdue && (
+                <span className="flex items-center gap-1 text-xs text-red-600"><Clock className="w-3.5 h-3.5" /> Due</span>
+              )}
+              <button
+                onClick={() => onRecord(createDoseEvent(medication.id, scheduledFor, 'taken'))}
+                title="Mark as taken"
+                className="p-1.5 rounded-md text-green-600 hover:bg-green-50"
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onRecord(createDoseEvent(medication.id, scheduledFor, 'skipped'))}
+                title="Mark as skipped"
+                className="p-1.5 rounded-md text-gray-400 hover:bg-gray-100"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {prnMeds.map(medication => (
+        <div key={medication.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center gap-3">
+            <Pill className="w-4 h-4 text-blue-500" />
+            <div>
+              <p className="font-medium text-gray-900 text-sm">{medication.name} <span className="text-xs text-gray-400">(as needed)</span></p>
+              <p className="text-xs text-gray-500">{medication.dosage} • Taken {prnTakenToday(medication.id)}× today</p>
+            </div>
+          </div>
+          <button
+            onClick={() => onRecord(createDoseEvent(medication.id, new Date(), 'taken'))}
+            className="flex items-center gap-1 text-xs font-medium text-brand-600 hover:bg-brand-50 px-2 py-1 rounded-md"
+          >
+            <Plus className="w-3.5 h-3.5" /> Log dose
+          </button>
+        </div>
+      ))}
+
+      {doses.length === 0 && prnMeds.length === 0 && (
+        <p className="text-gray-400 text-sm">No doses scheduled today.</p>
+      )}
+    </div>
+  );
+};
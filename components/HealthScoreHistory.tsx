@@ -0,0 +1,88 @@
+import React from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip } from 'recharts';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { HealthScoreRecord } from '../types';
+import { compareScores } from '../services/healthScoreService';
+
+interface ScoreTrendChartProps {
+  records: HealthScoreRecord[]; // Oldest first
+}
+
+export const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ records }) => {
+  if (records.length === 0) {
+    return <p className="text-sm text-gray-400 py-10 text-center">Scores are saved each time insights are refreshed.</p>;
+  }
+
+  const data = records.map(r => ({
+    date: new Date(r.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    score: r.healthScore,
+  }));
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+          <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} width={30} />
+          <RechartsTooltip formatter={(value) => [`${value}/100`, 'Score']} />
+          <Line type="monotone" dataKey="score" stroke="#0d9488" strokeWidth={2} dot={{ r: 3 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : `${points}`);
+
+interface ScoreBreakdownProps {
+  record: HealthScoreRecord;
+  previous?: HealthScoreRecord;
+}
+
+export const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ record, previous }) => {
+  const changes = previous ? compareScores(record, previous) : [];
+  const moved = previous ? record.healthScore - previous.healthScore : 0;
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        <li className="flex justify-between text-sm text-gray-500">
+          <span>Starting point</span>
+          <span className="font-mono">100</span>
+        </li>
+        {record.breakdown.map(f => (
+          <li key={f.id} className="text-sm">
+            <div className="flex justify-between">
+              <span className="font-medium text-gray-800">{f.label}</span>
+              <span className={`font-mono ${f.points < 0 ? 'text-red-600' : f.points > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                {formatPoints(f.points)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">{f.detail}</p>
+          </li>
+        ))}
+        <li className="flex justify-between text-sm font-bold text-gray-900 border-t border-gray-100 pt-2">
+          <span>Score</span>
+          <span className="font-mono">{record.healthScore}</span>
+        </li>
+      </ul>
+
+      {previous && (
+        <div className="bg-gray-50 rounded-lg p-3 text-sm">
+          <p className="font-medium text-gray-800 flex items-center gap-2">
+            {moved >= 0 ? <TrendingUp className="w-4 h-4 text-green-600" /> : <TrendingDown className="w-4 h-4 text-red-600" />}
+            {moved === 0 ? 'Unchanged' : `${formatPoints(moved)} points`} since {new Date(previous.createdAt).toLocaleDateString()}
+          </p>
+          {changes.length > 0 ? (
+            <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+              {changes.map(c => <li key={c.id}>{c.label}: {formatPoints(c.change)}</li>)}
+            </ul>
+          ) : (
+            <p className="mt-1 text-xs text-gray-600">No factor changed.</p>
+          )}
+        </div>
+      )}
+      <p className="text-[11px] text-gray-400">Scored by {record.provider} on {new Date(record.createdAt).toLocaleString()}.</p>
+    </div>
+  );
+};
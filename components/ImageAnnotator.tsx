@@ -1,17 +1,264 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { MedicalFinding } from '../types';
-import { AlertCircle, Info, ScanLine, Flame, Layers, MousePointer2 } from 'lucide-react';
+import { AlertCircle, Info, ScanLine, Flame, Layers, MousePointer2, Hand, Ruler, DraftingCompass, Circle, ZoomIn, ZoomOut, Maximize2, X } from 'lucide-react';
+import { ImagePoint, Measurement, MeasurementKind, POINTS_NEEDED, describeMeasurement } from '../services/measurementService';
 
 interface ImageAnnotatorProps {
   imageUrl: string;
   findings: MedicalFinding[];
+  pixelSpacing?: number[]; // mm per image pixel, rows then columns; measurements are in pixels without it
 }
 
 type ViewMode = 'box' | 'heatmap' | 'combined';
 
-export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageUrl, findings }) => {
+type Tool = 'pan' | MeasurementKind;
+
+// Zoom and pan of the image inside its frame; x and y are the offset in screen px at this zoom
+interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// A pan or pinch in progress, in screen coordinates
+type Gesture =
+  | { kind: 'pan'; startX: number; startY: number; view: ViewTransform }
+  | { kind: 'pinch'; distance: number; zoom: number }
+  | { kind: 'draw' };
+
+const MAX_ZOOM = 16;
+const IDENTITY: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+const TOOLS: { id: Tool; label: string; icon: React.ReactNode }[] = [
+  { id: 'pan', label: 'Pan', icon: <Hand className="w-3.5 h-3.5" /> },
+  { id: 'ruler', label: 'Ruler', icon: <Ruler className="w-3.5 h-3.5" /> },
+  { id: 'angle', label: 'Angle', icon: <DraftingCompass className="w-3.5 h-3.5" /> },
+  { id: 'ellipse', label: 'Ellipse', icon: <Circle className="w-3.5 h-3.5" /> },
+];
+
+const distanceBetween = (points: { x: number; y: number }[]) => Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+
+export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageUrl, findings, pixelSpacing }) => {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('combined');
+  const [tool, setTool] = useState<Tool>('pan');
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [displayWidth, setDisplayWidth] = useState(0);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  // Measurement being drawn; its last point follows the pointer
+  const [draft, setDraft] = useState<Omit<Measurement, 'id'> | null>(null);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<Gesture | null>(null);
+
+  // Keeps the zoomed image covering the frame, so it can't be dragged out of view.
+  // Reads the frame size from its ref, so it never changes.
+  const clampView = useCallback(({ zoom, x, y }: ViewTransform): ViewTransform => {
+    const width = viewportRef.current?.clientWidth ?? 0;
+    const height = viewportRef.current?.clientHeight ?? 0;
+    const z = Math.min(MAX_ZOOM, Math.max(1, zoom));
+    return {
+      zoom: z,
+      x: Math.min(0, Math.max(width - width * z, x)),
+      y: Math.min(0, Math.max(height - height * z, y)),
+    };
+  }, []);
+
+  // Zooms keeping the point (px, py) of the frame still; `zoomFor` gets the current zoom
+  const zoomAt = useCallback((zoomFor: (zoom: number) => number, px: number, py: number) => {
+    setView(v => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(1, zoomFor(v.zoom)));
+      const k = zoom / v.zoom;
+      return clampView({ zoom, x: px - (px - v.x) * k, y: py - (py - v.y) * k });
+    });
+  }, [clampView]);
+
+  const zoomAtCenter = (factor: number) => {
+    const el = viewportRef.current;
+    if (el) zoomAt(zoom => zoom * factor, el.clientWidth / 2, el.clientHeight / 2);
+  };
+
+  // React's wheel listener is passive, so it can't stop the page from scrolling
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomAt(zoom => zoom * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  useEffect(() => {
+    const img = imgRef.current;
+    if (!img) return;
+    const observer = new ResizeObserver(() => {
+      setDisplayWidth(img.clientWidth);
+      setView(v => clampView(v));
+    });
+    observer.observe(img);
+    return () => observer.disconnect();
+  }, [clampView]);
+
+  // A different image (not just a re-rendered one of the same size) starts with a fresh view
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    if (natural && natural.width === width && natural.height === height) return;
+    setNatural({ width, height });
+    setView(IDENTITY);
+    setMeasurements([]);
+    setDraft(null);
+  };
+
+  // Screen position to image pixels; the image's bounding box already includes the zoom and pan
+  const toImagePoint = (clientX: number, clientY: number): ImagePoint | null => {
+    const img = imgRef.current;
+    if (!img || !natural) return null;
+    const rect = img.getBoundingClientRect();
+    return {
+      x: Math.min(natural.width, Math.max(0, ((clientX - rect.left) / rect.width) * natural.width)),
+      y: Math.min(natural.height, Math.max(0, ((clientY - rect.top) / rect.height) * natural.height)),
+    };
+  };
+
+  const commitMeasurement = (kind: MeasurementKind, points: ImagePoint[]) => {
+    setMeasurements(prev => [...prev, { id: `${Date.now()}`, kind, points }]);
+    setDraft(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2) {
+      // A second finger turns whatever was happening into a pinch
+      gesture.current = { kind: 'pinch', distance: distanceBetween([...pointers.current.values()]), zoom: view.zoom };
+      if (draft && draft.kind !== 'angle') setDraft(null);
+      return;
+    }
+    if (pointers.current.size > 2) return;
+
+    if (tool === 'pan') {
+      gesture.current = { kind: 'pan', startX: e.clientX, startY: e.clientY, view };
+      return;
+    }
+
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (!point) return;
+    if (tool === 'angle') {
+      // Clicked point by point: first arm, vertex, second arm
+      const fixed = [...(draft?.kind === 'angle' ? draft.points.slice(0, -1) : []), point];
+      if (fixed.length === POINTS_NEEDED.angle) commitMeasurement('angle', fixed);
+      else setDraft({ kind: 'angle', points: [...fixed, point] });
+    } else {
+      // Rulers and ellipses are dragged out
+      gesture.current = { kind: 'draw' };
+      setDraft({ kind: tool, points: [point, point] });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointers.current.has(e.pointerId)) pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const current = gesture.current;
+
+    if (current?.kind === 'pinch' && pointers.current.size === 2) {
+      const points = [...pointers.current.values()];
+      const rect = e.currentTarget.getBoundingClientRect();
+      const target = current.zoom * (distanceBetween(points) / current.distance);
+      zoomAt(() => target, (points[0].x + points[1].x) / 2 - rect.left, (points[0].y + points[1].y) / 2 - rect.top);
+    } else if (current?.kind === 'pan') {
+      setView(clampView({ ...current.view, x: current.view.x + e.clientX - current.startX, y: current.view.y + e.clientY - current.startY }));
+    } else if (draft && (current?.kind === 'draw' || draft.kind === 'angle')) {
+      const point = toImagePoint(e.clientX, e.clientY);
+      if (point) setDraft({ ...draft, points: [...draft.points.slice(0, -1), point] });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (gesture.current?.kind === 'draw' && draft) {
+      // A click without a drag leaves nothing behind
+      const [start, end] = draft.points;
+      const screenLength = distanceBetween([start, end]) * (displayWidth * view.zoom) / (natural?.width || 1);
+      if (screenLength >= 4) commitMeasurement(draft.kind, draft.points);
+      else setDraft(null);
+    }
+    gesture.current = null;
+  };
+
+  const selectTool = (next: Tool) => {
+    setTool(next);
+    setDraft(null);
+  };
+
+  // Image pixels per screen pixel, so labels and strokes keep their size at any zoom
+  const unit = natural && displayWidth ? natural.width / (displayWidth * view.zoom) : 1;
+  const inverseZoom = 1 / view.zoom;
+
+  // Recentres the zoomed view on the point clicked in the minimap
+  const handleMinimapPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const el = viewportRef.current;
+    if (!el) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const fy = (e.clientY - rect.top) / rect.height;
+    setView(v => clampView({
+      ...v,
+      x: el.clientWidth / 2 - fx * el.clientWidth * v.zoom,
+      y: el.clientHeight / 2 - fy * el.clientHeight * v.zoom,
+    }));
+  };
+
+  // Drawn in image pixels inside the stage, so it moves with the image
+  const renderMeasurement = (m: Omit<Measurement, 'id'>, key: string, label?: string) => {
+    const stroke = { stroke: '#38bdf8', strokeWidth: 2 * unit, fill: 'none' };
+    const labelAt = (anchor: ImagePoint) => label && (
+      <text
+        x={anchor.x + 8 * unit}
+        y={anchor.y - 8 * unit}
+        fontSize={13 * unit}
+        fontWeight={700}
+        fill="#fff"
+        stroke="#0f172a"
+        strokeWidth={3 * unit}
+        paintOrder="stroke"
+      >
+        {label}
+      </text>
+    );
+    const [a, b, c] = m.points;
+    if (m.kind === 'ruler') {
+      return (
+        <g key={key}>
+          <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} {...stroke} />
+          <circle cx={a.x} cy={a.y} r={3 * unit} fill="#38bdf8" />
+          <circle cx={b.x} cy={b.y} r={3 * unit} fill="#38bdf8" />
+          {labelAt(b)}
+        </g>
+      );
+    }
+    if (m.kind === 'angle') {
+      return (
+        <g key={key}>
+          <polyline points={m.points.map(p => `${p.x},${p.y}`).join(' ')} {...stroke} />
+          {m.points.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={3 * unit} fill="#38bdf8" />)}
+          {c && labelAt(b)}
+        </g>
+      );
+    }
+    return (
+      <g key={key}>
+        <ellipse cx={(a.x + b.x) / 2} cy={(a.y + b.y) / 2} rx={Math.abs(b.x - a.x) / 2} ry={Math.abs(b.y - a.y) / 2} {...stroke} />
+        {labelAt({ x: Math.max(a.x, b.x), y: Math.min(a.y, b.y) })}
+      </g>
+    );
+  };
 
   // Filter findings that actually have coordinates. Safely handle undefined/null findings.
   const visualFindings = (findings || []).filter(f => f.box_2d);
@@ -71,24 +318,72 @@ export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageUrl, findin
         </div>
       </div>
 
+      {/* Zoom and Measurement Tools */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex bg-gray-800/50 p-1 rounded-lg border border-gray-700/50">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => selectTool(t.id)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-semibold transition-all ${
+                tool === t.id ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {t.icon}
+              <span>{t.label}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-gray-400 font-semibold uppercase tracking-wider">
+            {pixelSpacing ? 'Calibrated (mm)' : 'Uncalibrated (px)'}
+          </span>
+          <div className="flex bg-gray-800/50 p-1 rounded-lg border border-gray-700/50">
+            <button onClick={() => zoomAtCenter(1 / 1.5)} disabled={view.zoom <= 1} className="p-1.5 rounded-md text-gray-400 hover:text-gray-200 disabled:opacity-30" title="Zoom out">
+              <ZoomOut className="w-3.5 h-3.5" />
+            </button>
+            <span className="px-2 py-1 text-xs font-semibold text-gray-300 tabular-nums">{Math.round(view.zoom * 100)}%</span>
+            <button onClick={() => zoomAtCenter(1.5)} disabled={view.zoom >= MAX_ZOOM} className="p-1.5 rounded-md text-gray-400 hover:text-gray-200 disabled:opacity-30" title="Zoom in">
+              <ZoomIn className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => setView(IDENTITY)} disabled={view.zoom === 1} className="p-1.5 rounded-md text-gray-400 hover:text-gray-200 disabled:opacity-30" title="Reset view">
+              <Maximize2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* 
         Image Container Strategy:
         We need the overlays (absolute) to position themselves relative to the *exact* dimensions of the visible image.
         If we just use `w-full h-auto` on the img, it might stretch.
         Strategy: 
         1. Outer Flex Container: Centers the content.
-        2. Relative Wrapper: `inline-block`. Shrinks to fit the image dimensions exactly.
-        3. Image: `block`. Max constraints applied here.
+        2. Viewport: `inline-block`. Shrinks to fit the image dimensions exactly and clips the zoomed stage.
+        3. Stage: holds the image and every overlay, so one CSS transform zooms and pans them together.
+        4. Image: `block`. Max constraints applied here.
       */}
       <div className="w-full bg-black/40 rounded-xl border border-gray-800 p-4 flex justify-center min-h-[400px]">
         
-        <div className="relative inline-block max-w-full">
+        <div
+          ref={viewportRef}
+          className={`relative inline-block max-w-full overflow-hidden rounded-lg touch-none select-none ${
+            tool === 'pan' ? 'cursor-grab active:cursor-grabbing' : 'cursor-crosshair'
+          }`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div className="relative" style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`, transformOrigin: '0 0' }}>
             {/* Base Image */}
             <img 
+              ref={imgRef}
               src={imageUrl} 
               alt="Medical Scan Analysis" 
-              className="block max-h-[600px] max-w-full h-auto w-auto object-contain rounded-lg"
+              className="block max-h-[600px] max-w-full h-auto w-auto object-contain"
               draggable={false}
+              onLoad={handleImageLoad}
             />
 
             {/* Layers Overlay - Positioned absolutely relative to the image wrapper */}
@@ -124,11 +419,13 @@ export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageUrl, findin
               if (!finding.box_2d) return null;
               const { ymin, xmin, ymax, xmax } = finding.box_2d;
               const isHovered = hoveredIndex === idx;
+              // The frame clips the stage, so a tooltip with no room above the box opens below it
+              const tooltipBelow = ymin * (viewportRef.current?.clientHeight ?? 0) * view.zoom + view.y < 140;
 
               return (
                 <div
                   key={`box-${idx}`}
-                  className={`absolute z-20 cursor-help transition-all duration-200 ${
+                  className={`absolute z-20 ${tool === 'pan' ? 'cursor-help' : ''} transition-all duration-200 ${
                      isHovered ? 'z-30' : ''
                   }`}
                   style={{
@@ -140,29 +437,34 @@ export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageUrl, findin
                   onMouseEnter={() => setHoveredIndex(idx)}
                   onMouseLeave={() => setHoveredIndex(null)}
                 >
-                  {/* The Box Outline */}
-                  <div className={`w-full h-full border-2 rounded-sm shadow-sm transition-colors duration-200 ${
+                  {/* The Box Outline; borders and markers are scaled back so they stay thin when zoomed */}
+                  <div style={{ borderWidth: 2 * inverseZoom }} className={`w-full h-full border-2 rounded-sm shadow-sm transition-colors duration-200 ${
                     isHovered 
                       ? 'border-white bg-white/10 shadow-[0_0_15px_rgba(255,255,255,0.3)]' 
                       : 'border-red-500/80 hover:border-red-400'
                   }`}></div>
 
                   {/* Corner Markers for tech feel */}
-                  <div className={`absolute top-0 left-0 w-2 h-2 border-t-2 border-l-2 -mt-[1px] -ml-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
-                  <div className={`absolute top-0 right-0 w-2 h-2 border-t-2 border-r-2 -mt-[1px] -mr-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
-                  <div className={`absolute bottom-0 left-0 w-2 h-2 border-b-2 border-l-2 -mb-[1px] -ml-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
-                  <div className={`absolute bottom-0 right-0 w-2 h-2 border-b-2 border-r-2 -mb-[1px] -mr-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
+                  <div style={{ transform: `scale(${inverseZoom})`, transformOrigin: 'top left' }} className={`absolute top-0 left-0 w-2 h-2 border-t-2 border-l-2 -mt-[1px] -ml-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
+                  <div style={{ transform: `scale(${inverseZoom})`, transformOrigin: 'top right' }} className={`absolute top-0 right-0 w-2 h-2 border-t-2 border-r-2 -mt-[1px] -mr-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
+                  <div style={{ transform: `scale(${inverseZoom})`, transformOrigin: 'bottom left' }} className={`absolute bottom-0 left-0 w-2 h-2 border-b-2 border-l-2 -mb-[1px] -ml-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
+                  <div style={{ transform: `scale(${inverseZoom})`, transformOrigin: 'bottom right' }} className={`absolute bottom-0 right-0 w-2 h-2 border-b-2 border-r-2 -mb-[1px] -mr-[1px] ${isHovered ? 'border-white' : 'border-red-500'}`}></div>
 
                   {/* Floating Label (Top Right of Box) */}
-                  <div className={`absolute -top-3 -right-3 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold shadow-md transition-transform ${
-                    isHovered ? 'bg-white text-gray-900 scale-110' : 'bg-red-600 text-white'
+                  <div style={{ transform: `scale(${inverseZoom * (isHovered ? 1.1 : 1)})`, transformOrigin: 'bottom left' }} className={`absolute -top-3 -right-3 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold shadow-md transition-transform ${
+                    isHovered ? 'bg-white text-gray-900' : 'bg-red-600 text-white'
                   }`}>
                     {idx + 1}
                   </div>
 
                   {/* Enhanced Tooltip */}
                   {isHovered && (
-                    <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-48 bg-gray-900/95 backdrop-blur-md text-white rounded-lg p-3 shadow-2xl border border-gray-700 animate-in fade-in slide-in-from-bottom-2 duration-200 pointer-events-none">
+                    <div
+                      style={{ transform: `translateX(-50%) scale(${inverseZoom})`, transformOrigin: tooltipBelow ? 'top center' : 'bottom center' }}
+                      className={`absolute left-1/2 w-48 bg-gray-900/95 backdrop-blur-md text-white rounded-lg p-3 shadow-2xl border border-gray-700 animate-in fade-in duration-200 pointer-events-none ${
+                        tooltipBelow ? 'top-full mt-3 slide-in-from-top-2' : 'bottom-full mb-3 slide-in-from-bottom-2'
+                      }`}
+                    >
                       <div className="flex items-center gap-2 mb-1 border-b border-gray-700 pb-2">
                          <span className="w-4 h-4 rounded-full bg-red-500 flex items-center justify-center text-[8px] font-bold">{idx + 1}</span>
                          <span className="font-semibold text-xs text-gray-100">{finding.label}</span>
@@ -172,21 +474,77 @@ export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageUrl, findin
                         <span className="text-brand-400">{finding.confidence}</span>
                       </div>
                       {/* Triangle Pointer */}
-                      <div className="absolute top-full left-1/2 -translate-x-1/2 -mt-px w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] border-t-gray-900/95"></div>
+                      <div className={`absolute left-1/2 -translate-x-1/2 w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent ${
+                        tooltipBelow ? 'bottom-full -mb-px border-b-[6px] border-b-gray-900/95' : 'top-full -mt-px border-t-[6px] border-t-gray-900/95'
+                      }`}></div>
                     </div>
                   )}
                 </div>
               );
             })}
 
-            {/* Empty State Overlay */}
-            {!hasFindings && (
-              <div className="absolute top-4 right-4 bg-black/60 backdrop-blur-md border border-white/10 text-white/80 text-xs px-3 py-1.5 rounded-full flex items-center gap-2">
-                 <Info className="w-3 h-3" /> No specific regions detected
-              </div>
+            {/* Measurements */}
+            {natural && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${natural.width} ${natural.height}`}
+                preserveAspectRatio="none"
+              >
+                {measurements.map(m => renderMeasurement(m, m.id, describeMeasurement(m, pixelSpacing)))}
+                {draft && renderMeasurement(
+                  draft,
+                  'draft',
+                  draft.points.length === POINTS_NEEDED[draft.kind] ? describeMeasurement({ ...draft, id: 'draft' }, pixelSpacing) : undefined
+                )}
+              </svg>
             )}
+          </div>
+
+          {/* Empty State Overlay */}
+          {!hasFindings && (
+            <div className="absolute top-4 right-4 bg-black/60 backdrop-blur-md border border-white/10 text-white/80 text-xs px-3 py-1.5 rounded-full flex items-center gap-2 pointer-events-none">
+               <Info className="w-3 h-3" /> No specific regions detected
+            </div>
+          )}
+
+          {/* Minimap: the whole image with the visible part outlined */}
+          {view.zoom > 1 && (
+            <div
+              className="absolute bottom-3 right-3 w-28 rounded-md overflow-hidden border border-white/20 shadow-lg bg-black cursor-pointer"
+              onPointerDown={handleMinimapPointerDown}
+            >
+              <img src={imageUrl} alt="" className="block w-full h-auto opacity-70" draggable={false} />
+              <div
+                className="absolute border-2 border-brand-400 bg-brand-400/10"
+                style={{
+                  left: `${(-view.x / ((viewportRef.current?.clientWidth || 1) * view.zoom)) * 100}%`,
+                  top: `${(-view.y / ((viewportRef.current?.clientHeight || 1) * view.zoom)) * 100}%`,
+                  width: `${100 / view.zoom}%`,
+                  height: `${100 / view.zoom}%`,
+                }}
+              />
+            </div>
+          )}
         </div>
       </div>
+
+      {/* Measurements list */}
+      {measurements.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {measurements.map((m, i) => (
+            <div key={m.id} className="flex items-center gap-1.5 bg-sky-50 border border-sky-200 text-sky-800 px-2 py-1 rounded text-[11px] font-semibold">
+              <span className="capitalize">{m.kind} {i + 1}:</span>
+              <span>{describeMeasurement(m, pixelSpacing)}</span>
+              <button onClick={() => setMeasurements(prev => prev.filter(x => x.id !== m.id))} className="text-sky-400 hover:text-sky-700" title="Remove measurement">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <button onClick={() => setMeasurements([])} className="text-[11px] font-semibold text-gray-400 hover:text-gray-600">
+            Clear
+          </button>
+        </div>
+      )}
       
       {/* Legend below image */}
       {hasFindings && (
@@ -0,0 +1,55 @@
+import React from 'react';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { InteractionWarning, InteractionSeverity } from '../types';
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  compact?: boolean;
+}
+
+export const severityStyles: Record<InteractionSeverity, string> = {
+  Contraindicated: 'bg-red-100 text-red-800 border-red-200',
+  Major: 'bg-orange-100 text-orange-800 border-orange-200',
+  Moderate: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  Minor: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export const SeverityBadge: React.FC<{ severity: InteractionSeverity }> = ({ severity }) => (
+  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wide border ${severityStyles[severity]}`}>
+    {severity}
+  </span>
+);
+
+export const InteractionWarnings: React.FC<InteractionWarningsProps> = ({ warnings, compact = false }) => {
+  if (warnings.length === 0) return null;
+
+  const shown = compact ? warnings.slice(0, 3) : warnings;
+
+  return (
+    <div className="bg-red-50 p-4 rounded-lg border border-red-100">
+      <p className="text-sm font-bold text-red-800 mb-3 flex items-center gap-2">
+        <ShieldAlert className="w-4 h-4" />
+        {warnings.length} Interaction {warnings.length === 1 ? 'Warning' : 'Warnings'}
+      </p>
+      <ul className="space-y-2">
+        {shown.map(w => (
+          <li key={w.id} className="flex items-start gap-2 text-sm text-red-900">
+            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5 text-red-500" />
+            <div className="flex-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <SeverityBadge severity={w.severity} />
+                <span className="text-xs text-red-700 uppercase font-medium">
+                  {w.kind === 'drug-allergy' ? 'Allergy' : 'Drug interaction'}
+                </span>
+              </div>
+              <p className="mt-1">{w.description}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {compact && warnings.length > shown.length && (
+        <p className="text-xs text-red-700 mt-2">+{warnings.length - shown.length} more on the Medications page</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, ReferenceLine } from 'recharts';
+import { FlaskConical, Trash2, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { LabResult, LabFlag } from '../types';
+import { groupLabResults } from '../services/labService';
+
+interface LabResultsViewProps {
+  results: LabResult[];
+  onDelete: (id: string) => Promise<void> | void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+const flagStyles: Record<LabFlag, string> = {
+  high: 'bg-orange-100 text-orange-800 border-orange-200',
+  low: 'bg-blue-100 text-blue-800 border-blue-200',
+  normal: 'bg-green-100 text-green-800 border-green-200',
+  unknown: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+const flagLabels: Record<LabFlag, string> = {
+  high: 'High',
+  low: 'Low',
+  normal: 'In range',
+  unknown: 'No range',
+};
+
+export const LabFlagBadge: React.FC<{ flag: LabFlag }> = ({ flag }) => (
+  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wide border ${flagStyles[flag]}`}>
+    {flagLabels[flag]}
+  </span>
+);
+
+// Collection dates are plain days; parsing them as UTC would shift them a day west of Greenwich
+const formatDate = (date: string, options?: Intl.DateTimeFormatOptions) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString(undefined, options);
+
+export const LabResultsView: React.FC<LabResultsViewProps> = ({ results, onDelete, hasMore, onLoadMore }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const series = groupLabResults(results);
+  const current = series.find(s => s.analyte === selected) ?? series[0];
+
+  const chartData = current?.results.map(r => ({
+    date: formatDate(r.collectedAt, { month: 'short', day: 'numeric', year: '2-digit' }),
+    value: r.value,
+  })) ?? [];
+  // Reference lines come from the latest result that printed a range
+  const { referenceLow, referenceHigh } = [...(current?.results ?? [])]
+    .reverse()
+    .find(r => r.referenceLow !== undefined || r.referenceHigh !== undefined) ?? {};
+  const previous = current && current.results.length > 1 ? current.results[current.results.length - 2] : null;
+  const change = current && previous ? Math.round((current.results[current.results.length - 1].value - previous.value) * 100) / 100 : null;
+
+  const history = current
+    ? results.filter(r => r.analyte === current.analyte).sort((a, b) => b.collectedAt.localeCompare(a.collectedAt))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Lab Results</h2>
+        <p className="text-sm text-gray-500 mt-1">Values confirmed from your uploaded lab reports. Use "Extract lab values" on a report to add more.</p>
+      </div>
+
+      {series.length === 0 ? (
+        <div className="bg-white p-10 rounded-xl shadow-sm border border-dashed border-gray-300 text-center">
+          <FlaskConical className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">No lab results yet. Upload a lab report and extract its values to start tracking them.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Analytes */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100 self-start">
+            {series.map(s => (
+              <button
+                key={s.analyte}
+                onClick={() => setSelected(s.analyte)}
+                className={`w-full text-left p-4 flex items-center justify-between gap-3 hover:bg-gray-50 ${s.analyte === current?.analyte ? 'bg-brand-50' : ''}`}
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{s.analyte}</p>
+                  <p className="text-xs text-gray-500">{formatDate(s.latest.collectedAt)} · {s.results.length + s.skipped} {s.results.length + s.skipped === 1 ? 'result' : 'results'}</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-bold text-gray-900">{s.latest.value} <span className="text-xs font-normal text-gray-500">{s.latest.unit}</span></p>
+                  <LabFlagBadge flag={s.latest.flag} />
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Trend */}
+          {current && (
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <div className="flex justify-between items-baseline mb-4">
+                  <h3 className="text-lg font-medium text-gray-800">{current.analyte} Trend</h3>
+                  {change !== null && (
+                    <span className="text-xs text-gray-500 flex items-center gap-1">
+                      {change > 0 ? <TrendingUp className="w-4 h-4" /> : change < 0 ? <TrendingDown className="w-4 h-4" /> : <Minus className="w-4 h-4" />}
+                      {change > 0 ? '+' : ''}{change} {current.unit} since {formatDate(previous!.collectedAt)}
+                    </span>
+                  )}
+                </div>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                      <YAxis tick={{ fontSize: 10 }} width={40} domain={['auto', 'auto']} />
+                      <RechartsTooltip formatter={(value) => `${value} ${current.unit}`} />
+                      {referenceLow !== undefined && (
+                        <ReferenceLine y={referenceLow} stroke="#22c55e" strokeDasharray="4 4" label={{ value: 'Reference low', position: 'insideTopLeft', fontSize: 10, fill: '#16a34a' }} />
+                      )}
+                      {referenceHigh !== undefined && (
+                        <ReferenceLine y={referenceHigh} stroke="#22c55e" strokeDasharray="4 4" label={{ value: 'Reference high', position: 'insideTopLeft', fontSize: 10, fill: '#16a34a' }} />
+                      )}
+                      <Line type="monotone" dataKey="value" name={current.analyte} stroke="#0d9488" strokeWidth={2} dot={{ r: 3 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                {current.skipped > 0 && (
+                  <p className="text-xs text-gray-400 mt-2">
+                    {current.skipped} {current.skipped === 1 ? 'result is' : 'results are'} in a unit that cannot be converted to {current.unit} and {current.skipped === 1 ? 'is' : 'are'} not charted.
+                  </p>
+                )}
+              </div>
+
+              {/* History */}
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <table className="w-full text-left">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="p-4 text-xs font-medium text-gray-500 uppercase">Collected</th>
+                      <th className="p-4 text-xs font-medium text-gray-500 uppercase">Test</th>
+                      <th className="p-4 text-xs font-medium text-gray-500 uppercase">Result</th>
+                      <th className="p-4 text-xs font-medium text-gray-500 uppercase">Reference</th>
+                      <th className="p-4"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {history.map(r => (
+                      <tr key={r.id} className="hover:bg-gray-50">
+                        <td className="p-4 text-sm text-gray-600">{formatDate(r.collectedAt)}</td>
+                        <td className="p-4 text-sm text-gray-600">{r.name}</td>
+                        <td className="p-4 font-medium text-gray-900">
+                          {r.value} {r.unit} <span className="ml-2"><LabFlagBadge flag={r.flag} /></span>
+                        </td>
+                        <td className="p-4 text-sm text-gray-500">{r.referenceText}</td>
+                        <td className="p-4 text-right">
+                          <button
+                            onClick={() => confirm('Delete this lab result?') && onDelete(r.id)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {hasMore && onLoadMore && (
+        <button onClick={onLoadMore} className="w-full py-3 text-sm font-medium text-brand-600 bg-white rounded-xl border border-gray-200 hover:bg-brand-50">
+          Load older results
+        </button>
+      )}
+    </div>
+  );
+};
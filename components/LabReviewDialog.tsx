@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { FlaskConical, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { LabExtraction, LabResult, ExtractedLabValue } from '../types';
+import { createLabResult, isDuplicateLab, parseReferenceRange, formatReferenceRange } from '../services/labService';
+import { LabFlagBadge } from './LabResultsView';
+
+interface LabReviewDialogProps {
+  reportId: string;
+  reportName: string;
+  extraction: LabExtraction;
+  defaultDate: string; // YYYY-MM-DD, used when the report shows no collection date
+  existing: LabResult[];
+  onConfirm: (results: LabResult[]) => void;
+  onCancel: () => void;
+}
+
+// Form fields are kept as typed so a half-edited value is not reformatted
+interface DraftRow {
+  key: number;
+  include: boolean;
+  name: string;
+  value: string;
+  unit: string;
+  reference: string;
+  collectedAt: string;
+}
+
+const toValue = (row: DraftRow): ExtractedLabValue | null => {
+  const value = Number(row.value);
+  if (!row.name.trim() || !row.value.trim() || !Number.isFinite(value)) return null;
+  const { low, high } = parseReferenceRange(row.reference);
+  const result: ExtractedLabValue = { name: row.name, value, unit: row.unit };
+  if (low !== undefined) result.referenceLow = low;
+  if (high !== undefined) result.referenceHigh = high;
+  if (row.reference.trim()) result.referenceText = row.reference.trim();
+  return result;
+};
+
+/**
+ * Extracted values are only saved after the patient has checked them against
+ * the report: OCR misreads a decimal point often enough to matter.
+ */
+export const LabReviewDialog: React.FC<LabReviewDialogProps> = ({
+  reportId,
+  reportName,
+  extraction,
+  defaultDate,
+  existing,
+  onConfirm,
+  onCancel
+}) => {
+  const preview = (row: DraftRow) => {
+    const value = toValue(row);
+    return value && createLabResult(value, row.collectedAt, '', reportId);
+  };
+
+  const [rows, setRows] = useState<DraftRow[]>(() => extraction.values.map((v, i) => {
+    const row: DraftRow = {
+      key: i,
+      include: true,
+      name: v.name,
+      value: String(v.value),
+      unit: v.unit,
+      reference: v.referenceText || formatReferenceRange(v.referenceLow, v.referenceHigh),
+      collectedAt: v.collectedAt || extraction.collectedAt || defaultDate,
+    };
+    // Values saved from an earlier extraction start unticked
+    const result = preview(row);
+    return { ...row, include: !(result && isDuplicateLab(existing, result)) };
+  }));
+
+  const update = (key: number, changes: Partial<DraftRow>) =>
+    setRows(prev => prev.map(r => (r.key === key ? { ...r, ...changes } : r)));
+
+  const addRow = () => setRows(prev => [
+    ...prev,
+    { key: Date.now(), include: true, name: '', value: '', unit: '', reference: '', collectedAt: extraction.collectedAt || defaultDate },
+  ]);
+
+  const handleConfirm = () => {
+    const included = rows.filter(r => r.include);
+    const invalid = included.find(r => !toValue(r) || !r.collectedAt);
+    if (invalid) {
+      alert(`Check "${invalid.name || 'the new row'}": every saved value needs a name, a number and a date.`);
+      return;
+    }
+    const stamp = Date.now();
+    onConfirm(included.map((r, i) => createLabResult(toValue(r)!, r.collectedAt, `${stamp}-${i}`, reportId)));
+  };
+
+  const includedCount = rows.filter(r => r.include).length;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="lab-review-title">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b border-gray-100 flex items-center gap-3">
+          <div className="p-2 bg-brand-50 rounded-lg text-brand-600">
+            <FlaskConical className="w-6 h-6" />
+          </div>
+          <div>
+            <h2 id="lab-review-title" className="text-xl font-bold text-gray-900">Review lab values</h2>
+            <p className="text-sm text-gray-500">From {reportName}. Compare each value with the report and correct anything misread before saving.</p>
+          </div>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-4">
+          {extraction.error && (
+            <div className="bg-amber-50 p-3 rounded-lg border border-amber-100 text-amber-900 text-sm flex gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5 text-amber-600" />
+              <p>The values could not be read automatically ({extraction.error.message}). You can still enter them by hand.</p>
+            </div>
+          )}
+          {!extraction.error && extraction.values.length === 0 && (
+            <p className="text-sm text-gray-500">No numeric lab values were found in this document.</p>
+          )}
+
+          {rows.length > 0 && (
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="p-2 w-8"></th>
+                  <th className="p-2 text-xs font-medium text-gray-500 uppercase">Test</th>
+                  <th className="p-2 text-xs font-medium text-gray-500 uppercase w-24">Value</th>
+                  <th className="p-2 text-xs font-medium text-gray-500 uppercase w-24">Unit</th>
+                  <th className="p-2 text-xs font-medium text-gray-500 uppercase w-28">Reference</th>
+                  <th className="p-2 text-xs font-medium text-gray-500 uppercase w-40">Collected</th>
+                  <th className="p-2 text-xs font-medium text-gray-500 uppercase w-32">Flag</th>
+                  <th className="p-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(row => {
+                  const result = preview(row);
+                  const duplicate = result && isDuplicateLab(existing, result);
+                  return (
+                    <tr key={row.key} className={row.include ? '' : 'opacity-50'}>
+                      <td className="p-2">
+                        <input type="checkbox" checked={row.include} onChange={e => update(row.key, { include: e.target.checked })} aria-label="Save this value" />
+                      </td>
+                      <td className="p-2">
+                        <input value={row.name} onChange={e => update(row.key, { name: e.target.value })} placeholder="Test name" className="w-full border border-gray-300 rounded-lg p-1.5" />
+                        {result && result.analyte !== row.name.trim() && <p className="text-[11px] text-gray-400 mt-0.5">Trended as {result.analyte}</p>}
+                      </td>
+                      <td className="p-2">
+                        <input value={row.value} onChange={e => update(row.key, { value: e.target.value })} inputMode="decimal" className="w-full border border-gray-300 rounded-lg p-1.5" />
+                      </td>
+                      <td className="p-2">
+                        <input value={row.unit} onChange={e => update(row.key, { unit: e.target.value })} className="w-full border border-gray-300 rounded-lg p-1.5" />
+                      </td>
+                      <td className="p-2">
+                        <input value={row.reference} onChange={e => update(row.key, { reference: e.target.value })} placeholder="e.g. 70-99" className="w-full border border-gray-300 rounded-lg p-1.5" />
+                      </td>
+                      <td className="p-2">
+                        <input type="date" value={row.collectedAt} onChange={e => update(row.key, { collectedAt: e.target.value })} className="w-full border border-gray-300 rounded-lg p-1.5" />
+                      </td>
+                      <td className="p-2">
+                        {duplicate
+                          ? <span className="text-xs text-gray-500">Already saved</span>
+                          : result && <LabFlagBadge flag={result.flag} />}
+                      </td>
+                      <td className="p-2 text-right">
+                        <button onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))} className="text-gray-400 hover:text-red-600" title="Remove">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <button onClick={addRow} className="flex items-center gap-1 text-sm font-medium text-brand-600 hover:text-brand-700">
+            <Plus className="w-4 h-4" /> Add a value
+          </button>
+        </div>
+
+        <div className="p-5 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg font-medium border border-gray-300 text-gray-700 hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={includedCount === 0}
+            className="px-4 py-2 rounded-lg font-medium bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+          >
+            Save {includedCount} {includedCount === 1 ? 'value' : 'values'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, X, Check, HeartPulse, Scissors, Syringe } from 'lucide-react';
+import { MedicalRecord, MedicalRecordType, ConditionRecord, SurgeryRecord, VaccinationRecord } from '../types';
+
+interface MedicalHistoryEditorProps {
+  history: MedicalRecord[];
+  onAdd: (record: MedicalRecord) => Promise<void> | void;
+  onChange: (history: MedicalRecord[]) => Promise<void> | void;
+}
+
+const RECORD_TYPES: MedicalRecordType[] = ['Condition', 'Surgery', 'Vaccination'];
+
+const typeIcons: Record<MedicalRecordType, React.ElementType> = {
+  Condition: HeartPulse,
+  Surgery: Scissors,
+  Vaccination: Syringe,
+};
+
+const text = (formData: FormData, key: string) => ((formData.get(key) as string) || '').trim();
+
+/**
+ * Builds a typed record from the editor form. Empty optional fields are
+ * omitted rather than set to undefined, which Firestore would reject.
+ */
+const buildRecord = (type: MedicalRecordType, formData: FormData, id: string): MedicalRecord => {
+  const base = {
+    id,
+    name: text(formData, 'name'),
+    date: text(formData, 'date'),
+    notes: text(formData, 'notes'),
+  };
+
+  switch (type) {
+    case 'Condition': {
+      const record: ConditionRecord = { ...base, type, status: (text(formData, 'status') || 'Active') as ConditionRecord['status'] };
+      const resolvedDate = text(formData, 'resolvedDate');
+      if (record.status === 'Resolved' && resolvedDate) record.resolvedDate = resolvedDate;
+      return record;
+    }
+    case 'Surgery': {
+      const record: SurgeryRecord = { ...base, type };
+      const facility = text(formData, 'facility');
+      const surgeon = text(formData, 'surgeon');
+      if (facility) record.facility = facility;
+      if (surgeon) record.surgeon = surgeon;
+      return record;
+    }
+    case 'Vaccination': {
+      const record: VaccinationRecord = { ...base, type };
+      const doseNumber = Number(formData.get('doseNumber'));
+      const boosterDueDate = text(formData, 'boosterDueDate');
+      const lotNumber = text(formData, 'lotNumber');
+      if (doseNumber > 0) record.doseNumber = doseNumber;
+      if (boosterDueDate) record.boosterDueDate = boosterDueDate;
+      if (lotNumber) record.lotNumber = lotNumber;
+      return record;
+    }
+  }
+};
+
+const describeRecord = (record: MedicalRecord): string[] => {
+  switch (record.type) {
+    case 'Condition':
+      return [
+        record.status || 'Active',
+        record.resolvedDate ? `Resolved ${new Date(record.resolvedDate).toLocaleDateString()}` : '',
+      ].filter(Boolean);
+    case 'Surgery':
+      return [record.facility || '', record.surgeon ? `Dr. ${record.surgeon}` : ''].filter(Boolean);
+    case 'Vaccination':
+      return [
+        record.doseNumber ? `Dose ${record.doseNumber}` : '',
+        record.boosterDueDate ? `Booster due ${new Date(record.boosterDueDate).toLocaleDateString()}` : '',
+        record.lotNumber ? `Lot ${record.lotNumber}` : '',
+      ].filter(Boolean);
+  }
+};
+
+interface RecordFormProps {
+  initial?: MedicalRecord;
+  isSaving: boolean;
+  onSubmit: (record: MedicalRecord) => void;
+  onCancel?: () => void;
+}
+
+const RecordForm: React.FC<RecordFormProps> = ({ initial, isSaving, onSubmit, onCancel }) => {
+  const [type, setType] = useState<MedicalRecordType>(initial?.type || 'Condition');
+  const inputClass = "w-full p-2 border border-gray-300 rounded-md";
+  const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    onSubmit(buildRecord(type, new FormData(form), initial?.id || Date.now().toString()));
+    if (!initial) form.reset();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+      <div>
+        <label className={labelClass}>Type</label>
+        <select value={type} onChange={e => setType(e.target.value as MedicalRecordType)} disabled={!!initial} className={inputClass}>
+          {RECORD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>{type === 'Vaccination' ? 'Vaccine' : type === 'Surgery' ? 'Procedure' : 'Condition'}</label>
+        <input name="name" type="text" defaultValue={initial?.name} required className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>{type === 'Condition' ? 'Diagnosed' : 'Date'}</label>
+        <input name="date" type="date" defaultValue={initial?.date} required className={inputClass} />
+      </div>
+
+      {type === 'Condition' && (
+        <>
+          <div>
+            <label className={labelClass}>Status</label>
+            <select name="status" defaultValue={initial?.type === 'Condition' ? initial.status : 'Active'} className={inputClass}>
+              {['Active', 'Managed', 'Resolved'].map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Resolved On</label>
+            <input name="resolvedDate" type="date" defaultValue={initial?.type === 'Condition' ? initial.resolvedDate : undefined} className={inputClass} />
+          </div>
+        </>
+      )}
+
+      {type === 'Surgery' && (
+        <>
+          <div>
+            <label className={labelClass}>Facility</label>
+            <input name="facility" type="text" placeholder="e.g. City General Hospital" defaultValue={initial?.type === 'Surgery' ? initial.facility : undefined} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Surgeon</label>
+            <input name="surgeon" type="text" defaultValue={initial?.type === 'Surgery' ? initial.surgeon : undefined} className={inputClass} />
+          </div>
+        </>
+      )}
+
+      {type === 'Vaccination' && (
+        <>
+          <div>
+            <label className={labelClass}>Dose Number</label>
+            <input name="doseNumber" type="number" min="1" defaultValue={initial?.type === 'Vaccination' ? initial.doseNumber : undefined} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Booster Due</label>
+            <input name="boosterDueDate" type="date" defaultValue={initial?.type === 'Vaccination' ? initial.boosterDueDate : undefined} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Lot Number</label>
+            <input name="lotNumber" type="text" defaultValue={initial?.type === 'Vaccination' ? initial.lotNumber : undefined} className={inputClass} />
+          </div>
+        </>
+      )}
+
+      <div className="md:col-span-3">
+        <label className={labelClass}>Notes</label>
+        <input name="notes" type="text" defaultValue={initial?.notes} className={inputClass} />
+      </div>
+
+      <div className="md:col-span-3 flex gap-2">
+        <button type="submit" disabled={isSaving} className="flex-1 bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 disabled:opacity-50 flex items-center justify-center gap-2">
+          {initial ? <><Check className="w-4 h-4" /> Save Record</> : <><Plus className="w-4 h-4" /> Add Record</>}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-4 border border-gray-300 text-gray-600 rounded-lg hover:bg-gray-50 flex items-center justify-center">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export const MedicalHistoryEditor: React.FC<MedicalHistoryEditorProps> = ({ history, onAdd, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void> | void) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Failed to save medical history", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = (record: MedicalRecord) => {
+    setEditingId(null);
+    run(() => onChange(history.map(r => (r.id === record.id ? record : r))));
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Delete this record?')) return;
+    run(() => onChange(history.filter(r => r.id !== id)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-xl border border-gray-100">
+        <h3 className="text-lg font-medium text-gray-800 mb-4">Add to Medical History</h3>
+        <RecordForm isSaving={isSaving} onSubmit={(record) => run(() => onAdd(record))} />
+      </div>
+
+      {RECORD_TYPES.map(type => {
+        const records = history.filter(r => r.type === type);
+        const Icon = typeIcons[type];
+        return (
+          <div key={type} className="space-y-3">
+            <h3 className="font-bold text-gray-800 border-b pb-2 flex items-center gap-2">
+              <Icon className="w-4 h-4 text-brand-600" /> {type === 'Surgery' ? 'Surgeries' : `${type}s`}
+            </h3>
+            {records.length === 0 && <p className="text-gray-400 text-sm">No records.</p>}
+            {records.map(record => (
+              editingId === record.id ? (
+                <div key={record.id} className="p-4 bg-brand-50 rounded-lg">
+                  <RecordForm initial={record} isSaving={isSaving} onSubmit={handleUpdate} onCancel={() => setEditingId(null)} />
+                </div>
+              ) : (
+                <div key={record.id} className="p-3 bg-gray-50 rounded flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{record.name} <span className="text-sm text-gray-500 font-normal">({record.date})</span></p>
+                    {describeRecord(record).length > 0 && (
+                      <p className="text-xs text-gray-500 mt-0.5">{describeRecord(record).join(' • ')}</p>
+                    )}
+                    {record.notes && <p className="text-sm text-gray-600 mt-1">{record.notes}</p>}
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <button onClick={() => setEditingId(record.id)} disabled={isSaving} title="Edit" className="p-2 text-gray-500 hover:text-brand-600 disabled:opacity-50">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(record.id)} disabled={isSaving} title="Delete" className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-50">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { Pill, Plus, Pencil, Pause, Play, Ban, X, Check, History } from 'lucide-react';
+import { Medication, MedicationStatus, InteractionWarning, DoseSchedule } from '../types';
+import { checkMedication, highestSeverity } from '../services/interactionService';
+import { getSchedule, parseFrequency, formatSchedule, parseLocalDate, WEEKDAY_LABELS } from '../services/adherenceService';
+import { InteractionWarnings, SeverityBadge } from './InteractionWarnings';
+
+interface MedicationsViewProps {
+  medications: Medication[];
+  allergies: string[];
+  interactions: InteractionWarning[];
+  onChange: (medications: Medication[]) => Promise<void> | void;
+}
+
+/**
+ * Resolves the lifecycle status of a medication.
+ * Records created before `status` existed only carry the `active` flag.
+ */
+export const getMedicationStatus = (med: Medication): MedicationStatus =>
+  med.status ?? (med.active ? 'Active' : 'Discontinued');
+
+/** Local calendar date as `YYYY-MM-DD`, the format of the date inputs. */
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const today = () => toDateInput(new Date());
+
+const statusStyles: Record<MedicationStatus, string> = {
+  Active: 'text-green-600 bg-green-50',
+  Paused: 'text-yellow-700 bg-yellow-50',
+  Discontinued: 'text-gray-500 bg-gray-100',
+};
+
+/**
+ * Reads the schedule inputs. Leaving the times blank falls back to the
+ * schedule implied by the free-text frequency.
+ */
+const readSchedule = (formData: FormData, frequency: string): DoseSchedule => {
+  const prn = formData.get('prn') === 'on';
+  const timesOfDay = ((formData.get('times') as string) || '')
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => /^([01]\d|2[0-3]):[0-5]\d$/.test(t))
+    .sort();
+  const daysOfWeek = formData.getAll('days').map(Number).sort();
+
+  if (prn) return { timesOfDay: [], daysOfWeek: [], prn };
+  if (timesOfDay.length === 0) {
+    const parsed = parseFrequency(frequency);
+    return { ...parsed, daysOfWeek: daysOfWeek.length ? daysOfWeek : parsed.daysOfWeek };
+  }
+  return { timesOfDay, daysOfWeek, prn };
+};
+
+const ScheduleFields: React.FC<{ schedule?: DoseSchedule }> = ({ schedule }) => (
+  <>
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Dose Times</label>
+      <input name="times" type="text" placeholder="e.g. 08:00, 20:00" defaultValue={schedule?.timesOfDay.join(', ')} className="w-full p-2 border border-gray-300 rounded-md" />
+    </div>
+    <div className="md:col-span-2">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Days (none = every day)</label>
+      <div className="flex flex-wrap gap-2">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <label key={label} className="flex items-center gap-1 text-sm text-gray-600 px-2 py-1.5 border border-gray-200 rounded-md">
+            <input type="checkbox" name="days" value={day} defaultChecked={schedule?.daysOfWeek.includes(day)} />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 py-2">
+      <input type="checkbox" name="prn" defaultChecked={schedule?.prn} />
+      Take as needed (PRN)
+    </label>
+  </>
+);
+
+export const MedicationsView: React.FC<MedicationsViewProps> = ({ medications, allergies, interactions, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const commit = async (next: Medication[]) => {
+    setIsSaving(true);
+    try {
+      await onChange(next);
+    } catch (error) {
+      console.error("Failed to save medications", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Asks for confirmation before a medication with known interactions becomes active
+  const confirmInteractions = (candidate: Medication) => {
+    const warnings = checkMedication(candidate, medications, allergies);
+    if (warnings.length === 0) return true;
+    return confirm(
+      `${candidate.name} has ${warnings.length} interaction warning(s):\n\n` +
+      warnings.map(w => `[${w.severity}] ${w.description}`).join('\n') +
+      '\n\nSave anyway?'
+    );
+  };
+
+  const setStatus = (id: string, status: MedicationStatus) => {
+    const target = medications.find(m => m.id === id);
+    if (status === 'Active' && target && !confirmInteractions(target)) return;
+    const now = new Date().toISOString();
+    const next = medications.map(med => {
+      if (med.id !== id) return med;
+      // Firestore rejects undefined values, so drop endDate instead of clearing it
+      const { endDate, ...rest } = med;
+      const updated: Medication = {
+        ...rest,
+        status,
+        active: status === 'Active',
+        statusHistory: [...(med.statusHistory || []), { status, date: now }],
+      };
+      if (status === 'Discontinued') updated.endDate = today();
+      return updated;
+    });
+    commit(next);
+  };
+
+  const handleAdd = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const startDate = (formData.get('startDate') as string) || today();
+    const frequency = (formData.get('frequency') as string).trim();
+    const newMed: Medication = {
+      id: Date.now().toString(),
+      name: (formData.get('name') as string).trim(),
+      dosage: (formData.get('dosage') as string).trim(),
+      frequency,
+      schedule: readSchedule(formData, frequency),
+      startDate,
+      active: true,
+      status: 'Active',
+      statusHistory: [{ status: 'Active', date: parseLocalDate(startDate).toISOString(), note: 'Prescribed' }],
+    };
+    if (!confirmInteractions(newMed)) return;
+    commit([newMed, ...medications]);
+    form.reset();
+  };
+
+  const handleEdit = (e: React.FormEvent<HTMLFormElement>, med: Medication) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const frequency = (formData.get('frequency') as string).trim();
+    const updated: Medication = {
+      ...med,
+      name: (formData.get('name') as string).trim(),
+      dosage: (formData.get('dosage') as string).trim(),
+      frequency,
+      schedule: readSchedule(formData, frequency),
+      startDate: formData.get('startDate') as string,
+    };
+    if (updated.active && !confirmInteractions(updated)) return;
+    commit(medications.map(m => (m.id === med.id ? updated : m)));
+    setEditingId(null);
+  };
+
+  const current = medications.filter(m => getMedicationStatus(m) !== 'Discontinued');
+  const past = medications.filter(m => getMedicationStatus(m) === 'Discontinued');
+
+  const renderRow = (med: Medication) => {
+    const status = getMedicationStatus(med);
+    const worst = highestSeverity(interactions.filter(w => w.medications.includes(med.name)));
+
+    if (editingId === med.id) {
+      return (
+        <form key={med.id} onSubmit={(e) => handleEdit(e, med)} className="grid grid-cols-1 md:grid-cols-5 gap-3 p-4 bg-brand-50 rounded-lg items-end">
+          <input name="name" defaultValue={med.name} required className="p-2 border border-gray-300 rounded-md" />
+          <input name="dosage" defaultValue={med.dosage} required className="p-2 border border-gray-300 rounded-md" />
+          <input name="frequency" defaultValue={med.frequency} required className="p-2 border border-gray-300 rounded-md" />
+          <input name="startDate" type="date" defaultValue={med.startDate} required className="p-2 border border-gray-300 rounded-md" />
+          <div className="flex gap-2">
+            <button type="submit" disabled={isSaving} className="flex-1 bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 disabled:opacity-50 flex items-center justify-center">
+              <Check className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => setEditingId(null)} className="flex-1 border border-gray-300 text-gray-600 py-2 rounded-lg hover:bg-gray-50 flex items-center justify-center">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="md:col-span-5 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <ScheduleFields schedule={getSchedule(med)} />
+          </div>
+        </form>
+      );
+    }
+
+    return (
+      <div key={med.id} className="p-4 bg-gray-50 rounded-lg">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-full">
+              <Pill className="w-4 h-4" />
+            </div>
+            <div>
+              <p className="font-medium text-gray-900">{med.name}</p>
+              <p className="text-xs text-gray-500">
+                {med.dosage} • {med.frequency} • Since {parseLocalDate(med.startDate).toLocaleDateString()}
+                {med.endDate && ` • Stopped ${parseLocalDate(med.endDate).toLocaleDateString()}`}
+              </p>
+              {status !== 'Discontinued' && (
+                <p className="text-xs text-gray-400 mt-0.5">{formatSchedule(getSchedule(med))}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {worst && <SeverityBadge severity={worst} />}
+            <span className={`text-xs font-medium px-2 py-1 rounded ${statusStyles[status]}`}>{status}</span>
+            {status !== 'Discontinued' && (
+              <>
+                <button onClick={() => setEditingId(med.id)} disabled={isSaving} title="Edit" className="p-2 text-gray-500 hover:text-brand-600 disabled:opacity-50">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                {status === 'Active' ? (
+                  <button onClick={() => setStatus(med.id, 'Paused')} disabled={isSaving} title="Pause" className="p-2 text-gray-500 hover:text-yellow-600 disabled:opacity-50">
+                    <Pause className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button onClick={() => setStatus(med.id, 'Active')} disabled={isSaving} title="Resume" className="p-2 text-gray-500 hover:text-green-600 disabled:opacity-50">
+                    <Play className="w-4 h-4" />
+                  </button>
+                )}
+                <button onClick={() => setStatus(med.id, 'Discontinued')} disabled={isSaving} title="Discontinue" className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-50">
+                  <Ban className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {med.statusHistory && med.statusHistory.length > 1 && (
+          <div className="mt-3 pl-12 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <History className="w-3.5 h-3.5" />
+            {med.statusHistory.map((change, i) => (
+              <span key={i} className="px-2 py-0.5 bg-white border border-gray-200 rounded">
+                {change.status} {new Date(change.date).toLocaleDateString()}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Medications</h2>
+
+      <InteractionWarnings warnings={interactions} />
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-medium text-gray-800 mb-4">Record a New Prescription</h3>
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Medication</label>
+            <input name="name" type="text" placeholder="e.g. Atorvastatin" required className="w-full p-2 border border-gray-300 rounded-md" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Dosage</label>
+            <input name="dosage" type="text" placeholder="e.g. 20mg" required className="w-full p-2 border border-gray-300 rounded-md" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+            <input name="frequency" type="text" placeholder="e.g. Once daily" required className="w-full p-2 border border-gray-300 rounded-md" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+            <input name="startDate" type="date" defaultValue={today()} required className="w-full p-2 border border-gray-300 rounded-md" />
+          </div>
+          <ScheduleFields />
+          <button type="submit" disabled={isSaving} className="md:col-span-4 bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 disabled:opacity-50 flex items-center justify-center gap-2">
+            <Plus className="w-4 h-4" /> Add Medication
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Current Medications</h3>
+        <div className="space-y-3">
+          {current.map(renderRow)}
+          {current.length === 0 && <p className="text-gray-400 text-sm">No current medications.</p>}
+        </div>
+      </div>
+
+      {past.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Medication History</h3>
+          <div className="space-y-3">
+            {past.map(renderRow)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
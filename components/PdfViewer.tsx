@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, FileText, Loader2 } from 'lucide-react';
+import { MedicalFinding, ReportPage } from '../types';
+import { openPdf, renderPdfPage, MAX_PDF_PAGES, PAGE_RENDER_WIDTH, THUMBNAIL_WIDTH } from '../services/pdfService';
+import { ImageAnnotator } from './ImageAnnotator';
+
+interface PdfViewerProps {
+  url?: string; // Download or data URL of the original PDF
+  pageCount?: number;
+  pages?: ReportPage[];
+  findings: MedicalFinding[];
+  page: number; // 1-based; controlled so findings elsewhere can jump to their page
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Paged viewer for PDF reports. Pages are rendered from the PDF itself;
+ * each page shows only the findings that were made on it.
+ */
+export const PdfViewer: React.FC<PdfViewerProps> = ({ url, pageCount, pages, findings, page, onPageChange }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [pageImage, setPageImage] = useState<{ page: number; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    setLoadFailed(false);
+    openPdf({ url })
+      .then(doc => {
+        opened = doc;
+        if (cancelled) doc.destroy();
+        else setPdf(doc);
+      })
+      .catch(e => {
+        console.error("Failed to open PDF", e);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+      setPdf(null);
+      setThumbnails({});
+      setPageImage(null);
+    };
+  }, [url]);
+
+  // Thumbnails one at a time, so the current page is never kept waiting long
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    (async () => {
+      for (let n = 1; n <= Math.min(pdf.numPages, MAX_PDF_PAGES) && !cancelled; n++) {
+        const thumbnail = await renderPdfPage(pdf, n, THUMBNAIL_WIDTH);
+        if (!cancelled) setThumbnails(prev => ({ ...prev, [n]: thumbnail }));
+      }
+    })().catch(e => { if (!cancelled) console.error("Failed to render thumbnails", e); });
+    return () => { cancelled = true; };
+  }, [pdf]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    renderPdfPage(pdf, page, PAGE_RENDER_WIDTH, 'image/png')
+      .then(image => { if (!cancelled) setPageImage({ page, url: image }); })
+      .catch(e => { if (!cancelled) console.error("Failed to render page", e); });
+    return () => { cancelled = true; };
+  }, [pdf, page]);
+
+  const total = Math.min(pdf?.numPages ?? pageCount ?? pages?.length ?? 1, MAX_PDF_PAGES);
+  const pageInfo = pages?.find(p => p.pageNumber === page);
+  const pageFindings = findings.filter(f => f.page === page);
+  const findingCount = (n: number) => findings.filter(f => f.page === n).length;
+
+  return (
+    <div className="bg-gray-900 rounded-3xl p-1 shadow-2xl overflow-hidden border border-gray-800">
+      <div className="bg-gray-800/50 px-6 py-4 flex items-center justify-between border-b border-gray-700/50">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-brand-500/10 rounded-lg text-brand-400">
+            <FileText className="w-5 h-5" />
+          </div>
+          <div>
+            <h5 className="text-white font-bold">Page {page} of {pageCount ?? total}</h5>
+            <p className="text-gray-400 text-xs">
+              {pageInfo && !pageInfo.analyzed ? 'This page was not analyzed' : `${pageFindings.length} finding${pageFindings.length === 1 ? '' : 's'} on this page`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg disabled:opacity-30"
+            title="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= total}
+            className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg disabled:opacity-30"
+            title="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[auto_1fr] min-h-[500px] bg-black/40">
+        {/* Thumbnails */}
+        <div className="flex md:flex-col gap-3 p-3 overflow-auto md:max-h-[700px] border-b md:border-b-0 md:border-r border-gray-700/50">
+          {Array.from({ length: total }, (_, i) => i + 1).map(n => (
+            <button
+              key={n}
+              onClick={() => onPageChange(n)}
+              className={`relative shrink-0 w-20 rounded-lg overflow-hidden border-2 bg-white ${n === page ? 'border-brand-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+            >
+              {thumbnails[n]
+                ? <img src={thumbnails[n]} alt={`Page ${n}`} className="w-full" />
+                : <div className="aspect-[3/4] flex items-center justify-center text-gray-400"><Loader2 className="w-4 h-4 animate-spin" /></div>}
+              <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] font-bold py-0.5">{n}</span>
+              {findingCount(n) > 0 && (
+                <span className="absolute top-1 right-1 w-5 h-5 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">{findingCount(n)}</span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* Current page */}
+        <div className="flex items-center justify-center p-4">
+          {loadFailed || !url ? (
+            <p className="text-gray-400 text-sm">The PDF could not be loaded for viewing.</p>
+          ) : pageImage && pageImage.page === page ? (
+            <ImageAnnotator imageUrl={pageImage.url} findings={pageFindings} />
+          ) : (
+            <div className="text-gray-500 flex flex-col items-center">
+              <Loader2 className="w-8 h-8 animate-spin mb-2" />
+              Rendering page...
+            </div>
+          )}
+        </div>
+      </div>
+
+      {pageInfo && (pageInfo.summary || pageInfo.text) && (
+        <div className="px-6 py-4 border-t border-gray-700/50 space-y-2">
+          {pageInfo.summary && <p className="text-gray-300 text-sm">{pageInfo.summary}</p>}
+          {pageInfo.text && (
+            <details className="text-gray-400 text-xs">
+              <summary className="cursor-pointer font-semibold">Page text</summary>
+              <pre className="mt-2 whitespace-pre-wrap font-sans max-h-64 overflow-y-auto">{pageInfo.text}</pre>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
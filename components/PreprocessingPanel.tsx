@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Crop, Eraser, Contrast, BarChart3, Sparkles, Loader2, RotateCcw, X } from 'lucide-react';
+import { PreprocessingRecord, PreprocessingSettings, DenoiseFilter } from '../types';
+import {
+  DEFAULT_PREPROCESSING,
+  MAX_GAUSSIAN_RADIUS,
+  MAX_MEDIAN_RADIUS,
+  describePreprocessing,
+  preprocessImage
+} from '../services/imagePreprocessing';
+
+interface PreprocessingControlsProps {
+  settings: PreprocessingSettings;
+  onChange: (settings: PreprocessingSettings) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  format?: (value: number) => string;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step = 1, format = String, disabled, onChange }) => (
+  <label className={`block text-xs ${disabled ? 'opacity-40' : ''}`}>
+    <span className="flex justify-between font-semibold text-gray-600">
+      {label} <span className="text-gray-900">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-brand-600"
+    />
+  </label>
+);
+
+const StepToggle: React.FC<{ icon: React.ReactNode; label: string; hint: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ icon, label, hint, checked, onChange }) => (
+  <label className="flex items-start gap-2 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="mt-1 accent-brand-600" />
+    <span>
+      <span className="flex items-center gap-1.5 text-sm font-bold text-gray-900">{icon} {label}</span>
+      <span className="block text-xs text-gray-500">{hint}</span>
+    </span>
+  </label>
+);
+
+/**
+ * Parameters for each local preprocessing step, in the order they run.
+ */
+export const PreprocessingControls: React.FC<PreprocessingControlsProps> = ({ settings, onChange }) => {
+  const { autoCrop, denoise, windowLevel, equalize } = settings;
+  const maxRadius = denoise.filter === 'median' ? MAX_MEDIAN_RADIUS : MAX_GAUSSIAN_RADIUS;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-3">
+        <StepToggle
+          icon={<Crop className="w-4 h-4 text-brand-600" />}
+          label="Auto-crop borders"
+          hint="Trims dark borders around the scan"
+          checked={autoCrop.enabled}
+          onChange={enabled => onChange({ ...settings, autoCrop: { ...autoCrop, enabled } })}
+        />
+        <Slider label="Border brightness" value={autoCrop.threshold} min={0} max={80} disabled={!autoCrop.enabled}
+          onChange={threshold => onChange({ ...settings, autoCrop: { ...autoCrop, threshold } })} />
+        <Slider label="Margin" value={autoCrop.margin} min={0} max={64} format={v => `${v} px`} disabled={!autoCrop.enabled}
+          onChange={margin => onChange({ ...settings, autoCrop: { ...autoCrop, margin } })} />
+      </div>
+
+      <div className="space-y-3">
+        <StepToggle
+          icon={<Eraser className="w-4 h-4 text-brand-600" />}
+          label="Denoise"
+          hint="Median keeps edges sharp; Gaussian smooths grain evenly"
+          checked={denoise.enabled}
+          onChange={enabled => onChange({ ...settings, denoise: { ...denoise, enabled } })}
+        />
+        <select
+          value={denoise.filter}
+          disabled={!denoise.enabled}
+          onChange={e => {
+            const filter = e.target.value as DenoiseFilter;
+            const limit = filter === 'median' ? MAX_MEDIAN_RADIUS : MAX_GAUSSIAN_RADIUS;
+            onChange({ ...settings, denoise: { ...denoise, filter, radius: Math.min(denoise.radius, limit) } });
+          }}
+          className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded-lg disabled:opacity-40"
+        >
+          <option value="median">Median filter</option>
+          <option value="gaussian">Gaussian blur</option>
+        </select>
+        <Slider label="Radius" value={denoise.radius} min={1} max={maxRadius} format={v => `${v} px`} disabled={!denoise.enabled}
+          onChange={radius => onChange({ ...settings, denoise: { ...denoise, radius } })} />
+      </div>
+
+      <div className="space-y-3">
+        <StepToggle
+          icon={<Contrast className="w-4 h-4 text-brand-600" />}
+          label="Window / level"
+          hint="Stretches a brightness range to full contrast"
+          checked={windowLevel.enabled}
+          onChange={enabled => onChange({ ...settings, windowLevel: { ...windowLevel, enabled } })}
+        />
+        <Slider label="Window" value={windowLevel.window} min={1} max={255} disabled={!windowLevel.enabled}
+          onChange={window => onChange({ ...settings, windowLevel: { ...windowLevel, window } })} />
+        <Slider label="Level" value={windowLevel.level} min={0} max={255} disabled={!windowLevel.enabled}
+          onChange={level => onChange({ ...settings, windowLevel: { ...windowLevel, level } })} />
+      </div>
+
+      <div className="space-y-3">
+        <StepToggle
+          icon={<BarChart3 className="w-4 h-4 text-brand-600" />}
+          label="Histogram equalization"
+          hint="Spreads brightness evenly to bring out faint detail"
+          checked={equalize.enabled}
+          onChange={enabled => onChange({ ...settings, equalize: { ...equalize, enabled } })}
+        />
+        <Slider label="Strength" value={equalize.strength} min={0} max={1} step={0.05} format={v => `${Math.round(v * 100)}%`} disabled={!equalize.enabled}
+          onChange={strength => onChange({ ...settings, equalize: { ...equalize, strength } })} />
+      </div>
+
+      <div className="md:col-span-2 pt-3 border-t border-gray-100">
+        <StepToggle
+          icon={<Sparkles className="w-4 h-4 text-amber-500" />}
+          label="AI enhancement afterwards"
+          hint="Sends the result through the generative model. It can invent or erase detail, so the analysis may no longer match the scan."
+          checked={settings.aiEnhance}
+          onChange={aiEnhance => onChange({ ...settings, aiEnhance })}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface PreprocessingPanelProps {
+  imageUrl: string; // The original, never a processed copy
+  record?: PreprocessingRecord;
+  busy: boolean; // The report is being processed already
+  onApply: (settings: PreprocessingSettings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Adjusts the preprocessing of one report with a live local preview. Applying
+ * reprocesses and re-analyzes the report from its original.
+ */
+export const PreprocessingPanel: React.FC<PreprocessingPanelProps> = ({ imageUrl, record, busy, onApply, onClose }) => {
+  const [settings, setSettings] = useState<PreprocessingSettings>(record?.settings ?? DEFAULT_PREPROCESSING);
+  const [preview, setPreview] = useState<{ url: string; record: PreprocessingRecord } | null>(null);
+  const [previewFailed, setPreviewFailed] = useState(false);
+
+  // Debounced so dragging a slider does not queue a render per step
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      preprocessImage(imageUrl, settings)
+        .then(result => {
+          if (cancelled) return;
+          setPreview({ url: result.dataUrl, record: result.record });
+          setPreviewFailed(false);
+        })
+        .catch(e => {
+          console.error("Preprocessing preview failed", e);
+          if (!cancelled) setPreviewFailed(true);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [imageUrl, settings]);
+
+  return (
+    <div className="bg-gray-50 rounded-3xl border border-gray-200 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h5 className="font-bold text-gray-900">Adjust preprocessing</h5>
+          <p className="text-xs text-gray-500">Runs on this device from the original upload. The original is kept either way.</p>
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 rounded-lg" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6">
+        <PreprocessingControls settings={settings} onChange={setSettings} />
+        <div className="space-y-2">
+          <div className="aspect-[4/3] bg-gray-900 rounded-2xl overflow-hidden flex items-center justify-center">
+            {previewFailed ? (
+              <span className="text-gray-400 text-sm px-4 text-center">The original could not be loaded for a preview.</span>
+            ) : preview ? (
+              <img src={preview.url} alt="Preview" className="w-full h-full object-contain" />
+            ) : (
+              <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />
+            )}
+          </div>
+          {preview && (
+            <p className="text-xs text-gray-500">
+              {describePreprocessing(preview.record)} · {preview.record.width}×{preview.record.height} px
+              {settings.aiEnhance && ' · AI enhancement runs when applied'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={() => setSettings(DEFAULT_PREPROCESSING)}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-gray-600 hover:bg-gray-100 rounded-full"
+        >
+          <RotateCcw className="w-4 h-4" /> Defaults
+        </button>
+        <button
+          onClick={() => onApply(settings)}
+          disabled={busy}
+          className="px-5 py-2 text-sm font-bold text-white bg-brand-600 hover:bg-brand-700 rounded-full disabled:opacity-50"
+        >
+          {busy ? 'Processing...' : 'Apply and re-analyze'}
+        </button>
+      </div>
+    </div>
+  );
+};
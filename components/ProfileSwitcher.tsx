@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ChevronsUpDown, Check, UserPlus, Share2, X } from 'lucide-react';
+import { PatientAccess } from '../types';
+import { Avatar } from './Avatar';
+
+interface ProfileSwitcherProps {
+  patients: PatientAccess[];
+  activeId: string;
+  currentUid: string;
+  onSelect: (patientId: string) => void;
+  onAddDependent: (name: string, relationship: string) => Promise<void>;
+  onGrantAccess: (email: string) => Promise<void>;
+  onRevokeAccess: (email: string) => Promise<void>;
+}
+
+const RELATIONSHIPS = ['Child', 'Parent', 'Spouse', 'Sibling', 'Other'];
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  patients,
+  activeId,
+  currentUid,
+  onSelect,
+  onAddDependent,
+  onGrantAccess,
+  onRevokeAccess
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [panel, setPanel] = useState<'list' | 'add' | 'share'>('list');
+
+  const active = patients.find(p => p.id === activeId);
+  const canShare = active?.ownerId === currentUid;
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    await onAddDependent((formData.get('name') as string).trim(), formData.get('relationship') as string);
+    setPanel('list');
+  };
+
+  const handleShare = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    await onGrantAccess((new FormData(form).get('email') as string).trim());
+    form.reset();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setPanel('list'); }}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm border border-gray-200 rounded-lg hover:bg-gray-50"
+      >
+        <span className="truncate text-gray-700">
+          Viewing: <span className="font-medium text-gray-900">{active?.name || 'My profile'}</span>
+        </span>
+        <ChevronsUpDown className="w-4 h-4 text-gray-400 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-0 right-0 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-40">
+          {panel === 'list' && (
+            <>
+              <div className="max-h-56 overflow-y-auto space-y-1">
+                {patients.map(p => (
+                  <button
+                    key={p.id}
+                    onClick={() => { onSelect(p.id); setIsOpen(false); }}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-gray-50 text-left"
+                  >
+                    <Avatar name={p.name} className="w-7 h-7 text-xs bg-brand-100 text-brand-700" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{p.name}</p>
+                      <p className="text-[10px] text-gray-500">
+                        {p.relationship}{p.ownerId !== currentUid && ' • Shared with you'}
+                      </p>
+                    </div>
+                    {p.id === activeId && <Check className="w-4 h-4 text-brand-600" />}
+                  </button>
+                ))}
+              </div>
+              <div className="border-t border-gray-100 mt-2 pt-2 space-y-1">
+                <button onClick={() => setPanel('add')} className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-brand-600 rounded-md hover:bg-brand-50">
+                  <UserPlus className="w-4 h-4" /> Add family member
+                </button>
+                {canShare && (
+                  <button onClick={() => setPanel('share')} className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-brand-600 rounded-md hover:bg-brand-50">
+                    <Share2 className="w-4 h-4" /> Share {active?.name}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+
+          {panel === 'add' && (
+            <form onSubmit={handleAdd} className="space-y-2 p-1">
+              <p className="text-sm font-medium text-gray-800">Add a family member</p>
+              <input name="name" type="text" placeholder="Full name" required className="w-full p-2 text-sm border border-gray-300 rounded-md" />
+              <select name="relationship" className="w-full p-2 text-sm border border-gray-300 rounded-md">
+                {RELATIONSHIPS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+              <div className="flex gap-2">
+                <button type="submit" className="flex-1 bg-brand-600 text-white py-1.5 text-sm rounded-lg hover:bg-brand-700">Create Profile</button>
+                <button type="button" onClick={() => setPanel('list')} className="px-3 border border-gray-300 text-gray-600 text-sm rounded-lg hover:bg-gray-50">Back</button>
+              </div>
+            </form>
+          )}
+
+          {panel === 'share' && active && (
+            <div className="space-y-2 p-1">
+              <p className="text-sm font-medium text-gray-800">Caregivers for {active.name}</p>
+              {active.caregiverEmails.length === 0 && <p className="text-xs text-gray-400">Not shared with anyone yet.</p>}
+              {active.caregiverEmails.map(email => (
+                <div key={email} className="flex items-center justify-between text-xs text-gray-600 bg-gray-50 px-2 py-1 rounded">
+                  <span className="truncate">{email}</span>
+                  <button onClick={() => onRevokeAccess(email)} title="Revoke access" className="p-1 text-gray-400 hover:text-red-600">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              <form onSubmit={handleShare} className="flex gap-2">
+                <input name="email" type="email" placeholder="caregiver@email.com" required className="flex-1 min-w-0 p-2 text-sm border border-gray-300 rounded-md" />
+                <button type="submit" className="px-3 bg-brand-600 text-white text-sm rounded-lg hover:bg-brand-700">Share</button>
+              </form>
+              <p className="text-[10px] text-gray-400">Caregivers must sign in with this email and verify it.</p>
+              <button type="button" onClick={() => setPanel('list')} className="w-full py-1.5 border border-gray-300 text-gray-600 text-sm rounded-lg hover:bg-gray-50">Back</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { PatientProfile } from '../types';
+
+interface ProfileViewProps {
+  profile: PatientProfile;
+  onSave: (profile: PatientProfile) => void;
+}
+
+/**
+ * Edits a copy of the profile. Nothing outside the form sees the changes,
+ * so insights and the offline copy only follow saved values.
+ */
+export const ProfileView: React.FC<ProfileViewProps> = ({ profile, onSave }) => {
+  const [draft, setDraft] = useState(profile);
+  // A new saved profile, e.g. from another device, replaces the draft
+  useEffect(() => setDraft(profile), [profile]);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+       <h2 className="text-2xl font-bold text-gray-900">Patient Profile</h2>
+       <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-100">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+                <input type="text" value={draft.name} onChange={e => setDraft({...draft, name: e.target.value})} className="w-full p-2 border border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500" />
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Age</label>
+                <input type="number" value={draft.age} onChange={e => setDraft({...draft, age: parseInt(e.target.value)})} className="w-full p-2 border border-gray-300 rounded-md" />
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Blood Group</label>
+                <select value={draft.bloodGroup} onChange={e => setDraft({...draft, bloodGroup: e.target.value})} className="w-full p-2 border border-gray-300 rounded-md">
+                   {['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'].map(bg => <option key={bg} value={bg}>{bg}</option>)}
+                </select>
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Height (cm)</label>
+                <input type="number" value={draft.height} onChange={e => setDraft({...draft, height: parseInt(e.target.value)})} className="w-full p-2 border border-gray-300 rounded-md" />
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Weight (kg)</label>
+                <input type="number" value={draft.weight} onChange={e => setDraft({...draft, weight: parseInt(e.target.value)})} className="w-full p-2 border border-gray-300 rounded-md" />
+             </div>
+             <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Allergies (comma separated)</label>
+                <input type="text" value={draft.allergies.join(', ')} onChange={e => setDraft({...draft, allergies: e.target.value.split(',').map(s => s.trim())})} className="w-full p-2 border border-gray-300 rounded-md" />
+             </div>
+          </div>
+          <div className="mt-8 flex justify-end">
+            <button onClick={() => onSave(draft)} className="bg-brand-600 text-white px-6 py-2 rounded-lg hover:bg-brand-700 transition-colors">
+              Save Changes
+            </button>
+          </div>
+       </div>
+    </div>
+  );
+};
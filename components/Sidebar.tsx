@@ -1,11 +1,17 @@
 import React from 'react';
-import { Activity, User, FileText, Pill, Stethoscope, LayoutDashboard, Upload } from 'lucide-react';
+import { Activity, User, FileText, Pill, Stethoscope, LayoutDashboard, Upload, TrendingUp, LogOut, MessageCircle, HeartPulse, FlaskConical } from 'lucide-react';
+import { PatientProfile } from '../types';
+import { Avatar } from './Avatar';
 
 interface SidebarProps {
   currentView: string;
   setCurrentView: (view: string) => void;
   isMobileOpen: boolean;
   setIsMobileOpen: (open: boolean) => void;
+  profile: PatientProfile;
+  patientId: string;
+  onSignOut?: () => void;
+  profileSwitcher?: React.ReactNode;
 }
 
 const navItems = [
@@ -13,12 +19,16 @@ const navItems = [
   { id: 'profile', label: 'My Profile', icon: User },
   { id: 'inventory', label: 'Medical Inventory', icon: FileText },
   { id: 'medications', label: 'Medications', icon: Pill },
+  { id: 'vitals', label: 'Vitals', icon: HeartPulse },
   { id: 'symptoms', label: 'Symptom Log', icon: Activity },
+  { id: 'analytics', label: 'Symptom Trends', icon: TrendingUp },
   { id: 'upload', label: 'Upload Reports', icon: Upload },
+  { id: 'labs', label: 'Lab Results', icon: FlaskConical },
+  { id: 'assistant', label: 'Health Assistant', icon: MessageCircle },
   { id: 'doctor', label: 'Find Doctor', icon: Stethoscope },
 ];
 
-export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isMobileOpen, setIsMobileOpen }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isMobileOpen, setIsMobileOpen, profile, patientId, onSignOut, profileSwitcher }) => {
   return (
     <>
       {/* Mobile Overlay */}
@@ -67,15 +77,19 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, i
           })}
         </nav>
 
-        <div className="p-4 border-t border-gray-200">
+        <div className="p-4 border-t border-gray-200 space-y-3">
+          {profileSwitcher}
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center text-brand-700 font-bold">
-              JD
-            </div>
-            <div>
-              <p className="text-sm font-medium text-gray-900">John Doe</p>
-              <p className="text-xs text-gray-500">Patient ID: #8834</p>
+            <Avatar name={profile.name} className="w-10 h-10 bg-brand-100 text-brand-700" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{profile.name || 'New Patient'}</p>
+              <p className="text-xs text-gray-500">Patient ID: #{patientId.slice(0, 6).toUpperCase()}</p>
             </div>
+            {onSignOut && (
+              <button onClick={onSignOut} title="Sign out" className="p-2 text-gray-400 hover:text-gray-600">
+                <LogOut className="w-4 h-4" />
+              </button>
+            )}
           </div>
         </div>
       </aside>
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, Legend, ReferenceLine } from 'recharts';
+import { TrendingUp, Calendar, Pill } from 'lucide-react';
+import { SymptomLog, Medication } from '../types';
+import {
+  groupBySymptom,
+  filterByDateRange,
+  buildSeverityTimeSeries,
+  buildFrequencyHeatmap,
+  compareAroundDate,
+} from '../services/symptomService';
+import { WEEKDAY_LABELS } from '../services/adherenceService';
+
+interface SymptomAnalyticsViewProps {
+  symptoms: SymptomLog[];
+  medications: Medication[];
+}
+
+type RangePreset = '7' | '30' | '90' | 'all' | 'custom';
+
+const LINE_COLORS = ['#0d9488', '#6366f1', '#f97316', '#e11d48', '#0ea5e9', '#84cc16', '#a855f7', '#eab308'];
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const SymptomAnalyticsView: React.FC<SymptomAnalyticsViewProps> = ({ symptoms, medications }) => {
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [hidden, setHidden] = useState<string[]>([]);
+
+  const { from, to } = useMemo(() => {
+    if (preset === 'all') return { from: undefined, to: undefined };
+    if (preset === 'custom') {
+      return {
+        from: customFrom ? new Date(`${customFrom}T00:00:00`) : undefined,
+        to: customTo ? new Date(`${customTo}T23:59:59`) : undefined,
+      };
+    }
+    return { from: new Date(Date.now() - Number(preset) * 86400000), to: undefined };
+  }, [preset, customFrom, customTo]);
+
+  const inRange = useMemo(() => filterByDateRange(symptoms, from, to), [symptoms, from, to]);
+  const groups = useMemo(() => groupBySymptom(inRange), [inRange]);
+  const visibleKeys = useMemo(() => groups.map(g => g.key).filter(k => !hidden.includes(k)), [groups, hidden]);
+  const series = useMemo(() => buildSeverityTimeSeries(inRange, visibleKeys), [inRange, visibleKeys]);
+  const heatmap = useMemo(() => buildFrequencyHeatmap(inRange), [inRange]);
+  const heatMax = Math.max(1, ...heatmap.flat());
+
+  // Medication start/stop markers; with no lower bound the axis stretches to include them
+  const allMarkers = medications.flatMap(med => {
+    const events = [{ time: new Date(med.startDate).getTime(), label: `${med.name} started`, color: '#16a34a' }];
+    if (med.endDate) events.push({ time: new Date(med.endDate).getTime(), label: `${med.name} stopped`, color: '#dc2626' });
+    return events;
+  });
+  const earliest = Math.min(...series.map(p => p.time), ...allMarkers.map(m => m.time));
+  const chartStart = from?.getTime() ?? (Number.isFinite(earliest) ? earliest : Date.now() - 30 * 86400000);
+  const chartEnd = to?.getTime() ?? Date.now();
+  const markers = allMarkers.filter(m => m.time >= chartStart && m.time <= chartEnd);
+
+  const allGroups = useMemo(() => groupBySymptom(symptoms), [symptoms]);
+  const comparisons = medications.flatMap(med =>
+    allGroups
+      .map(g => ({ med, group: g, ...compareAroundDate(g.logs, new Date(med.startDate)) }))
+      .filter(c => c.before.count > 0 || c.after.count > 0)
+  );
+
+  const toggle = (key: string) =>
+    setHidden(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <TrendingUp className="w-6 h-6 text-brand-600" /> Symptom Trends
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <Calendar className="w-4 h-4 text-gray-400" />
+          {(['7', '30', '90', 'all', 'custom'] as RangePreset[]).map(p => (
+            <button
+              key={p}
+              onClick={() => setPreset(p)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                preset === p ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {p === 'all' ? 'All time' : p === 'custom' ? 'Custom' : `${p} days`}
+            </button>
+          ))}
+          {preset === 'custom' && (
+            <>
+              <input type="date" value={customFrom} onChange={e => setCustomFrom(e.target.value)} className="p-1.5 border border-gray-300 rounded-md text-sm" />
+              <span className="text-gray-400 text-sm">to</span>
+              <input type="date" value={customTo} onChange={e => setCustomTo(e.target.value)} className="p-1.5 border border-gray-300 rounded-md text-sm" />
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Severity over time */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Severity Over Time</h3>
+        {groups.length === 0 ? (
+          <p className="text-gray-400 text-sm">No symptoms logged in this range.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {groups.map((g, i) => (
+                <button
+                  key={g.key}
+                  onClick={() => toggle(g.key)}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border ${
+                    hidden.includes(g.key) ? 'bg-white text-gray-400 border-gray-200' : 'bg-gray-50 text-gray-700 border-gray-300'
+                  }`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: LINE_COLORS[i % LINE_COLORS.length] }} />
+                  {g.label} ({g.logs.length})
+                </button>
+              ))}
+            </div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={series}>
+                  <XAxis dataKey="time" type="number" scale="time" domain={[chartStart, chartEnd]} tickFormatter={formatDay} tick={{ fontSize: 10 }} />
+                  <YAxis domain={[0, 10]} tick={{ fontSize: 10 }} width={24} />
+                  <RechartsTooltip labelFormatter={(t) => new Date(Number(t)).toLocaleString()} />
+                  <Legend />
+                  {groups.map((g, i) => !hidden.includes(g.key) && (
+                    <Line key={g.key} dataKey={g.key} name={g.label} stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth={2} connectNulls dot={{ r: 3 }} />
+                  ))}
+                  {markers.map((m, i) => (
+                    <ReferenceLine key={i} x={m.time} stroke={m.color} strokeDasharray="4 4" label={{ value: m.label, position: 'insideTopLeft', fontSize: 10, fill: m.color }} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Frequency heatmap */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">When Symptoms Occur</h3>
+        <div className="overflow-x-auto">
+          <div className="inline-grid gap-0.5" style={{ gridTemplateColumns: `3rem repeat(24, minmax(1.25rem, 1fr))` }}>
+            <span />
+            {Array.from({ length: 24 }, (_, h) => (
+              <span key={h} className="text-[9px] text-gray-400 text-center">{h % 3 === 0 ? h : ''}</span>
+            ))}
+            {heatmap.map((row, day) => (
+              <React.Fragment key={day}>
+                <span className="text-xs text-gray-500 pr-2 flex items-center">{WEEKDAY_LABELS[day]}</span>
+                {row.map((count, hour) => (
+                  <div
+                    key={hour}
+                    title={`${WEEKDAY_LABELS[day]} ${hour}:00 — ${count} log${count === 1 ? '' : 's'}`}
+                    className="h-5 rounded-sm"
+                    style={{ backgroundColor: count === 0 ? '#f3f4f6' : `rgba(13, 148, 136, ${0.2 + (0.8 * count) / heatMax})` }}
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Before/after medication changes */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Symptoms Around Medication Starts</h3>
+        <p className="text-sm text-gray-500 mb-4">Average severity in the 30 days before and after each medication was started.</p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="p-3 text-xs font-medium text-gray-500 uppercase">Medication</th>
+                <th className="p-3 text-xs font-medium text-gray-500 uppercase">Symptom</th>
+                <th className="p-3 text-xs font-medium text-gray-500 uppercase">Before</th>
+                <th className="p-3 text-xs font-medium text-gray-500 uppercase">After</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {comparisons.map(({ med, group, before, after }) => {
+                const changed = before.averageSeverity !== null && after.averageSeverity !== null
+                  ? after.averageSeverity - before.averageSeverity
+                  : null;
+                return (
+                  <tr key={`${med.id}-${group.key}`}>
+                    <td className="p-3 text-sm font-medium text-gray-900 flex items-center gap-2"><Pill className="w-3.5 h-3.5 text-blue-500" /> {med.name}</td>
+                    <td className="p-3 text-sm text-gray-700">{group.label}</td>
+                    <td className="p-3 text-sm text-gray-600">{before.averageSeverity ?? '—'} <span className="text-xs text-gray-400">({before.count})</span></td>
+                    <td className="p-3 text-sm text-gray-600">
+                      {after.averageSeverity ?? '—'} <span className="text-xs text-gray-400">({after.count})</span>
+                      {changed !== null && changed !== 0 && (
+                        <span className={`ml-2 text-xs font-medium ${changed > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {changed > 0 ? '▲' : '▼'} {Math.abs(Math.round(changed * 10) / 10)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {comparisons.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="p-3 text-sm text-gray-400">No symptoms were logged within 30 days of a medication start.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
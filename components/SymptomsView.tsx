@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X, MapPin, Pill } from 'lucide-react';
+import { SymptomLog, Medication, DurationUnit } from '../types';
+import { DURATION_UNITS, formatDuration } from '../services/symptomService';
+
+interface SymptomsViewProps {
+  symptoms: SymptomLog[];
+  medications: Medication[];
+  onAdd: (log: SymptomLog) => Promise<void> | void;
+  onChange: (symptoms: SymptomLog[]) => Promise<void> | void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+const BODY_LOCATIONS = ['Head', 'Chest', 'Abdomen', 'Back', 'Arms', 'Legs', 'Joints', 'Skin', 'Whole body'];
+
+/**
+ * Builds a log from the form. Optional fields are only set when filled,
+ * since Firestore rejects undefined values.
+ */
+const buildLog = (formData: FormData, base: Pick<SymptomLog, 'id' | 'date'>): SymptomLog => {
+  const log: SymptomLog = {
+    ...base,
+    symptom: (formData.get('symptom') as string).trim(),
+    severity: Number(formData.get('severity')),
+    duration: {
+      value: Number(formData.get('durationValue')),
+      unit: formData.get('durationUnit') as DurationUnit,
+    },
+  };
+
+  const bodyLocation = ((formData.get('bodyLocation') as string) || '').trim();
+  const triggers = ((formData.get('triggers') as string) || '').split(',').map(t => t.trim()).filter(Boolean);
+  const medicationId = formData.get('medicationId') as string;
+  const notes = ((formData.get('notes') as string) || '').trim();
+
+  if (bodyLocation) log.bodyLocation = bodyLocation;
+  if (triggers.length > 0) log.triggers = triggers;
+  if (medicationId) log.medicationId = medicationId;
+  if (notes) log.notes = notes;
+  return log;
+};
+
+interface SymptomFormProps {
+  initial?: SymptomLog;
+  medications: Medication[];
+  onSubmit: (formData: FormData) => void;
+  onCancel?: () => void;
+}
+
+const SymptomForm: React.FC<SymptomFormProps> = ({ initial, medications, onSubmit, onCancel }) => {
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    onSubmit(new FormData(form));
+    if (!initial) form.reset();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+       <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Symptom Name</label>
+          <input name="symptom" type="text" placeholder="e.g. Migraine, Nausea" defaultValue={initial?.symptom} required className="w-full p-2 border border-gray-300 rounded-md" />
+       </div>
+       <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Severity (1-10)</label>
+          <input name="severity" type="number" min="1" max="10" defaultValue={initial?.severity} required className="w-full p-2 border border-gray-300 rounded-md" />
+       </div>
+       <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+          <div className="flex gap-2">
+             <input name="durationValue" type="number" min="0.1" step="any" placeholder="e.g. 2" defaultValue={initial?.duration.value || undefined} required className="w-20 p-2 border border-gray-300 rounded-md" />
+             <select name="durationUnit" defaultValue={initial?.duration.unit || 'hours'} className="flex-1 p-2 border border-gray-300 rounded-md">
+                {DURATION_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+             </select>
+          </div>
+       </div>
+       <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Body Location</label>
+          <input name="bodyLocation" type="text" list="symptom-body-locations" placeholder="e.g. Chest" defaultValue={initial?.bodyLocation} className="w-full p-2 border border-gray-300 rounded-md" />
+          <datalist id="symptom-body-locations">
+             {BODY_LOCATIONS.map(l => <option key={l} value={l} />)}
+          </datalist>
+       </div>
+       <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Triggers</label>
+          <input name="triggers" type="text" placeholder="e.g. Exercise, Stress" defaultValue={initial?.triggers?.join(', ')} className="w-full p-2 border border-gray-300 rounded-md" />
+       </div>
+       <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Related Medication</label>
+          <select name="medicationId" defaultValue={initial?.medicationId || ''} className="w-full p-2 border border-gray-300 rounded-md">
+             <option value="">None</option>
+             {medications.map(m => <option key={m.id} value={m.id}>{m.name} ({m.dosage})</option>)}
+          </select>
+       </div>
+       <div className="md:col-span-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <input name="notes" type="text" placeholder="Anything else worth recording" defaultValue={initial?.notes} className="w-full p-2 border border-gray-300 rounded-md" />
+       </div>
+       <div className="md:col-span-4 flex gap-2">
+          <button type="submit" className="flex-1 bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 flex items-center justify-center gap-2">
+            {initial ? <><Check className="w-4 h-4" /> Save Changes</> : <><Plus className="w-4 h-4" /> Add Symptom</>}
+          </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="px-4 border border-gray-300 text-gray-600 rounded-lg hover:bg-gray-50 flex items-center justify-center">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+       </div>
+    </form>
+  );
+};
+
+export const SymptomsView: React.FC<SymptomsViewProps> = ({ symptoms, medications, onAdd, onChange, hasMore, onLoadMore }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const handleAdd = (formData: FormData) => {
+    onAdd(buildLog(formData, { id: Date.now().toString(), date: new Date().toISOString() }));
+  };
+
+  const handleEdit = (log: SymptomLog, formData: FormData) => {
+    const updated = buildLog(formData, { id: log.id, date: log.date });
+    onChange(symptoms.map(s => (s.id === log.id ? updated : s)));
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Delete this symptom entry?')) return;
+    onChange(symptoms.filter(s => s.id !== id));
+  };
+
+  const medicationName = (id?: string) => medications.find(m => m.id === id)?.name;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Symptom Logger</h2>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-medium text-gray-800 mb-4">Log a New Symptom</h3>
+        <SymptomForm medications={medications} onSubmit={handleAdd} />
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full text-left">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Symptom</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Severity</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Duration</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Details</th>
+              <th className="p-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+             {symptoms.map(log => editingId === log.id ? (
+               <tr key={log.id} className="bg-brand-50">
+                 <td colSpan={6} className="p-4">
+                   <SymptomForm initial={log} medications={medications} onSubmit={(formData) => handleEdit(log, formData)} onCancel={() => setEditingId(null)} />
+                 </td>
+               </tr>
+             ) : (
+               <tr key={log.id} className="hover:bg-gray-50">
+                 <td className="p-4 text-sm text-gray-600">{new Date(log.date).toLocaleDateString()}</td>
+                 <td className="p-4 text-sm font-medium text-gray-900">{log.symptom}</td>
+                 <td className="p-4">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      log.severity >= 7 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {log.severity}/10
+                    </span>
+                 </td>
+                 <td className="p-4 text-sm text-gray-600">{log.duration.value > 0 ? formatDuration(log.duration) : '—'}</td>
+                 <td className="p-4 text-xs text-gray-500 space-y-1">
+                    {log.bodyLocation && <p className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {log.bodyLocation}</p>}
+                    {medicationName(log.medicationId) && <p className="flex items-center gap-1"><Pill className="w-3 h-3" /> {medicationName(log.medicationId)}</p>}
+                    {log.triggers && log.triggers.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {log.triggers.map(t => <span key={t} className="px-1.5 py-0.5 bg-gray-100 rounded">{t}</span>)}
+                      </div>
+                    )}
+                    {log.notes && <p className="text-gray-600">{log.notes}</p>}
+                 </td>
+                 <td className="p-4">
+                    <div className="flex items-center justify-end">
+                      <button onClick={() => setEditingId(log.id)} title="Edit" className="p-2 text-gray-400 hover:text-brand-600">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(log.id)} title="Delete" className="p-2 text-gray-400 hover:text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                 </td>
+               </tr>
+             ))}
+          </tbody>
+        </table>
+        {hasMore && onLoadMore && (
+          <button onClick={onLoadMore} className="w-full py-3 text-sm font-medium text-brand-600 hover:bg-brand-50 border-t border-gray-100">
+            Load older entries
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CloudOff, RotateCcw, Trash2 } from 'lucide-react';
+import { FailedWrite } from '../services/syncService';
+
+interface SyncIssuesProps {
+  failed: FailedWrite[];
+  patientId: string; // Active profile; changes to other profiles are marked as such
+  onRetry: (key: string) => void;
+  onDiscard: (write: FailedWrite) => void;
+}
+
+/**
+ * Changes the server refused to save. They stay on this device until the
+ * patient retries or discards each one, so nothing disappears unnoticed.
+ */
+export const SyncIssues: React.FC<SyncIssuesProps> = ({ failed, patientId, onRetry, onDiscard }) => {
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-red-200 bg-red-50 rounded-xl p-4" role="alert">
+      <div className="flex items-center gap-2 text-red-800 font-semibold">
+        <CloudOff className="w-5 h-5 shrink-0" />
+        {failed.length === 1 ? '1 change could not be saved' : `${failed.length} changes could not be saved`}
+      </div>
+      <p className="text-xs text-red-700 mt-1">
+        They are only on this device. Retry once the problem is fixed, or discard them to go back to the saved version.
+      </p>
+      <ul className="mt-3 space-y-2">
+        {failed.map(write => (
+          <li key={write.key} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-white border border-red-100 rounded-lg p-3">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {write.description}
+                {write.patientId !== patientId && <span className="text-gray-500 font-normal"> (another profile)</span>}
+              </p>
+              <p className="text-xs text-gray-500">{write.reason} · {new Date(write.failedAt).toLocaleString()}</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => onRetry(write.key)} className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50">
+                <RotateCcw className="w-3 h-3" /> Retry
+              </button>
+              <button onClick={() => onDiscard(write)} className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-md border border-red-200 text-red-700 hover:bg-red-100">
+                <Trash2 className="w-3 h-3" /> Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Siren, AlertTriangle, Phone } from 'lucide-react';
+import { TriageAlert } from '../types';
+import { EMERGENCY_NUMBER } from '../services/triageRules';
+
+interface EmergencyAlertModalProps {
+  alerts: TriageAlert[]; // Unacknowledged Emergency alerts
+  onAcknowledge: (ids: string[]) => void;
+}
+
+/**
+ * Blocks the app until the patient has read the emergency guidance.
+ */
+export const EmergencyAlertModal: React.FC<EmergencyAlertModalProps> = ({ alerts, onAcknowledge }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" role="alertdialog" aria-modal="true" aria-labelledby="emergency-title">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden">
+        <div className="bg-red-600 text-white p-5 flex items-center gap-3">
+          <Siren className="w-8 h-8 shrink-0" />
+          <div>
+            <h2 id="emergency-title" className="text-xl font-bold">Possible medical emergency</h2>
+            <p className="text-sm text-red-100">Based on what you logged, you may need urgent care.</p>
+          </div>
+        </div>
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto">
+          {alerts.map(alert => (
+            <div key={alert.id} className="border border-red-200 bg-red-50 rounded-lg p-4">
+              <p className="font-bold text-red-800">{alert.title}</p>
+              <p className="text-xs text-red-700 mt-0.5">Triggered by {alert.reason}</p>
+              <p className="text-sm text-gray-800 mt-2">{alert.guidance}</p>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            These alerts come from fixed safety rules, not from the AI. They cannot tell how you feel right now: if you are unsure, get help.
+          </p>
+        </div>
+        <div className="p-5 pt-0 flex flex-col sm:flex-row gap-3">
+          <a href={`tel:${EMERGENCY_NUMBER}`} className="flex-1 flex items-center justify-center gap-2 bg-red-600 text-white py-3 rounded-lg font-semibold hover:bg-red-700">
+            <Phone className="w-4 h-4" /> Call {EMERGENCY_NUMBER}
+          </a>
+          <button
+            onClick={() => onAcknowledge(alerts.map(a => a.id))}
+            className="flex-1 py-3 rounded-lg font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            I understand
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface TriageBannerProps {
+  alerts: TriageAlert[];
+}
+
+export const TriageBanner: React.FC<TriageBannerProps> = ({ alerts }) => {
+  if (alerts.length === 0) return null;
+  const emergency = alerts.some(a => a.level === 'Emergency');
+
+  return (
+    <div className={`mb-6 p-4 rounded-xl border ${emergency ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'}`}>
+      <p className={`text-sm font-bold flex items-center gap-2 ${emergency ? 'text-red-800' : 'text-orange-800'}`}>
+        {emergency ? <Siren className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+        {emergency ? 'Seek emergency care' : 'See a doctor today'}
+      </p>
+      <ul className="mt-2 space-y-2">
+        {alerts.map(alert => (
+          <li key={alert.id} className="text-sm text-gray-800">
+            <span className={`text-[10px] font-bold px-2 py-0.5 mr-2 rounded-full uppercase tracking-wide border ${
+              alert.level === 'Emergency' ? 'bg-red-100 text-red-800 border-red-200' : 'bg-orange-100 text-orange-800 border-orange-200'
+            }`}>
+              {alert.level}
+            </span>
+            <span className="font-medium">{alert.title}</span>
+            <span className="text-gray-500"> ({alert.reason})</span>
+            <p className="mt-0.5 text-gray-700">{alert.guidance}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,24 +1,119 @@
-import React from 'react';
-import { UploadCloud, Loader2, ScanEye, FileText, Wand2, ArrowRight, Download, AlertTriangle, ShieldCheck, CheckCircle2 } from 'lucide-react';
-import { UploadedFile } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadCloud, Loader2, ScanEye, FileText, Wand2, ArrowRight, Download, AlertTriangle, ShieldCheck, CheckCircle2, FlaskConical, RotateCcw, X, SlidersHorizontal } from 'lucide-react';
+import { UploadedFile, PreprocessingSettings } from '../types';
+import { UploadJob, UploadStage, UPLOAD_STAGE_LABELS } from '../services/uploadQueue';
 import { ImageAnnotator } from './ImageAnnotator';
+import { PdfViewer } from './PdfViewer';
+import { DicomViewer } from './DicomViewer';
+import { PreprocessingControls, PreprocessingPanel } from './PreprocessingPanel';
+import { describePreprocessing } from '../services/imagePreprocessing';
+import { DICOM_MIME_TYPE } from '../services/dicomService';
+import { getReportImageUrl } from '../services/firebaseService';
+
+// Rough position of each stage in the pipeline, for the job progress bars
+const STAGE_PROGRESS: Record<UploadStage, number> = {
+  queued: 0,
+  reading: 10,
+  enhancing: 30,
+  analyzing: 60,
+  saving: 90,
+  failed: 0,
+  cancelled: 0,
+};
 
 interface UploadReportProps {
   files: UploadedFile[];
-  isUploading: boolean;
-  processingStatus: string;
-  onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  jobs: UploadJob[];
+  onFilesSelected: (files: File[]) => void;
+  onCancelJob: (id: string) => void;
+  onRetryJob: (id: string) => void;
+  onDismissJob: (id: string) => void;
+  onRetryReport?: (file: UploadedFile) => void; // Reprocesses a saved report that failed
+  preprocessing: PreprocessingSettings; // Applied to new uploads
+  onPreprocessingChange: (settings: PreprocessingSettings) => void;
+  onReprocessReport?: (file: UploadedFile, settings: PreprocessingSettings) => void;
+  onExtractLabs?: (file: UploadedFile) => void;
+  extractingLabsFor?: string | null; // Id of the report being read
+  hasMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export const UploadReport: React.FC<UploadReportProps> = ({
   files,
-  isUploading,
-  processingStatus,
-  onFileUpload
+  jobs,
+  onFilesSelected,
+  onCancelJob,
+  onRetryJob,
+  onDismissJob,
+  onRetryReport,
+  preprocessing,
+  onPreprocessingChange,
+  onReprocessReport,
+  onExtractLabs,
+  extractingLabsFor,
+  hasMore,
+  onLoadMore
 }) => {
+  // Download URLs for images kept in Firebase Storage, keyed by path
+  const [storageUrls, setStorageUrls] = useState<Record<string, string>>({});
+  // Paths already resolved or in flight, so each one is only requested once
+  const requestedPaths = useRef(new Set<string>());
+  // Page shown in each PDF report's viewer, keyed by report id
+  const [pdfPages, setPdfPages] = useState<Record<string, number>>({});
+  const showPdfPage = (fileId: string, page: number) => setPdfPages(prev => ({ ...prev, [fileId]: page }));
+  // Frame shown in each DICOM report's viewer, keyed by report id
+  const [dicomFrames, setDicomFrames] = useState<Record<string, number>>({});
+  const showDicomFrame = (fileId: string, frame: number) => setDicomFrames(prev => ({ ...prev, [fileId]: frame }));
+  const [isDragging, setIsDragging] = useState(false);
+  // Report whose preprocessing panel is open
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFilesSelected(Array.from(e.target.files || []));
+    e.target.value = ''; // Lets the same file be picked again
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    onFilesSelected(Array.from(e.dataTransfer.files));
+  };
+
+  const isProcessing = (fileId: string) => jobs.some(job => job.id === fileId && !['failed', 'cancelled'].includes(job.stage));
+
+  useEffect(() => {
+    // Reprocessing drops a report's processed path until the new image is uploaded over
+    // it, which gives it a new URL; forgetting paths no report uses makes that one fetched again
+    const referenced = new Set<string>(files.flatMap(f => [f.originalPath, f.processedPath]).filter((path): path is string => !!path));
+    requestedPaths.current.forEach(path => {
+      if (!referenced.has(path)) requestedPaths.current.delete(path);
+    });
+    setStorageUrls(prev => (Object.keys(prev).some(path => !referenced.has(path))
+      ? Object.fromEntries(Object.entries(prev).filter(([path]) => referenced.has(path)))
+      : prev));
+
+    const paths = Array.from(referenced).filter(path => !requestedPaths.current.has(path));
+    paths.forEach(path => {
+      requestedPaths.current.add(path);
+      getReportImageUrl(path)
+        .then(url => {
+          // Not if the path was dropped while the request was out
+          if (requestedPaths.current.has(path)) setStorageUrls(prev => ({ ...prev, [path]: url }));
+        })
+        .catch(e => {
+          console.error("Failed to load report image", e);
+          requestedPaths.current.delete(path); // Tried again on the next change
+        });
+    });
+  }, [files]);
+
+  const originalUrl = (file: UploadedFile) =>
+    (file.originalPath && storageUrls[file.originalPath]) || file.previewUrl;
+  const processedUrl = (file: UploadedFile) =>
+    (file.processedPath && storageUrls[file.processedPath]) || file.processedUrl;
 
   const downloadAnnotatedImage = async (file: UploadedFile) => {
-    const imageUrl = file.processedUrl || file.previewUrl;
+    const imageUrl = processedUrl(file) || originalUrl(file);
     if (!imageUrl || !file.analysisResult) return;
 
     const canvas = document.createElement('canvas');
@@ -83,64 +178,174 @@ export const UploadReport: React.FC<UploadReportProps> = ({
       </div>
       
       {/* Upload Zone */}
-      <div className="relative overflow-hidden rounded-3xl border-2 border-dashed border-brand-200 bg-white hover:border-brand-400 hover:bg-brand-50/50 transition-all duration-300 group cursor-pointer shadow-sm hover:shadow-md">
-         <input type="file" id="fileUpload" className="hidden" accept="image/*,.pdf" onChange={onFileUpload} disabled={isUploading} />
+      <div
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`relative overflow-hidden rounded-3xl border-2 border-dashed transition-all duration-300 group cursor-pointer shadow-sm hover:shadow-md ${isDragging ? 'border-brand-500 bg-brand-50' : 'border-brand-200 bg-white hover:border-brand-400 hover:bg-brand-50/50'}`}
+      >
+         <input type="file" id="fileUpload" className="hidden" accept="image/*,.pdf,.dcm,.dicom,application/dicom" multiple onChange={handleInputChange} />
          <label htmlFor="fileUpload" className="cursor-pointer flex flex-col items-center justify-center w-full h-full p-12">
-            {isUploading ? (
-              <div className="flex flex-col items-center py-6">
-                <div className="relative">
-                  <div className="w-20 h-20 border-4 border-brand-100 border-t-brand-600 rounded-full animate-spin"></div>
-                  <Loader2 className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-8 h-8 text-brand-600 animate-pulse" />
-                </div>
-                <span className="mt-6 text-xl font-semibold text-brand-700 animate-pulse">{processingStatus}</span>
-                <p className="text-sm text-brand-500 mt-2">This usually takes 5-10 seconds</p>
-              </div>
-            ) : (
-              <div className="flex flex-col items-center gap-4">
-                 <div className="w-24 h-24 bg-brand-50 rounded-full flex items-center justify-center group-hover:scale-110 group-hover:bg-brand-100 transition-all duration-300">
-                   <UploadCloud className="w-12 h-12 text-brand-600" />
-                 </div>
-                 <div className="text-center space-y-1">
-                   <h3 className="text-2xl font-bold text-gray-900">Click to upload scan</h3>
-                   <p className="text-gray-500 font-medium">Supported formats: JPG, PNG, PDF</p>
-                 </div>
-                 <div className="mt-4 flex gap-8 text-sm text-gray-400">
-                    <span className="flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> HIPAA Compliant</span>
-                    <span className="flex items-center gap-1"><Wand2 className="w-4 h-4" /> AI Enhanced</span>
-                 </div>
-              </div>
-            )}
+            <div className="flex flex-col items-center gap-4">
+               <div className="w-24 h-24 bg-brand-50 rounded-full flex items-center justify-center group-hover:scale-110 group-hover:bg-brand-100 transition-all duration-300">
+                 <UploadCloud className="w-12 h-12 text-brand-600" />
+               </div>
+               <div className="text-center space-y-1">
+                 <h3 className="text-2xl font-bold text-gray-900">{isDragging ? 'Drop to upload' : 'Click or drag scans here'}</h3>
+                 <p className="text-gray-500 font-medium">Supported formats: JPG, PNG, PDF, DICOM · several files at once</p>
+               </div>
+               <div className="mt-4 flex gap-8 text-sm text-gray-400">
+                  <span className="flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> HIPAA Compliant</span>
+                  <span className="flex items-center gap-1"><Wand2 className="w-4 h-4" /> AI Enhanced</span>
+               </div>
+            </div>
          </label>
       </div>
 
+      <details className="bg-white rounded-3xl border border-gray-100 shadow-sm group/settings">
+        <summary className="cursor-pointer px-6 py-4 flex items-center gap-2 text-sm font-bold text-gray-700">
+          <SlidersHorizontal className="w-4 h-4 text-brand-600" /> Image preprocessing for new uploads
+          <span className="font-normal text-gray-400">· runs on this device before analysis</span>
+        </summary>
+        <div className="px-6 pb-6">
+          <PreprocessingControls settings={preprocessing} onChange={onPreprocessingChange} />
+        </div>
+      </details>
+
+      {/* Upload Jobs */}
+      {jobs.length > 0 && (
+        <div className="bg-white rounded-3xl border border-gray-100 shadow-sm divide-y divide-gray-100">
+          {jobs.map(job => {
+            const stopped = job.stage === 'failed' || job.stage === 'cancelled';
+            return (
+              <div key={job.id} className="flex items-center gap-4 px-6 py-4">
+                <div className={`p-2 rounded-xl ${job.stage === 'failed' ? 'bg-red-50 text-red-600' : 'bg-brand-50 text-brand-600'}`}>
+                  {job.stage === 'failed' ? <AlertTriangle className="w-5 h-5" />
+                    : stopped ? <X className="w-5 h-5" />
+                    : job.stage === 'queued' ? <UploadCloud className="w-5 h-5" />
+                    : <Loader2 className="w-5 h-5 animate-spin" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="font-bold text-gray-900 truncate">{job.name}</p>
+                    <span className={`text-xs font-bold shrink-0 ${job.stage === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                      {job.detail || UPLOAD_STAGE_LABELS[job.stage]}
+                    </span>
+                  </div>
+                  {job.stage === 'failed' ? (
+                    <p className="text-xs text-red-600 mt-1">{job.error}</p>
+                  ) : !stopped && (
+                    <div className="h-1.5 bg-gray-100 rounded-full mt-2 overflow-hidden">
+                      <div className="h-full bg-brand-500 rounded-full transition-all duration-500" style={{ width: `${STAGE_PROGRESS[job.stage]}%` }} />
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {stopped ? (
+                    <>
+                      <button onClick={() => onRetryJob(job.id)} className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-lg" title="Retry">
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => onDismissJob(job.id)} className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg" title="Dismiss">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <button onClick={() => onCancelJob(job.id)} className="px-3 py-1.5 text-xs font-bold text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg">
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <div className="space-y-10">
-         {files.map(file => (
+         {files.map(file => {
+           const original = originalUrl(file);
+           const processed = processedUrl(file);
+           return (
            <div key={file.id} className="bg-white rounded-3xl shadow-xl shadow-gray-200/50 border border-gray-100 overflow-hidden transition-all hover:shadow-2xl hover:shadow-gray-200/60">
               
               {/* Header Info */}
               <div className="flex flex-col md:flex-row md:items-center justify-between p-6 md:p-8 bg-gradient-to-r from-gray-50 to-white border-b border-gray-100 gap-4">
                  <div className="flex items-center gap-5">
                     <div className="p-4 bg-white rounded-2xl shadow-sm border border-gray-100 text-brand-600">
-                      {file.type.includes('image') ? <ScanEye className="w-8 h-8" /> : <FileText className="w-8 h-8" />}
+                      {file.type.includes('image') || file.dicom ? <ScanEye className="w-8 h-8" /> : <FileText className="w-8 h-8" />}
                     </div>
                     <div>
                        <h4 className="text-xl font-bold text-gray-900 leading-tight">{file.name}</h4>
-                       <p className="text-sm text-gray-500 mt-1 font-medium">{new Date(file.date).toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' })}</p>
+                       <p className="text-sm text-gray-500 mt-1 font-medium">
+                         {new Date(file.date).toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' })}
+                         {file.pageCount && ` · ${file.pageCount} page${file.pageCount === 1 ? '' : 's'}`}
+                         {file.dicom && ` · ${file.dicom.modality}${file.dicom.frameCount > 1 ? `, ${file.dicom.frameCount} frames` : ''}`}
+                       </p>
                     </div>
                  </div>
                  <div className="flex items-center gap-3">
-                    {file.processedUrl && (
+                    {onExtractLabs && file.type !== DICOM_MIME_TYPE && (file.originalPath || file.previewUrl) && (
+                      <button
+                        onClick={() => onExtractLabs(file)}
+                        disabled={!!extractingLabsFor}
+                        className="flex items-center gap-2 px-4 py-2 bg-white text-brand-700 rounded-full text-sm font-bold border border-brand-200 shadow-sm hover:bg-brand-50 disabled:opacity-50"
+                      >
+                        {extractingLabsFor === file.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                        {extractingLabsFor === file.id ? 'Reading values...' : 'Extract lab values'}
+                      </button>
+                    )}
+                    {onReprocessReport && file.type.includes('image') && original && (
+                      <button
+                        onClick={() => setAdjustingId(adjustingId === file.id ? null : file.id)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white text-gray-700 rounded-full text-sm font-bold border border-gray-200 shadow-sm hover:bg-gray-50"
+                      >
+                        <SlidersHorizontal className="w-4 h-4" /> Adjust
+                      </button>
+                    )}
+                    {(file.processedPath || file.processedUrl) && (
                       <span className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-full text-sm font-bold border border-indigo-100 shadow-sm">
-                        <Wand2 className="w-4 h-4" /> AI Enhanced
+                        <Wand2 className="w-4 h-4" /> {!file.preprocessing || file.preprocessing.aiEnhanced ? 'AI Enhanced' : 'Preprocessed'}
                       </span>
                     )}
-                    <span className={`px-4 py-2 rounded-full text-sm font-bold uppercase tracking-wide border shadow-sm ${file.analysisResult ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-gray-100 text-gray-600 border-gray-200'}`}>
-                      {file.analysisResult ? 'Analyzed' : 'Pending'}
+                    <span className={`px-4 py-2 rounded-full text-sm font-bold uppercase tracking-wide border shadow-sm ${file.processingError ? 'bg-red-50 text-red-700 border-red-200' : file.analysisResult ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-gray-100 text-gray-600 border-gray-200'}`}>
+                      {file.processingError ? 'Failed' : file.analysisResult ? 'Analyzed' : 'Pending'}
                     </span>
                  </div>
               </div>
 
+              {file.processingError && (
+                <div className="flex items-center justify-between gap-4 px-6 md:px-8 py-4 bg-red-50 border-b border-red-100 text-red-800 text-sm">
+                  <p className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="w-4 h-4 shrink-0 text-red-600" /> Processing failed: {file.processingError}
+                  </p>
+                  {onRetryReport && (
+                    <button
+                      onClick={() => onRetryReport(file)}
+                      disabled={isProcessing(file.id)}
+                      className="flex items-center gap-2 px-4 py-2 bg-white text-red-700 rounded-full text-xs font-bold border border-red-200 hover:bg-red-100 disabled:opacity-50 shrink-0"
+                    >
+                      {isProcessing(file.id) ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                      {isProcessing(file.id) ? 'Retrying...' : 'Retry'}
+                    </button>
+                  )}
+                </div>
+              )}
+
               <div className="p-6 md:p-10 space-y-12">
+                {adjustingId === file.id && onReprocessReport && original && (
+                  <PreprocessingPanel
+                    imageUrl={original}
+                    record={file.preprocessing}
+                    busy={isProcessing(file.id)}
+                    onApply={settings => {
+                      onReprocessReport(file, settings);
+                      setAdjustingId(null);
+                    }}
+                    onClose={() => setAdjustingId(null)}
+                  />
+                )}
+
                 {/* Visual Pipeline */}
                 {file.type.includes('image') && (
                   <div className="space-y-8">
@@ -154,8 +359,8 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                             <span className="text-xs font-bold bg-gray-100 text-gray-600 px-2 py-1 rounded">Raw</span>
                         </div>
                         <div className="relative aspect-[4/3] bg-gray-100 rounded-2xl overflow-hidden border border-gray-200 shadow-inner">
-                          {file.previewUrl ? (
-                            <img src={file.previewUrl} alt="Original" className="w-full h-full object-contain mix-blend-multiply opacity-80 group-hover:opacity-100 transition-opacity duration-300" />
+                          {original ? (
+                            <img src={original} alt="Original" className="w-full h-full object-contain mix-blend-multiply opacity-80 group-hover:opacity-100 transition-opacity duration-300" />
                           ) : <div className="w-full h-full flex items-center justify-center text-gray-400 text-sm font-medium">No Preview</div>}
                         </div>
                       </div>
@@ -169,16 +374,18 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                       {/* Processed */}
                       <div className="space-y-3 group">
                         <div className="flex items-center justify-between">
-                            <span className="text-xs font-bold text-brand-600 uppercase tracking-wider">AI Processing</span>
-                            <span className="text-xs font-bold bg-brand-50 text-brand-600 px-2 py-1 rounded">Denoised & Cropped</span>
+                            <span className="text-xs font-bold text-brand-600 uppercase tracking-wider">{file.preprocessing ? 'Analysis Input' : 'AI Processing'}</span>
+                            <span className="text-xs font-bold bg-brand-50 text-brand-600 px-2 py-1 rounded">
+                              {file.preprocessing ? describePreprocessing(file.preprocessing) : 'Denoised & Cropped'}
+                            </span>
                         </div>
                         <div className="relative aspect-[4/3] bg-gray-900 rounded-2xl overflow-hidden border-2 border-brand-100 shadow-lg ring-4 ring-brand-50">
-                          {file.processedUrl ? (
-                            <img src={file.processedUrl} alt="Processed" className="w-full h-full object-contain" />
+                          {processed ? (
+                            <img src={processed} alt="Processed" className="w-full h-full object-contain" />
                           ) : (
                              <div className="w-full h-full flex flex-col items-center justify-center text-gray-500 gap-2">
                                 <ScanEye className="w-8 h-8 opacity-50" />
-                                <span className="text-sm font-medium">Processing...</span>
+                                <span className="text-sm font-medium">{file.processingError ? 'Not processed' : file.analysisResult ? 'Analyzed as uploaded' : 'Processing...'}</span>
                              </div>
                           )}
                           {/* Overlay Gradient */}
@@ -208,8 +415,8 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                         </div>
                         
                         <div className="min-h-[500px] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
-                             {(file.processedUrl || file.previewUrl) ? (
-                                    <ImageAnnotator imageUrl={file.processedUrl || file.previewUrl || ''} findings={file.analysisResult?.findings || []} />
+                             {(processed || original) ? (
+                                    <ImageAnnotator imageUrl={processed || original || ''} findings={file.analysisResult?.findings || []} />
                                 ) : (
                                     <div className="text-gray-500 flex flex-col items-center">
                                         <Loader2 className="w-8 h-8 animate-spin mb-2" />
@@ -222,6 +429,29 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                   </div>
                 )}
 
+                {/* Paged PDF Viewer */}
+                {file.type === 'application/pdf' && (
+                  <PdfViewer
+                    url={original}
+                    pageCount={file.pageCount}
+                    pages={file.pages}
+                    findings={file.analysisResult?.findings || []}
+                    page={pdfPages[file.id] ?? 1}
+                    onPageChange={page => showPdfPage(file.id, page)}
+                  />
+                )}
+
+                {/* DICOM Viewer */}
+                {file.type === DICOM_MIME_TYPE && file.dicom && (
+                  <DicomViewer
+                    url={original}
+                    info={file.dicom}
+                    findings={file.analysisResult?.findings || []}
+                    frame={dicomFrames[file.id] ?? file.dicom.analyzedFrames[0] ?? 1}
+                    onFrameChange={frame => showDicomFrame(file.id, frame)}
+                  />
+                )}
+
                 {/* Analysis Report Text */}
                 {file.analysisResult && (
                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 pt-8 border-t border-gray-100">
@@ -231,7 +461,7 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                                 <h6 className="text-sm font-bold text-gray-900 uppercase tracking-wider mb-4 flex items-center gap-2">
                                     <FileText className="w-4 h-4 text-brand-500" /> Executive Summary
                                 </h6>
-                                <div className="bg-gray-50 p-6 rounded-2xl border border-gray-100 text-gray-700 leading-relaxed text-sm shadow-inner">
+                                <div className="bg-gray-50 p-6 rounded-2xl border border-gray-100 text-gray-700 leading-relaxed text-sm shadow-inner whitespace-pre-line">
                                     {file.analysisResult.summary}
                                 </div>
                              </div>
@@ -258,6 +488,24 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                                                         {idx + 1}
                                                     </span>
                                                     <span className="font-bold text-gray-900 group-hover:text-brand-700 transition-colors">{finding.label}</span>
+                                                    {finding.page && (
+                                                        <button
+                                                            onClick={() => showPdfPage(file.id, finding.page!)}
+                                                            className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 hover:bg-brand-50 hover:text-brand-700"
+                                                            title="Show this page"
+                                                        >
+                                                            Page {finding.page}
+                                                        </button>
+                                                    )}
+                                                    {finding.frame && file.dicom && file.dicom.frameCount > 1 && (
+                                                        <button
+                                                            onClick={() => showDicomFrame(file.id, finding.frame!)}
+                                                            className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 hover:bg-brand-50 hover:text-brand-700"
+                                                            title="Show this frame"
+                                                        >
+                                                            Frame {finding.frame}
+                                                        </button>
+                                                    )}
                                                 </div>
                                                 <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase tracking-wide border ${
                                                     finding.confidence.toLowerCase().includes('high') 
@@ -284,7 +532,13 @@ export const UploadReport: React.FC<UploadReportProps> = ({
                 )}
               </div>
            </div>
-         ))}
+           );
+         })}
+         {hasMore && onLoadMore && (
+           <button onClick={onLoadMore} className="w-full py-3 text-sm font-bold text-brand-600 bg-white rounded-2xl border border-gray-200 hover:bg-brand-50">
+             Load older reports
+           </button>
+         )}
       </div>
     </div>
   );
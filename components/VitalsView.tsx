@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip as RechartsTooltip, ReferenceLine } from 'recharts';
+import { Plus, Trash2 } from 'lucide-react';
+import { VitalReading, VitalType, VitalBandLevel, PatientProfile, GlucoseContext } from '../types';
+import {
+  VITALS,
+  VITAL_TYPES,
+  GLUCOSE_CONTEXTS,
+  convertVital,
+  formatReading,
+  validateReading,
+  classifyReading,
+  targetRange,
+} from '../services/vitalsService';
+
+interface VitalsViewProps {
+  readings: VitalReading[];
+  profile: PatientProfile;
+  onAdd: (reading: VitalReading) => Promise<void> | void;
+  onDelete: (id: string) => Promise<void> | void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+export const bandStyles: Record<VitalBandLevel, string> = {
+  critical: 'bg-red-100 text-red-800 border-red-200',
+  high: 'bg-orange-100 text-orange-800 border-orange-200',
+  elevated: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  low: 'bg-blue-100 text-blue-800 border-blue-200',
+  normal: 'bg-green-100 text-green-800 border-green-200',
+};
+
+const BandBadge: React.FC<{ level: VitalBandLevel; label: string }> = ({ level, label }) => (
+  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wide border ${bandStyles[level]}`}>
+    {label}
+  </span>
+);
+
+// datetime-local wants local time without a zone
+const localNow = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const VitalsView: React.FC<VitalsViewProps> = ({ readings, profile, onAdd, onDelete, hasMore, onLoadMore }) => {
+  const [type, setType] = useState<VitalType>('bloodPressure');
+  const [chartType, setChartType] = useState<VitalType>('bloodPressure');
+
+  const sorted = [...readings].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  const latestOf = (t: VitalType) => sorted.find(r => r.type === t);
+  // New readings and charts default to the unit the patient last used
+  const preferredUnit = (t: VitalType) => latestOf(t)?.unit ?? VITALS[t].units[0];
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    // Optional fields are only set when filled, since Firestore rejects undefined values
+    const reading: VitalReading = {
+      id: Date.now().toString(),
+      type,
+      takenAt: new Date(formData.get('takenAt') as string).toISOString(),
+      value: Number(formData.get('value')),
+      unit: (formData.get('unit') as string) || VITALS[type].units[0],
+    };
+    if (type === 'bloodPressure') reading.diastolic = Number(formData.get('diastolic'));
+    if (type === 'glucose') reading.context = formData.get('context') as GlucoseContext;
+    const notes = ((formData.get('notes') as string) || '').trim();
+    if (notes) reading.notes = notes;
+
+    const error = validateReading(reading);
+    if (error) {
+      alert(error);
+      return;
+    }
+    onAdd(reading);
+    setChartType(type);
+    form.reset();
+  };
+
+  const chartUnit = preferredUnit(chartType);
+  const chartData = sorted
+    .filter(r => r.type === chartType)
+    .reverse()
+    .map(r => ({
+      date: new Date(r.takenAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      value: convertVital(r.value, r.unit, chartUnit),
+      diastolic: r.diastolic,
+    }));
+  const target = targetRange(chartType, chartUnit, profile);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Vitals</h2>
+
+      {/* Latest readings */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {VITAL_TYPES.map(t => {
+          const latest = latestOf(t);
+          const band = latest && classifyReading(latest, profile);
+          return (
+            <button
+              key={t}
+              onClick={() => setChartType(t)}
+              className={`text-left bg-white p-4 rounded-xl shadow-sm border ${chartType === t ? 'border-brand-500 ring-1 ring-brand-500' : 'border-gray-100'}`}
+            >
+              <p className="text-xs text-gray-500 uppercase font-medium">{VITALS[t].label}</p>
+              <p className="text-xl font-bold text-gray-900 mt-1">{latest ? formatReading(latest) : '--'}</p>
+              {band && <div className="mt-2"><BandBadge level={band.level} label={band.label} /></div>}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Entry form */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-medium text-gray-800 mb-4">Record a Reading</h3>
+        <form key={type} onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-7 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Vital</label>
+            <select value={type} onChange={e => setType(e.target.value as VitalType)} className="w-full border border-gray-300 rounded-lg p-2">
+              {VITAL_TYPES.map(t => <option key={t} value={t}>{VITALS[t].label}</option>)}
+            </select>
+          </div>
+          {type === 'bloodPressure' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Systolic</label>
+                <input name="value" type="number" required placeholder="120" className="w-full border border-gray-300 rounded-lg p-2" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Diastolic</label>
+                <input name="diastolic" type="number" required placeholder="80" className="w-full border border-gray-300 rounded-lg p-2" />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Value</label>
+                <input name="value" type="number" step="any" required className="w-full border border-gray-300 rounded-lg p-2" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                <select name="unit" defaultValue={preferredUnit(type)} className="w-full border border-gray-300 rounded-lg p-2">
+                  {VITALS[type].units.map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+              </div>
+            </>
+          )}
+          {type === 'glucose' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">When</label>
+              <select name="context" defaultValue="fasting" className="w-full border border-gray-300 rounded-lg p-2">
+                {GLUCOSE_CONTEXTS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Taken at</label>
+            <input name="takenAt" type="datetime-local" required defaultValue={localNow()} className="w-full border border-gray-300 rounded-lg p-2" />
+          </div>
+          <div className={type === 'glucose' ? '' : 'md:col-span-2'}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input name="notes" placeholder="Optional" className="w-full border border-gray-300 rounded-lg p-2" />
+          </div>
+          <button type="submit" className="bg-brand-600 text-white py-2 rounded-lg hover:bg-brand-700 flex items-center justify-center gap-2">
+            <Plus className="w-4 h-4" /> Save
+          </button>
+        </form>
+      </div>
+
+      {/* Trend */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex justify-between items-baseline mb-4">
+          <h3 className="text-lg font-medium text-gray-800">{VITALS[chartType].label} Trend</h3>
+          {target && <span className="text-xs text-gray-500">Target band {target[0]}-{target[1]} {chartUnit}{chartType === 'bloodPressure' ? ' systolic' : ''}</span>}
+        </div>
+        {chartData.length === 0 ? (
+          <p className="text-sm text-gray-400 py-10 text-center">No {VITALS[chartType].label.toLowerCase()} readings yet.</p>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                <YAxis tick={{ fontSize: 10 }} width={40} domain={['auto', 'auto']} />
+                <RechartsTooltip formatter={(value) => `${value} ${chartUnit}`} />
+                {target && target.map((y, i) => (
+                  <ReferenceLine key={i} y={y} stroke="#22c55e" strokeDasharray="4 4" label={{ value: i === 0 ? 'Target min' : 'Target max', position: 'insideTopLeft', fontSize: 10, fill: '#16a34a' }} />
+                ))}
+                <Line type="monotone" dataKey="value" name={chartType === 'bloodPressure' ? 'Systolic' : VITALS[chartType].label} stroke="#0d9488" strokeWidth={2} dot={{ r: 3 }} />
+                {chartType === 'bloodPressure' && (
+                  <Line type="monotone" dataKey="diastolic" name="Diastolic" stroke="#6366f1" strokeWidth={2} dot={{ r: 3 }} />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full text-left">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Taken</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Reading</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Range</th>
+              <th className="p-4 text-xs font-medium text-gray-500 uppercase">Notes</th>
+              <th className="p-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sorted.filter(r => r.type === chartType).map(r => {
+              const band = classifyReading(r, profile);
+              const context = GLUCOSE_CONTEXTS.find(c => c.value === r.context)?.label;
+              return (
+                <tr key={r.id} className="hover:bg-gray-50">
+                  <td className="p-4 text-sm text-gray-600">{new Date(r.takenAt).toLocaleString()}</td>
+                  <td className="p-4 font-medium text-gray-900">
+                    {formatReading(r)}
+                    {context && <span className="text-xs text-gray-500 ml-2">{context}</span>}
+                  </td>
+                  <td className="p-4"><BandBadge level={band.level} label={band.label} /></td>
+                  <td className="p-4 text-sm text-gray-500">{r.notes}</td>
+                  <td className="p-4 text-right">
+                    <button
+                      onClick={() => confirm('Delete this reading?') && onDelete(r.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {hasMore && onLoadMore && (
+          <button onClick={onLoadMore} className="w-full py-3 text-sm font-medium text-brand-600 hover:bg-brand-50 border-t border-gray-100">
+            Load older readings
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+
+/**
+ * Access rules for patient documents and their health data. Runs against the
+ * Firestore emulator: `npm run test:rules`.
+ */
+
+const PROJECT_ID = 'demo-mediquest';
+
+let testEnv: RulesTestEnvironment;
+
+// alice owns her own document and a dependent's; carol is her caregiver, mallory a stranger
+const self = () => testEnv.authenticatedContext('alice', { email: 'alice@example.com', email_verified: true }).firestore();
+const caregiver = () => testEnv.authenticatedContext('carol', { email: 'Carol@Example.com', email_verified: true }).firestore();
+const unverifiedCaregiver = () => testEnv.authenticatedContext('carol', { email: 'carol@example.com', email_verified: false }).firestore();
+const stranger = () => testEnv.authenticatedContext('mallory', { email: 'mallory@example.com', email_verified: true }).firestore();
+const signedOut = () => testEnv.unauthenticatedContext().firestore();
+
+const profile = (name: string) => ({ name, age: 40, gender: 'Female', allergies: [] });
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(() => testEnv?.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    await db.doc('patients/alice').set({ ownerId: 'alice', relationship: 'Self', caregiverEmails: ['carol@example.com'], profile: profile('Alice'), schemaVersion: 2 });
+    await db.doc('patients/dependent').set({ ownerId: 'alice', relationship: 'Child', caregiverEmails: ['carol@example.com'], profile: profile('Sam'), schemaVersion: 2 });
+    await db.doc('patients/alice/medications/m1').set({ id: 'm1', name: 'Metformin', dosage: '500mg', active: true });
+    await db.doc('patients/dependent/symptoms/s1').set({ id: 's1', symptom: 'Cough', severity: 3 });
+  });
+});
+
+describe('patient documents', () => {
+  it('can be read by the account holder, the owner and a verified caregiver', async () => {
+    await assertSucceeds(self().doc('patients/alice').get());
+    await assertSucceeds(self().doc('patients/dependent').get());
+    await assertSucceeds(caregiver().doc('patients/alice').get());
+    await assertSucceeds(caregiver().doc('patients/dependent').get());
+  });
+
+  it('cannot be read by an unverified caregiver, a stranger or a signed-out user', async () => {
+    await assertFails(unverifiedCaregiver().doc('patients/alice').get());
+    await assertFails(stranger().doc('patients/alice').get());
+    await assertFails(stranger().doc('patients/dependent').get());
+    await assertFails(signedOut().doc('patients/alice').get());
+  });
+
+  it('can only be created as owned by the creator', async () => {
+    await assertSucceeds(stranger().doc('patients/mallory').set({ ownerId: 'mallory', relationship: 'Self', caregiverEmails: [], profile: profile('Mallory') }));
+    await assertSucceeds(stranger().doc('patients/new-dependent').set({ ownerId: 'mallory', relationship: 'Parent', caregiverEmails: [], profile: profile('Pat') }));
+    await assertFails(stranger().doc('patients/planted').set({ ownerId: 'alice', relationship: 'Child', caregiverEmails: [], profile: profile('Pat') }));
+  });
+
+  it('can be updated by the account holder and the owner, but not by others', async () => {
+    await assertSucceeds(self().doc('patients/alice').update({ profile: profile('Alice B') }));
+    await assertSucceeds(self().doc('patients/dependent').update({ caregiverEmails: [] }));
+    await assertFails(unverifiedCaregiver().doc('patients/alice').update({ profile: profile('Changed') }));
+    await assertFails(stranger().doc('patients/alice').update({ profile: profile('Changed') }));
+  });
+
+  it('can only be deleted by the owner of a dependent', async () => {
+    await assertFails(caregiver().doc('patients/dependent').delete());
+    await assertFails(self().doc('patients/alice').delete());
+    await assertSucceeds(self().doc('patients/dependent').delete());
+  });
+});
+
+describe('caregiver updates', () => {
+  it('may change health data', async () => {
+    await assertSucceeds(caregiver().doc('patients/alice').update({ profile: profile('Alice B') }));
+    await assertSucceeds(caregiver().doc('patients/dependent').update({ schemaVersion: 3, medications: [] }));
+  });
+
+  it('may not change ownership or sharing', async () => {
+    await assertFails(caregiver().doc('patients/alice').update({ ownerId: 'carol' }));
+    await assertFails(caregiver().doc('patients/alice').update({ caregiverEmails: ['carol@example.com', 'mallory@example.com'] }));
+    await assertFails(caregiver().doc('patients/dependent').update({ relationship: 'Self' }));
+    await assertFails(caregiver().doc('patients/alice').update({ profile: profile('Alice B'), ownerId: 'carol' }));
+  });
+});
+
+describe('ownerId', () => {
+  it('cannot be changed by the owner', async () => {
+    await assertFails(self().doc('patients/dependent').update({ ownerId: 'mallory' }));
+    await assertFails(self().doc('patients/alice').update({ ownerId: 'mallory' }));
+  });
+
+  it('can be claimed on a legacy document that has none', async () => {
+    await testEnv.withSecurityRulesDisabled(context =>
+      context.firestore().doc('patients/legacy').set({ profile: profile('Lee') })
+    );
+    const legacyOwner = testEnv.authenticatedContext('legacy').firestore();
+    await assertSucceeds(legacyOwner.doc('patients/legacy').update({ ownerId: 'legacy', caregiverEmails: [] }));
+    await assertFails(stranger().doc('patients/legacy').update({ ownerId: 'mallory' }));
+  });
+});
+
+describe('health data subcollections', () => {
+  it('can be read and written by the account holder, the owner and a verified caregiver', async () => {
+    await assertSucceeds(self().doc('patients/alice/medications/m1').get());
+    await assertSucceeds(self().doc('patients/dependent/symptoms/s2').set({ id: 's2', symptom: 'Fever', severity: 5 }));
+    await assertSucceeds(caregiver().collection('patients/alice/medications').get());
+    await assertSucceeds(caregiver().doc('patients/dependent/symptoms/s1').delete());
+  });
+
+  it('cannot be read or written by an unverified caregiver or a stranger', async () => {
+    await assertFails(unverifiedCaregiver().doc('patients/alice/medications/m1').get());
+    await assertFails(unverifiedCaregiver().doc('patients/alice/medications/m2').set({ id: 'm2', name: 'Aspirin' }));
+    await assertFails(stranger().collection('patients/dependent/symptoms').get());
+    await assertFails(stranger().doc('patients/alice/medications/m1').delete());
+    await assertFails(signedOut().doc('patients/alice/medications/m1').get());
+  });
+
+  it('are limited to the known collections', async () => {
+    await assertFails(self().doc('patients/alice/notes/n1').set({ text: 'hidden' }));
+  });
+});
@@ -12,4 +12,19 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Installable PWA: the worker caches the app shell and viewed report images.
+// Skipped during development so Vite's module reloading is never served from cache.
+if ('serviceWorker' in navigator && process.env.ENABLE_SERVICE_WORKER) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        // Resources fetched before the worker took control still need caching
+        const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+        registration.active?.postMessage({ type: 'CACHE_URLS', urls: [location.href, ...urls] });
+      })
+      .catch((error) => console.error("Service worker registration failed", error));
+  });
+}
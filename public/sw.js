@@ -0,0 +1,94 @@
+// MediQuest service worker: keeps the app shell and viewed report images available offline.
+// Bump the version to drop old caches after changing what is cached.
+const VERSION = 'v1';
+const SHELL_CACHE = `mediquest-shell-${VERSION}`;
+const REPORTS_CACHE = `mediquest-reports-${VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+
+// Third-party hosts the shell loads from (import map modules, Tailwind, fonts)
+const SHELL_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const isShellRequest = (url) =>
+  url.origin === self.location.origin || SHELL_HOSTS.includes(url.hostname);
+
+// Firebase Storage download URLs, including the local emulator
+const isReportImage = (url) =>
+  url.hostname === 'firebasestorage.googleapis.com' || (url.port === '9199' && url.pathname.startsWith('/v0/b/'));
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('mediquest-') && ![SHELL_CACHE, REPORTS_CACHE].includes(key)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends the resources it loaded before the worker took control
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+  const urls = event.data.urls.filter((href) => isShellRequest(new URL(href)));
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) =>
+    Promise.all(urls.map((href) => cache.add(href).catch(() => {})))
+  ));
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+// Storage objects never change under a given download token, so the cache is authoritative
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+  } else if (isReportImage(url)) {
+    event.respondWith(cacheFirst(request, REPORTS_CACHE));
+  } else if (isShellRequest(url)) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  }
+  // Everything else (Firestore, Auth, Gemini) goes straight to the network
+});
@@ -0,0 +1,89 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { Medication, MedicationStatusChange } from '../types';
+import { calculateAdherence, createDoseEvent, getScheduledDoses } from './adherenceService';
+
+// West of UTC, where a date-only string read as UTC falls on the previous local day
+const originalTimeZone = process.env.TZ;
+process.env.TZ = 'America/New_York';
+afterAll(() => {
+  if (originalTimeZone === undefined) delete process.env.TZ;
+  else process.env.TZ = originalTimeZone;
+});
+
+const local = (date: string, time = '00:00') => new Date(`${date}T${time}:00`);
+
+const medication = (overrides: Partial<Medication> = {}): Medication => ({
+  id: 'm1',
+  name: 'Metformin',
+  dosage: '500mg',
+  frequency: 'Twice daily',
+  startDate: '2026-03-10',
+  active: true,
+  status: 'Active',
+  statusHistory: [{ status: 'Active', date: local('2026-03-10').toISOString(), note: 'Prescribed' }],
+  ...overrides,
+});
+
+const change = (status: MedicationStatusChange['status'], date: string, time: string): MedicationStatusChange =>
+  ({ status, date: local(date, time).toISOString() });
+
+const times = (medications: Medication[], day: string) =>
+  getScheduledDoses(medications, local(day)).map(dose => dose.scheduledFor.getHours());
+
+describe('getScheduledDoses', () => {
+  it('starts on the local start date', () => {
+    expect(times([medication()], '2026-03-09')).toEqual([]);
+    expect(times([medication()], '2026-03-10')).toEqual([8, 20]);
+  });
+
+  it('keeps the doses due before a medication was paused', () => {
+    const paused = medication({
+      active: false,
+      status: 'Paused',
+      statusHistory: [...medication().statusHistory!, change('Paused', '2026-03-12', '10:00')],
+    });
+    expect(times([paused], '2026-03-11')).toEqual([8, 20]);
+    expect(times([paused], '2026-03-12')).toEqual([8]);
+    expect(times([paused], '2026-03-13')).toEqual([]);
+  });
+
+  it('schedules doses again once a medication is resumed', () => {
+    const resumed = medication({
+      statusHistory: [
+        ...medication().statusHistory!,
+        change('Paused', '2026-03-11', '07:00'),
+        change('Active', '2026-03-13', '12:00'),
+      ],
+    });
+    expect(times([resumed], '2026-03-12')).toEqual([]);
+    expect(times([resumed], '2026-03-13')).toEqual([20]);
+  });
+
+  it('reads the end date of records without a status history', () => {
+    const stopped = medication({ active: false, status: undefined, statusHistory: undefined, endDate: '2026-03-12' });
+    expect(times([stopped], '2026-03-11')).toEqual([8, 20]);
+    expect(times([stopped], '2026-03-12')).toEqual([]);
+  });
+});
+
+describe('calculateAdherence', () => {
+  it('does not change past adherence when a medication is stopped', () => {
+    const now = local('2026-03-13', '12:00');
+    const events = [
+      createDoseEvent('m1', local('2026-03-11', '08:00'), 'taken', local('2026-03-11', '08:05')),
+      createDoseEvent('m1', local('2026-03-11', '20:00'), 'taken', local('2026-03-11', '20:05')),
+    ];
+    const before = calculateAdherence([medication()], events, 7, local('2026-03-12', '09:00'));
+    const stopped = medication({
+      active: false,
+      status: 'Discontinued',
+      endDate: '2026-03-12',
+      statusHistory: [...medication().statusHistory!, change('Discontinued', '2026-03-12', '09:00')],
+    });
+    const after = calculateAdherence([stopped], events, 7, now);
+
+    expect(before.medications[0]).toMatchObject({ scheduled: 3, taken: 2, missed: 1 });
+    expect(after.medications[0]).toMatchObject({ scheduled: 3, taken: 2, missed: 1 });
+    expect(after.overallPercent).toBe(67);
+  });
+});
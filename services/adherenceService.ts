@@ -0,0 +1,231 @@
+import { Medication, DoseSchedule, DoseEvent, DoseStatus, AdherenceSummary, MedicationAdherence } from '../types';
+
+// A dose recorded more than this long after its slot counts as late
+export const LATE_AFTER_MINUTES = 60;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00'],
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Best-effort conversion of a free-text frequency ("Twice daily",
+ * "Every 6 hours", "As needed") into a structured schedule.
+ */
+export const parseFrequency = (frequency: string): DoseSchedule => {
+  const text = frequency.toLowerCase();
+
+  if (/as needed|\bprn\b|when required|if needed/.test(text)) {
+    return { timesOfDay: [], daysOfWeek: [], prn: true };
+  }
+
+  const everyHours = text.match(/every\s+(\d+)\s*(?:hours|hrs|h)\b/);
+  if (everyHours) {
+    const interval = Math.min(Math.max(Number(everyHours[1]), 1), 24);
+    const times: string[] = [];
+    for (let h = 8; times.length < Math.floor(24 / interval); h += interval) {
+      times.push(`${pad(h % 24)}:00`);
+    }
+    return { timesOfDay: times.sort(), daysOfWeek: [], prn: false };
+  }
+
+  const weekly = /weekly|once a week/.test(text);
+  let count = 1;
+  if (/four times|4 times|\bqid\b/.test(text)) count = 4;
+  else if (/three times|3 times|thrice|\btid\b/.test(text)) count = 3;
+  else if (/twice|two times|2 times|\bbid\b/.test(text)) count = 2;
+
+  const timesOfDay = count === 1 && /bedtime|night|evening/.test(text) ? ['21:00'] : DEFAULT_TIMES[count];
+  return { timesOfDay, daysOfWeek: weekly ? [1] : [], prn: false };
+};
+
+export const getSchedule = (med: Medication): DoseSchedule => med.schedule ?? parseFrequency(med.frequency);
+
+export const formatSchedule = (schedule: DoseSchedule): string => {
+  if (schedule.prn) return 'As needed';
+  const days = schedule.daysOfWeek.length === 0 || schedule.daysOfWeek.length === 7
+    ? 'Every day'
+    : schedule.daysOfWeek.map(d => WEEKDAY_LABELS[d]).join(', ');
+  return `${schedule.timesOfDay.join(', ')} • ${days}`;
+};
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/** Date-only strings parse as UTC midnight; read them as local midnight instead. */
+export const parseLocalDate = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00`);
+
+/**
+ * Whether a medication was being taken at a given time, from its status
+ * history. Records without one only say whether it is active now, and
+ * when it was stopped.
+ */
+const wasActiveAt = (medication: Medication, time: Date): boolean => {
+  if (medication.startDate && parseLocalDate(medication.startDate) > time) return false;
+  const history = medication.statusHistory;
+  if (history?.length) {
+    const changes = history.filter(change => new Date(change.date) <= time);
+    // Changes are appended in order; before the first one it was active since the start date
+    return changes.length === 0 || changes[changes.length - 1].status === 'Active';
+  }
+  if (medication.active) return true;
+  return !!medication.endDate && time < parseLocalDate(medication.endDate);
+};
+
+export interface ScheduledDose {
+  medication: Medication;
+  scheduledFor: Date;
+}
+
+/**
+ * Lists the fixed-time doses due on the given local day, for medications
+ * that were active at each dose's time; pausing or stopping one leaves its
+ * earlier doses in place. PRN medications never produce scheduled doses.
+ */
+export const getScheduledDoses = (medications: Medication[], day: Date): ScheduledDose[] => {
+  const dayStart = startOfDay(day);
+  const doses: ScheduledDose[] = [];
+
+  medications.forEach(medication => {
+    const schedule = getSchedule(medication);
+    if (schedule.prn) return;
+    if (schedule.daysOfWeek.length > 0 && !schedule.daysOfWeek.includes(dayStart.getDay())) return;
+
+    schedule.timesOfDay.forEach(time => {
+      const [hours, minutes] = time.split(':').map(Number);
+      const scheduledFor = new Date(dayStart);
+      scheduledFor.setHours(hours || 0, minutes || 0, 0, 0);
+      if (wasActiveAt(medication, scheduledFor)) doses.push({ medication, scheduledFor });
+    });
+  });
+
+  return doses.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+};
+
+export const doseEventId = (medicationId: string, scheduledFor: Date) => `${medicationId}-${scheduledFor.getTime()}`;
+
+export const findDoseEvent = (events: DoseEvent[], medicationId: string, scheduledFor: Date) =>
+  events.find(e => e.id === doseEventId(medicationId, scheduledFor));
+
+/**
+ * Records a dose. Taking a dose well after its slot is stored as 'late'.
+ */
+export const createDoseEvent = (
+  medicationId: string,
+  scheduledFor: Date,
+  action: 'taken' | 'skipped',
+  now: Date = new Date()
+): DoseEvent => {
+  const lateBy = now.getTime() - scheduledFor.getTime();
+  const status: DoseStatus = action === 'taken' && lateBy > LATE_AFTER_MINUTES * 60000 ? 'late' : action;
+  return {
+    id: doseEventId(medicationId, scheduledFor),
+    medicationId,
+    scheduledFor: scheduledFor.toISOString(),
+    status,
+    recordedAt: now.toISOString(),
+  };
+};
+
+/** Inserts or replaces an event, keeping one event per dose slot. */
+export const upsertDoseEvent = (events: DoseEvent[], event: DoseEvent): DoseEvent[] =>
+  [event, ...events.filter(e => e.id !== event.id)];
+
+/**
+ * Walks the due doses in the window. Days before the first recorded
+ * event are skipped so that patients are not penalised for the time
+ * before they started using the checklist.
+ */
+const forEachDueDose = (
+  medications: Medication[],
+  events: DoseEvent[],
+  windowDays: number,
+  now: Date,
+  visit: (dose: ScheduledDose, dayIndex: number) => void
+) => {
+  if (events.length === 0) return;
+  const trackingStart = startOfDay(new Date(Math.min(...events.map(e => new Date(e.scheduledFor).getTime()))));
+  const today = startOfDay(now);
+  for (let i = windowDays - 1; i >= 0; i--) {
+    const day = new Date(today);
+    day.setDate(today.getDate() - i);
+    if (day < trackingStart) continue;
+    getScheduledDoses(medications, day)
+      .filter(dose => dose.scheduledFor <= now)
+      .forEach(dose => visit(dose, windowDays - 1 - i));
+  }
+};
+
+/**
+ * Summarizes adherence over the last `windowDays` days, counting only
+ * doses that are already due. Late doses count as taken.
+ */
+export const calculateAdherence = (
+  medications: Medication[],
+  events: DoseEvent[],
+  windowDays = 7,
+  now: Date = new Date()
+): AdherenceSummary => {
+  const perMed = new Map<string, MedicationAdherence>();
+
+  forEachDueDose(medications, events, windowDays, now, ({ medication, scheduledFor }) => {
+    const entry = perMed.get(medication.id) || {
+      medicationId: medication.id,
+      name: medication.name,
+      scheduled: 0, taken: 0, late: 0, skipped: 0, missed: 0, percent: 0,
+    };
+    entry.scheduled++;
+    const event = findDoseEvent(events, medication.id, scheduledFor);
+    if (!event) entry.missed++;
+    else entry[event.status]++;
+    perMed.set(medication.id, entry);
+  });
+
+  const list = Array.from(perMed.values()).map(m => ({
+    ...m,
+    percent: Math.round(((m.taken + m.late) / m.scheduled) * 100),
+  }));
+  const scheduled = list.reduce((sum, m) => sum + m.scheduled, 0);
+  const adherent = list.reduce((sum, m) => sum + m.taken + m.late, 0);
+
+  return {
+    windowDays,
+    overallPercent: scheduled > 0 ? Math.round((adherent / scheduled) * 100) : null,
+    medications: list,
+  };
+};
+
+/** Per-day adherence percentages for charting; null where no dose was due. */
+export const getDailyAdherence = (
+  medications: Medication[],
+  events: DoseEvent[],
+  windowDays = 7,
+  now: Date = new Date()
+): { day: string; percent: number | null }[] => {
+  const totals = Array.from({ length: windowDays }, () => ({ scheduled: 0, adherent: 0 }));
+
+  forEachDueDose(medications, events, windowDays, now, ({ medication, scheduledFor }, dayIndex) => {
+    totals[dayIndex].scheduled++;
+    const event = findDoseEvent(events, medication.id, scheduledFor);
+    if (event && event.status !== 'skipped') totals[dayIndex].adherent++;
+  });
+
+  const today = startOfDay(now);
+  return totals.map((t, i) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() - (windowDays - 1 - i));
+    return {
+      day: WEEKDAY_LABELS[day.getDay()],
+      percent: t.scheduled > 0 ? Math.round((t.adherent / t.scheduled) * 100) : null,
+    };
+  });
+};
@@ -0,0 +1,64 @@
+import { PatientProfile, SymptomLog, Medication, MedicalRecord, AIInsight, AnalysisResult, InteractionWarning, AdherenceSummary, ChatMessage, VitalSummary, LabExtraction } from '../types';
+import type { ChatSource } from './chatService';
+import { geminiProvider } from './geminiService';
+import { mockAIProvider } from './mockAIProvider';
+
+export interface HealthInsightInput {
+  profile: PatientProfile;
+  symptoms: SymptomLog[];
+  medications: Medication[];
+  history: MedicalRecord[];
+  interactions: InteractionWarning[];
+  adherence: AdherenceSummary | null;
+  vitals: VitalSummary[];
+}
+
+// What is known about the image besides its pixels
+export type DocumentContext =
+  | { kind: 'pdf-page'; text: string } // Embedded text layer of a rendered PDF page; empty for scanned pages
+  | { kind: 'dicom-frame'; description: string }; // De-identified study details, e.g. "CT of the chest, frame 12 of 60"
+
+export interface ChatRequest {
+  sources: ChatSource[];
+  messages: ChatMessage[]; // Oldest first; the last one is the question being asked
+}
+
+/**
+ * A backend for every AI feature in the app. Implementations never throw;
+ * failures come back as a fallback result the UI can render.
+ */
+export interface AIProvider {
+  name: string;
+  generateHealthInsights(input: HealthInsightInput): Promise<AIInsight>;
+  /** Generative clean-up of a preprocessed scan, only run when asked for. Returns base64 image data (no prefix), or null to keep the input. */
+  enhanceImage(base64Data: string, mimeType: string): Promise<string | null>;
+  analyzeDocument(base64Data: string, mimeType: string, context?: DocumentContext): Promise<AnalysisResult>;
+  /** Reads numeric lab values off a report. The patient reviews them before they are saved. */
+  extractLabResults(base64Data: string, mimeType: string): Promise<LabExtraction>;
+  /**
+   * Streams an answer grounded in `sources`, citing them as [[key]]. This is
+   * the one method that may throw, so the caller can keep the partial answer.
+   */
+  streamChat(request: ChatRequest): AsyncGenerator<string>;
+}
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockAIProvider,
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Picks the backend from AI_PROVIDER ("gemini" or "mock"). Without it,
+ * Gemini is used when an API key is configured and the offline mock otherwise.
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const requested = process.env.AI_PROVIDER;
+    activeProvider = (requested && PROVIDERS[requested]) || (process.env.API_KEY ? geminiProvider : mockAIProvider);
+    if (requested && !PROVIDERS[requested]) console.warn(`Unknown AI_PROVIDER "${requested}", using ${activeProvider.name}`);
+    console.log(`AI provider: ${activeProvider.name}`);
+  }
+  return activeProvider;
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { repairBoundingBox, validateAnalysis, validateFinding, validateInsight, validateLabExtraction, validateLabValue } from './aiValidation';
+
+describe('validateInsight', () => {
+  it('accepts a well-formed insight and normalizes what it can', () => {
+    const result = validateInsight({
+      healthScore: 104,
+      summary: ' Stable overall ',
+      riskFactors: ['High BMI', ''],
+      recommendations: ['Walk daily'],
+      doctorSpecialty: 'Cardiologist',
+      urgency: 'moderate',
+    });
+    expect(result).toEqual({
+      value: {
+        healthScore: 100,
+        summary: 'Stable overall',
+        riskFactors: ['High BMI'],
+        recommendations: ['Walk daily'],
+        doctorSpecialty: 'Cardiologist',
+        urgency: 'Moderate',
+      },
+      repairs: ['healthScore 104 clamped to 100', 'urgency "moderate" normalized', 'riskFactors had 1 invalid entries'],
+    });
+  });
+
+  it('rejects an insight without a score, summary or known urgency', () => {
+    expect(validateInsight({ healthScore: '', summary: '  ', urgency: 'Soon' })).toEqual({
+      errors: ['healthScore is missing or not a number', 'summary is missing', 'urgency "Soon" is not one of Low, Moderate, High, Emergency'],
+    });
+    expect(validateInsight('not json')).toEqual({ errors: ['Response is not an object'] });
+  });
+});
+
+describe('repairBoundingBox', () => {
+  it('rescales 0-1000 boxes and swaps min and max', () => {
+    const repairs: string[] = [];
+    expect(repairBoundingBox([500, 100, 200, 400], repairs)).toEqual({ ymin: 0.2, xmin: 0.1, ymax: 0.5, xmax: 0.4 });
+    expect(repairs).toEqual(['box_2d rescaled from 0-1000', 'box_2d min/max swapped']);
+  });
+
+  it('drops boxes with missing coordinates or no area', () => {
+    const repairs: string[] = [];
+    expect(repairBoundingBox({ ymin: 0.1, xmin: 0.1, ymax: 0.5 }, repairs)).toBeNull();
+    expect(repairBoundingBox([0.2, 0.2, 0.2, 0.6], repairs)).toBeNull();
+    expect(repairs).toEqual(['box_2d was malformed and removed', 'box_2d had no area and was removed']);
+  });
+});
+
+describe('validateFinding', () => {
+  it('accepts a finding and defaults its missing fields', () => {
+    expect(validateFinding({ label: 'Nodule', box_2d: { ymin: 0.1, xmin: 0.2, ymax: 0.3, xmax: 0.4 } })).toEqual({
+      value: { label: 'Nodule', confidence: 'Low', explanation: 'No explanation provided.', box_2d: { ymin: 0.1, xmin: 0.2, ymax: 0.3, xmax: 0.4 } },
+      repairs: ['"Nodule" confidence defaulted', '"Nodule" explanation defaulted'],
+    });
+  });
+
+  it('rejects a finding without a label', () => {
+    expect(validateFinding({ confidence: 'High' })).toEqual({ errors: ['Finding has no label'] });
+  });
+});
+
+describe('validateAnalysis', () => {
+  it('keeps valid findings and removes broken ones', () => {
+    const result = validateAnalysis({
+      summary: 'Mild opacity',
+      findings: [{ label: 'Opacity', confidence: 'Medium', explanation: 'Lower left lobe' }, { confidence: 'High' }],
+      disclaimer: 'Not a diagnosis.',
+    });
+    expect(result).toEqual({
+      value: {
+        summary: 'Mild opacity',
+        findings: [{ label: 'Opacity', confidence: 'Medium', explanation: 'Lower left lobe' }],
+        disclaimer: 'Not a diagnosis.',
+      },
+      repairs: ['finding 2 removed: Finding has no label'],
+    });
+  });
+
+  it('rejects an analysis without a summary', () => {
+    expect(validateAnalysis({ findings: [] })).toEqual({ errors: ['summary is missing'] });
+  });
+});
+
+describe('validateLabValue', () => {
+  it('reads numbers given as text and the reference range from its printed form', () => {
+    expect(validateLabValue({ name: 'Glucose', value: '104', unit: 'mg/dL', referenceText: '70-99', collectedAt: '2026-03-05T08:00:00Z' })).toEqual({
+      value: { name: 'Glucose', value: 104, unit: 'mg/dL', referenceText: '70-99', referenceLow: 70, referenceHigh: 99, collectedAt: '2026-03-05' },
+      repairs: ['"Glucose" reference range read from "70-99"'],
+    });
+  });
+
+  it('rejects values that cannot be trended', () => {
+    expect(validateLabValue({ name: 'HIV', value: 'Negative' })).toEqual({ errors: ['"HIV" value "Negative" is not a number'] });
+    expect(validateLabValue({ name: 'Potassium', value: '' })).toEqual({ errors: ['"Potassium" value "" is not a number'] });
+  });
+});
+
+describe('validateLabExtraction', () => {
+  it('accepts an extraction and removes values it cannot use', () => {
+    expect(validateLabExtraction({ values: [{ name: 'HbA1c', value: 6.1, unit: '%' }, { value: 3 }], collectedAt: 'last week' })).toEqual({
+      value: { values: [{ name: 'HbA1c', value: 6.1, unit: '%' }] },
+      repairs: ['lab value 2 removed: Lab value has no name', 'collection date "last week" removed'],
+    });
+  });
+
+  it('rejects an extraction without a list of values', () => {
+    expect(validateLabExtraction({ values: 'none' })).toEqual({ errors: ['values is missing or not a list'] });
+  });
+});
@@ -0,0 +1,241 @@
+import { AIInsight, AnalysisResult, MedicalFinding, BoundingBox, ExtractedLabValue, LabExtraction } from '../types';
+import { parseReferenceRange } from './labService';
+
+/**
+ * Runtime checks for model output. Small problems are repaired (values
+ * clamped, fields defaulted, bad boxes dropped) and noted in `repairs`;
+ * output missing what the UI cannot do without is rejected.
+ */
+
+export type Validation<T> =
+  | { value: T; repairs: string[] }
+  | { errors: string[] };
+
+const URGENCIES: AIInsight['urgency'][] = ['Low', 'Moderate', 'High', 'Emergency'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown) => {
+  // Number('') is 0, so a blank string would otherwise pass as a real zero.
+  const n = typeof value === 'string' ? (value.trim() ? Number(value.trim()) : null) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const nonEmptyString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const stringList = (value: unknown, field: string, repairs: string[]) => {
+  if (!Array.isArray(value)) {
+    repairs.push(`${field} was not a list`);
+    return [];
+  }
+  const items = value.map(nonEmptyString).filter((item): item is string => item !== null);
+  if (items.length !== value.length) repairs.push(`${field} had ${value.length - items.length} invalid entries`);
+  return items;
+};
+
+export const validateInsight = (raw: unknown): Validation<AIInsight> => {
+  if (!isRecord(raw)) return { errors: ['Response is not an object'] };
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  const score = toNumber(raw.healthScore);
+  if (score === null) errors.push('healthScore is missing or not a number');
+  const summary = nonEmptyString(raw.summary);
+  if (!summary) errors.push('summary is missing');
+
+  const urgencyText = typeof raw.urgency === 'string' ? raw.urgency.trim().toLowerCase() : '';
+  const urgency = URGENCIES.find(u => u.toLowerCase() === urgencyText);
+  if (!urgency) errors.push(`urgency "${raw.urgency}" is not one of ${URGENCIES.join(', ')}`);
+
+  if (errors.length > 0 || score === null || !summary || !urgency) return { errors };
+
+  const healthScore = Math.round(Math.min(100, Math.max(0, score)));
+  if (healthScore !== score) repairs.push(`healthScore ${score} clamped to ${healthScore}`);
+  if (urgency !== raw.urgency) repairs.push(`urgency "${raw.urgency}" normalized`);
+
+  const doctorSpecialty = nonEmptyString(raw.doctorSpecialty);
+  if (!doctorSpecialty) repairs.push('doctorSpecialty defaulted');
+
+  return {
+    repairs,
+    value: {
+      healthScore,
+      summary,
+      riskFactors: stringList(raw.riskFactors, 'riskFactors', repairs),
+      recommendations: stringList(raw.recommendations, 'recommendations', repairs),
+      doctorSpecialty: doctorSpecialty || 'General Physician',
+      urgency,
+    },
+  };
+};
+
+const BOX_KEYS: (keyof BoundingBox)[] = ['ymin', 'xmin', 'ymax', 'xmax'];
+
+/**
+ * Accepts an object or a [ymin, xmin, ymax, xmax] array. Coordinates on the
+ * 0-1000 scale Gemini sometimes uses are rescaled, the rest clamped to 0-1,
+ * and swapped min/max corrected. Returns null for boxes that cannot be saved.
+ */
+export const repairBoundingBox = (raw: unknown, repairs: string[]): BoundingBox | null => {
+  const values = Array.isArray(raw) ? raw : isRecord(raw) ? BOX_KEYS.map(key => raw[key]) : null;
+  const numbers = values?.length === 4 ? values.map(toNumber) : null;
+  if (!numbers || numbers.some(n => n === null)) {
+    repairs.push('box_2d was malformed and removed');
+    return null;
+  }
+  let [ymin, xmin, ymax, xmax] = numbers as number[];
+
+  // Slight overshoots like 1.05 are 0-1 boxes to clamp, not 0-1000 ones
+  const largest = Math.max(ymin, xmin, ymax, xmax);
+  if (largest > 2 && largest <= 1000 && Math.min(ymin, xmin, ymax, xmax) >= 0) {
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(n => n / 1000);
+    repairs.push('box_2d rescaled from 0-1000');
+  }
+  const clamp = (n: number) => Math.min(1, Math.max(0, n));
+  const clamped = [ymin, xmin, ymax, xmax].map(clamp);
+  if (clamped.some((n, i) => n !== [ymin, xmin, ymax, xmax][i])) repairs.push('box_2d clamped to 0-1');
+  [ymin, xmin, ymax, xmax] = clamped;
+
+  if (ymin > ymax) [ymin, ymax] = [ymax, ymin];
+  if (xmin > xmax) [xmin, xmax] = [xmax, xmin];
+  if (clamped[0] > clamped[2] || clamped[1] > clamped[3]) repairs.push('box_2d min/max swapped');
+
+  if (ymax - ymin <= 0 || xmax - xmin <= 0) {
+    repairs.push('box_2d had no area and was removed');
+    return null;
+  }
+  return { ymin, xmin, ymax, xmax };
+};
+
+export const validateFinding = (raw: unknown): Validation<MedicalFinding> => {
+  if (!isRecord(raw)) return { errors: ['Finding is not an object'] };
+  const label = nonEmptyString(raw.label);
+  if (!label) return { errors: ['Finding has no label'] };
+
+  const repairs: string[] = [];
+  const confidence = nonEmptyString(raw.confidence);
+  if (!confidence) repairs.push(`"${label}" confidence defaulted`);
+  const explanation = nonEmptyString(raw.explanation);
+  if (!explanation) repairs.push(`"${label}" explanation defaulted`);
+
+  const finding: MedicalFinding = {
+    label,
+    confidence: confidence || 'Low',
+    explanation: explanation || 'No explanation provided.',
+  };
+  if (raw.box_2d !== undefined && raw.box_2d !== null) {
+    const box = repairBoundingBox(raw.box_2d, repairs);
+    if (box) finding.box_2d = box;
+  }
+  return { value: finding, repairs };
+};
+
+export const validateAnalysis = (raw: unknown): Validation<AnalysisResult> => {
+  if (!isRecord(raw)) return { errors: ['Response is not an object'] };
+  const summary = nonEmptyString(raw.summary);
+  if (!summary) return { errors: ['summary is missing'] };
+
+  const repairs: string[] = [];
+  const findings: MedicalFinding[] = [];
+  if (Array.isArray(raw.findings)) {
+    raw.findings.forEach((item, i) => {
+      const result = validateFinding(item);
+      if ('errors' in result) {
+        repairs.push(`finding ${i + 1} removed: ${result.errors.join('; ')}`);
+      } else {
+        findings.push(result.value);
+        repairs.push(...result.repairs);
+      }
+    });
+  } else if (raw.findings !== undefined) {
+    repairs.push('findings was not a list');
+  }
+
+  const disclaimer = nonEmptyString(raw.disclaimer);
+  if (!disclaimer) repairs.push('disclaimer defaulted');
+
+  return {
+    repairs,
+    value: {
+      summary,
+      findings,
+      disclaimer: disclaimer || 'This analysis is for educational purposes only and is not a diagnosis.',
+    },
+  };
+};
+
+// Dates come back as "2024-03-05", "2024-03-05T08:00:00Z" or unparseable text
+const isoDate = (value: unknown): string | null => {
+  const text = nonEmptyString(value);
+  if (!text) return null;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+export const validateLabValue = (raw: unknown): Validation<ExtractedLabValue> => {
+  if (!isRecord(raw)) return { errors: ['Lab value is not an object'] };
+  const name = nonEmptyString(raw.name);
+  if (!name) return { errors: ['Lab value has no name'] };
+  // Values like "<0.5" or "Negative" cannot be trended
+  const value = toNumber(raw.value);
+  if (value === null) return { errors: [`"${name}" value "${raw.value}" is not a number`] };
+
+  const repairs: string[] = [];
+  const unit = nonEmptyString(raw.unit);
+  if (!unit) repairs.push(`"${name}" has no unit`);
+  const result: ExtractedLabValue = { name, value, unit: unit || '' };
+
+  const referenceText = nonEmptyString(raw.referenceText);
+  if (referenceText) result.referenceText = referenceText;
+  let low = toNumber(raw.referenceLow);
+  let high = toNumber(raw.referenceHigh);
+  if (low === null && high === null && referenceText) {
+    const parsed = parseReferenceRange(referenceText);
+    low = parsed.low ?? null;
+    high = parsed.high ?? null;
+    if (low !== null || high !== null) repairs.push(`"${name}" reference range read from "${referenceText}"`);
+  }
+  if (low !== null && high !== null && low > high) {
+    [low, high] = [high, low];
+    repairs.push(`"${name}" reference range swapped`);
+  }
+  if (low !== null) result.referenceLow = low;
+  if (high !== null) result.referenceHigh = high;
+
+  if (raw.collectedAt !== undefined && raw.collectedAt !== null) {
+    const collectedAt = isoDate(raw.collectedAt);
+    if (collectedAt) result.collectedAt = collectedAt;
+    else repairs.push(`"${name}" collection date "${raw.collectedAt}" removed`);
+  }
+  return { value: result, repairs };
+};
+
+/**
+ * An empty list is valid: the document may simply not be a lab report.
+ */
+export const validateLabExtraction = (raw: unknown): Validation<LabExtraction> => {
+  if (!isRecord(raw)) return { errors: ['Response is not an object'] };
+  if (!Array.isArray(raw.values)) return { errors: ['values is missing or not a list'] };
+
+  const repairs: string[] = [];
+  const values: ExtractedLabValue[] = [];
+  raw.values.forEach((item, i) => {
+    const result = validateLabValue(item);
+    if ('errors' in result) {
+      repairs.push(`lab value ${i + 1} removed: ${result.errors.join('; ')}`);
+    } else {
+      values.push(result.value);
+      repairs.push(...result.repairs);
+    }
+  });
+
+  const extraction: LabExtraction = { values };
+  if (raw.collectedAt !== undefined && raw.collectedAt !== null) {
+    const collectedAt = isoDate(raw.collectedAt);
+    if (collectedAt) extraction.collectedAt = collectedAt;
+    else repairs.push(`collection date "${raw.collectedAt}" removed`);
+  }
+  return { value: extraction, repairs };
+};
@@ -0,0 +1,153 @@
+import { AIInsight, UploadedFile, ChatCitation, ChatMessage, LabResult } from '../types';
+import type { HealthInsightInput } from './aiProvider';
+import { formatDuration } from './symptomService';
+import { groupLabResults } from './labService';
+
+/**
+ * Grounding for the health assistant. Each record the model may rely on is
+ * listed under a stable key, and answers cite those keys as [[key]].
+ */
+
+export interface ChatGrounding extends HealthInsightInput {
+  reports: UploadedFile[];
+  labs: LabResult[];
+  insight: AIInsight | null;
+}
+
+export interface ChatSource extends ChatCitation {
+  detail: string; // What the model is told about the record
+}
+
+// Keeps prompts bounded for long-standing patients
+const MAX_SYMPTOMS = 50;
+
+export const buildChatSources = ({ profile, symptoms, medications, history, interactions, adherence, vitals, reports, labs, insight }: ChatGrounding): ChatSource[] => {
+  const sources: ChatSource[] = [
+    {
+      key: 'profile',
+      label: 'Profile',
+      detail: `${profile.age} year old ${profile.gender || 'patient'}, blood group ${profile.bloodGroup}, ${profile.height} cm, ${profile.weight} kg. ` +
+        `Allergies: ${profile.allergies.join(', ') || 'none'}. Smoker: ${profile.lifestyle.smoking ? 'yes' : 'no'}. ` +
+        `Alcohol: ${profile.lifestyle.alcohol ? 'yes' : 'no'}. Activity: ${profile.lifestyle.activityLevel}.`,
+    },
+  ];
+
+  if (insight && !insight.error) {
+    sources.push({
+      key: 'insight',
+      label: `Health score ${insight.healthScore}`,
+      detail: `Latest AI health score ${insight.healthScore}/100, urgency ${insight.urgency}. ${insight.summary} ` +
+        `Risk factors: ${insight.riskFactors.join('; ')}.`,
+    });
+  }
+
+  medications.forEach(m => sources.push({
+    key: `med:${m.id}`,
+    label: `${m.name} ${m.dosage}`,
+    detail: `${m.name} ${m.dosage}, ${m.frequency}, started ${m.startDate}${m.active ? '' : `, stopped ${m.endDate ?? ''}`}.`,
+  }));
+
+  [...symptoms]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_SYMPTOMS)
+    .forEach(s => sources.push({
+      key: `symptom:${s.id}`,
+      label: `${s.symptom} (${new Date(s.date).toLocaleDateString()})`,
+      detail: `${s.symptom}, severity ${s.severity}/10, lasting ${formatDuration(s.duration)}, logged ${s.date}` +
+        `${s.bodyLocation ? `, location ${s.bodyLocation}` : ''}${s.triggers?.length ? `, triggers: ${s.triggers.join(', ')}` : ''}${s.notes ? `, notes: ${s.notes}` : ''}.`,
+    }));
+
+  history.forEach(r => sources.push({
+    key: `history:${r.id}`,
+    label: r.name,
+    detail: `${r.type}: ${r.name} (${r.date})${r.type === 'Condition' && r.status ? `, ${r.status}` : ''}. ${r.notes}`,
+  }));
+
+  interactions.forEach(w => sources.push({
+    key: `interaction:${w.id}`,
+    label: `${w.medications.join(' + ')} interaction`,
+    detail: `${w.severity} ${w.kind} interaction between ${w.medications.join(', ')}${w.allergen ? ` and allergy to ${w.allergen}` : ''}: ${w.description}`,
+  }));
+
+  if (adherence && adherence.overallPercent !== null) {
+    sources.push({
+      key: 'adherence',
+      label: 'Medication adherence',
+      detail: `Adherence over the last ${adherence.windowDays} days: ${adherence.overallPercent}% overall; ` +
+        adherence.medications.map(m => `${m.name} ${m.percent}%`).join(', ') + '.',
+    });
+  }
+
+  vitals.forEach(v => sources.push({
+    key: `vital:${v.type}`,
+    label: `${v.label} ${v.latest}`,
+    detail: `${v.label}: latest ${v.latest} on ${v.takenAt} (${v.bandLabel}); ${v.readings} reading${v.readings === 1 ? '' : 's'} in the last 30 days.`,
+  }));
+
+  // One source per analyte, so answers about a trend cite a single key
+  groupLabResults(labs).forEach(series => {
+    const [latest, ...earlier] = [...series.results].reverse();
+    if (!latest) return;
+    sources.push({
+      key: `lab:${series.analyte.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      label: `${series.analyte} ${latest.value} ${series.unit}`,
+      detail: `Lab result ${series.analyte}: ${latest.value} ${series.unit} on ${latest.collectedAt}` +
+        (latest.referenceText ? ` (reference ${latest.referenceText}, ${latest.flag})` : '') +
+        (earlier.length > 0 ? `; earlier: ${earlier.slice(0, 5).map(r => `${r.value} on ${r.collectedAt}`).join(', ')}.` : '.'),
+    });
+  });
+
+  reports.filter(r => r.analysisResult && !r.analysisResult.error).forEach(r => sources.push({
+    key: `report:${r.id}`,
+    label: r.name,
+    detail: `Report "${r.name}" (${r.date}): ${r.analysisResult!.summary} Findings: ` +
+      (r.analysisResult!.findings.map(f => `${f.label} (${f.confidence}) - ${f.explanation}`).join('; ') || 'none') + '.',
+  }));
+
+  return sources;
+};
+
+export const buildSystemInstruction = (sources: ChatSource[]) => `
+You are MediQuest AI, a health assistant answering questions from a patient about their own health record.
+Only use the records below and general medical knowledge. After every statement that relies on a record,
+cite it with its key in double brackets, e.g. [[med:1]] or [[symptom:abc]]. Never invent keys.
+If the record does not contain the answer, say so. You do not diagnose; recommend seeing a clinician when
+symptoms are severe, new or worsening, and advise emergency services for emergencies.
+Keep answers short and in plain language.
+
+Patient record:
+${sources.map(s => `[[${s.key}]] ${s.detail}`).join('\n')}
+`.trim();
+
+const CITATION_PATTERN = /\[\[([^\]]+)\]\]/g;
+
+export type ChatSegment = { text: string } | { citation: ChatCitation; index: number };
+
+/**
+ * Splits assistant text into plain text and numbered citations. Unknown
+ * keys are dropped so a hallucinated reference never renders as a source.
+ */
+export const splitCitations = (content: string, citations: ChatCitation[]): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    if (match.index! > last) segments.push({ text: content.slice(last, match.index) });
+    const index = citations.findIndex(c => c.key === match[1].trim());
+    if (index >= 0) segments.push({ citation: citations[index], index: index + 1 });
+    last = match.index! + match[0].length;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) });
+  return segments;
+};
+
+/** The sources an answer actually cites, in order of first mention. */
+export const collectCitations = (content: string, sources: ChatSource[]): ChatCitation[] => {
+  const keys = Array.from(new Set(Array.from(content.matchAll(CITATION_PATTERN), m => m[1].trim())));
+  return keys
+    .map(key => sources.find(s => s.key === key))
+    .filter((s): s is ChatSource => !!s)
+    .map(({ key, label }) => ({ key, label }));
+};
+
+export const sortMessages = (messages: ChatMessage[]) =>
+  [...messages].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
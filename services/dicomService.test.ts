@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { deidentifyDicom, openDicom } from './dicomService';
+
+// A minimal explicit VR little endian file, built element by element
+const LONG_VRS = ['OB', 'OW', 'SQ', 'UN', 'UT'];
+
+const u16 = (n: number) => [n & 0xff, n >> 8];
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+
+const str = (value: string) => {
+  const bytes = [...value].map(c => c.charCodeAt(0));
+  if (bytes.length % 2) bytes.push(value.includes('.') ? 0 : 0x20);
+  return bytes;
+};
+
+const element = (group: number, elem: number, vr: string, value: number[]) => [
+  ...u16(group), ...u16(elem), vr.charCodeAt(0), vr.charCodeAt(1),
+  ...(LONG_VRS.includes(vr) ? [0, 0, ...u32(value.length)] : u16(value.length)),
+  ...value,
+];
+
+const sequence = (group: number, elem: number, ...items: number[][]) =>
+  element(group, elem, 'SQ', items.flatMap(item => [...u16(0xfffe), ...u16(0xe000), ...u32(item.length), ...item]));
+
+const dicomFile = (...elements: number[][]) => new Uint8Array([
+  ...new Array(128).fill(0),
+  ...str('DICM'),
+  ...element(0x0002, 0x0010, 'UI', str('1.2.840.10008.1.2.1')),
+  ...element(0x0002, 0x0003, 'UI', str('1.2.3.9')),
+  ...element(0x0008, 0x0060, 'CS', str('CT')),
+  ...element(0x0028, 0x0010, 'US', u16(2)),
+  ...element(0x0028, 0x0011, 'US', u16(2)),
+  ...element(0x0028, 0x0100, 'US', u16(8)),
+  ...elements.flat(),
+  ...element(0x7fe0, 0x0010, 'OB', [1, 2, 3, 4]),
+]);
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+const IDENTIFIERS = [
+  element(0x0010, 0x0010, 'PN', str('DOE^JANE')),
+  element(0x0010, 0x0020, 'LO', str('MRN-4471')),
+  element(0x0010, 0x1001, 'PN', str('SMITH^JANE')),
+  element(0x0010, 0x1005, 'PN', str('BROWN^JANE')),
+  element(0x0010, 0x4000, 'LT', str('Lives with daughter')),
+  element(0x0010, 0x21b0, 'LT', str('Seen at St Mary clinic')),
+  element(0x0008, 0x1048, 'PN', str('DR^HOUSE')),
+  element(0x0008, 0x1060, 'PN', str('DR^WILSON')),
+  element(0x0008, 0x1040, 'LO', str('Cardiology West')),
+  element(0x0032, 0x1032, 'PN', str('DR^CUDDY')),
+  element(0x0038, 0x0010, 'LO', str('ADM-8812')),
+  element(0x0008, 0x0020, 'DA', str('20240102')),
+  element(0x0008, 0x0018, 'UI', str('1.2.3.4.5')),
+];
+
+describe('deidentifyDicom', () => {
+  it('blanks identifying fields and keeps the file the same size', () => {
+    const bytes = dicomFile(...IDENTIFIERS);
+    const result = deidentifyDicom(bytes);
+    const text = latin1(result);
+
+    expect(result).toHaveLength(bytes.length);
+    for (const value of ['DOE', 'MRN-4471', 'SMITH', 'BROWN', 'daughter', 'St Mary', 'HOUSE', 'WILSON', 'Cardiology', 'CUDDY', 'ADM-8812', '20240102', '1.2.3.4.5', '1.2.3.9']) {
+      expect(text).not.toContain(value);
+    }
+    expect(openDicom({ bytes: result }).info).toMatchObject({ modality: 'CT', rows: 2, columns: 2 });
+  });
+
+  it('blanks identifying fields inside sequence items', () => {
+    const result = latin1(deidentifyDicom(dicomFile(
+      sequence(0x0008, 0x1032, element(0x0008, 0x0100, 'SH', str('CT-CHEST')), element(0x0008, 0x0090, 'PN', str('DR^NESTED'))),
+    )));
+    expect(result).not.toContain('NESTED');
+    expect(result).toContain('CT-CHEST');
+  });
+
+  it('blanks every value in sequences that identify the study', () => {
+    const result = latin1(deidentifyDicom(dicomFile(
+      sequence(0x0040, 0x0275, element(0x0040, 0x1001, 'SH', str('RP-5521'))),
+      sequence(0x0008, 0x1140, element(0x0008, 0x1150, 'UI', str('1.2.840.10008.5.1.4.1.1.2')), element(0x0008, 0x1155, 'UI', str('1.2.3.77'))),
+    )));
+    expect(result).not.toContain('RP-5521');
+    expect(result).not.toContain('1.2.3.77');
+    expect(result).not.toContain('1.2.840.10008.5.1.4.1.1.2');
+  });
+
+  it('blanks private tags', () => {
+    const result = latin1(deidentifyDicom(dicomFile(
+      element(0x0009, 0x0010, 'LO', str('ACME 1.0')),
+      element(0x0009, 0x1001, 'LO', str('JANE DOE 1970')),
+      element(0x0009, 0x1002, 'UN', [...str('Ward 7')]),
+    )));
+    expect(result).not.toContain('JANE DOE');
+    expect(result).not.toContain('Ward 7');
+    expect(result).not.toContain('ACME');
+  });
+
+  it('keeps the fields used to describe the study', () => {
+    const result = latin1(deidentifyDicom(dicomFile(
+      element(0x0008, 0x1030, 'LO', str('CHEST W/O CONTRAST')),
+      element(0x0010, 0x0040, 'CS', str('F')),
+      element(0x0010, 0x1010, 'AS', str('045Y')),
+    )));
+    expect(result).toContain('CHEST W/O CONTRAST');
+    expect(result).toContain('045Y');
+  });
+});
+
+describe('openDicom', () => {
+  it('lists the fields that were blanked', () => {
+    const original = dicomFile(IDENTIFIERS[0], sequence(0x0040, 0x0275, element(0x0040, 0x1001, 'SH', str('RP-5521'))), element(0x0009, 0x1001, 'LO', str('JANE')));
+    expect(openDicom({ bytes: original }).info.removedFields).toEqual([]);
+
+    const { removedFields } = openDicom({ bytes: deidentifyDicom(original) }).info;
+    expect(removedFields).toEqual(expect.arrayContaining(['Patient name', 'Request attributes', 'Instance UID', 'Private fields']));
+  });
+});
@@ -0,0 +1,462 @@
+import { parseDicom, DataSet, Element, createJPEGBasicOffsetTable, readEncapsulatedImageFrame, readEncapsulatedPixelDataFromFragments } from 'dicom-parser';
+import { AnalysisResult, DicomInfo, DicomWindow } from '../types';
+
+/**
+ * DICOM files in the browser: header metadata without identifiers, pixel
+ * data decoded to modality values (Hounsfield units for CT), display windows
+ * and per-frame analysis of multi-frame series.
+ */
+
+export const DICOM_MIME_TYPE = 'application/dicom';
+// Matches the limit in storage.rules
+export const MAX_DICOM_SIZE = 100 * 1024 * 1024;
+// Frames sent to the model, spread evenly through longer series
+export const MAX_ANALYZED_FRAMES = 5;
+
+export interface WindowPreset extends DicomWindow {
+  id: string;
+  label: string;
+  modalities?: string[]; // Only offered for these; all when missing
+}
+
+// Standard CT windows in Hounsfield units
+export const WINDOW_PRESETS: WindowPreset[] = [
+  { id: 'soft-tissue', label: 'Soft tissue', center: 40, width: 400, modalities: ['CT'] },
+  { id: 'lung', label: 'Lung', center: -600, width: 1500, modalities: ['CT'] },
+  { id: 'bone', label: 'Bone', center: 400, width: 1800, modalities: ['CT'] },
+  { id: 'brain', label: 'Brain', center: 40, width: 80, modalities: ['CT'] },
+];
+
+export const presetsFor = (modality: string) => WINDOW_PRESETS.filter(p => !p.modalities || p.modalities.includes(modality));
+
+// Header fields that identify a person, place or date, after the basic profile
+// of DICOM PS3.15; blanked in the file, and inside every sequence, before it is kept
+const IDENTIFYING_TAGS: [string, string][] = [
+  ['x00100010', 'Patient name'],
+  ['x00100020', 'Patient ID'],
+  ['x00100030', 'Birth date'],
+  ['x00100032', 'Birth time'],
+  ['x00101000', 'Other patient IDs'],
+  ['x00101002', 'Other patient IDs'],
+  ['x00101001', 'Other patient names'],
+  ['x00101005', 'Birth name'],
+  ['x00101040', 'Patient address'],
+  ['x00102154', 'Patient phone'],
+  ['x00101090', 'Medical record locator'],
+  ['x00104000', 'Patient comments'],
+  ['x001021b0', 'Additional patient history'],
+  ['x00380010', 'Admission ID'],
+  ['x00080050', 'Accession number'],
+  ['x00080080', 'Institution name'],
+  ['x00080081', 'Institution address'],
+  ['x00081040', 'Institutional department'],
+  ['x00080090', 'Referring physician'],
+  ['x00080092', 'Referring physician address'],
+  ['x00080094', 'Referring physician phone'],
+  ['x00081048', 'Physicians of record'],
+  ['x00081050', 'Performing physician'],
+  ['x00081060', 'Reading physician'],
+  ['x00321032', 'Requesting physician'],
+  ['x00081070', 'Operators'],
+  ['x00081010', 'Station name'],
+  ['x00181000', 'Device serial number'],
+  ['x00200010', 'Study ID'],
+  ['x00080020', 'Study date'],
+  ['x00080021', 'Series date'],
+  ['x00080022', 'Acquisition date'],
+  ['x00080023', 'Content date'],
+  ['x0008002a', 'Acquisition date and time'],
+  ['x00080030', 'Study time'],
+  ['x00080031', 'Series time'],
+  ['x00080032', 'Acquisition time'],
+  ['x00080033', 'Content time'],
+  ['x00400275', 'Request attributes'],
+  ['x00081110', 'Referenced study'],
+  ['x00081111', 'Referenced procedure step'],
+  ['x00081120', 'Referenced patient'],
+  ['x00081140', 'Referenced images'],
+  ['x0020000d', 'Study UID'],
+  ['x0020000e', 'Series UID'],
+  ['x00200052', 'Frame of reference UID'],
+  ['x00080014', 'Instance UID'],
+  ['x00080018', 'Instance UID'],
+  ['x00020003', 'Instance UID'],
+  ['x00081155', 'Instance UID'],
+];
+const IDENTIFYING = new Set(IDENTIFYING_TAGS.map(([tag]) => tag));
+// UIDs are padded with NUL; every other identifying field is text padded with spaces
+const UID_TAGS = ['x0020000d', 'x0020000e', 'x00200052', 'x00080014', 'x00080018', 'x00020003', 'x00081155'];
+// When the file states its value representations, they decide the padding instead
+const TEXT_VRS = ['AE', 'AS', 'CS', 'DA', 'DS', 'DT', 'IS', 'LO', 'LT', 'PN', 'SH', 'ST', 'TM', 'UC', 'UR', 'UT'];
+
+// Private tags, in odd groups, are vendor data that can hold anything, names included
+const isPrivate = (tag: string) => parseInt(tag.slice(1, 5), 16) % 2 === 1;
+
+const UNCOMPRESSED_SYNTAXES = ['1.2.840.10008.1.2', '1.2.840.10008.1.2.1', '1.2.840.10008.1.2.2'];
+const BIG_ENDIAN_SYNTAX = '1.2.840.10008.1.2.2';
+// Baseline JPEG, which the browser can decode itself
+const JPEG_BASELINE_SYNTAX = '1.2.840.10008.1.2.4.50';
+
+const COMPRESSION_NAMES: [RegExp, string][] = [
+  [/^1\.2\.840\.10008\.1\.2\.4\.(51|57|70)$/, 'lossless or 12-bit JPEG'],
+  [/^1\.2\.840\.10008\.1\.2\.4\.8[01]$/, 'JPEG-LS'],
+  [/^1\.2\.840\.10008\.1\.2\.4\.9[0-3]$/, 'JPEG 2000'],
+  [/^1\.2\.840\.10008\.1\.2\.5$/, 'RLE'],
+  [/^1\.2\.840\.10008\.1\.2\.1\.99$/, 'deflate'],
+];
+
+interface PixelFormat {
+  transferSyntax: string;
+  samplesPerPixel: number;
+  photometric: string; // e.g. 'MONOCHROME2', 'RGB'
+  bitsAllocated: number;
+  bitsStored: number;
+  signed: boolean;
+  planar: boolean; // RGB stored as three planes rather than interleaved
+  slope: number;
+  intercept: number;
+}
+
+export interface DicomImage {
+  info: DicomInfo;
+  dataSet: DataSet;
+  pixelData: Element;
+  format: PixelFormat;
+}
+
+// One decoded frame; greyscale frames keep modality values so any window can be applied
+export type FramePixels =
+  | { kind: 'grey'; values: Float32Array; width: number; height: number; invert: boolean }
+  | { kind: 'rgb'; data: Uint8ClampedArray; width: number; height: number };
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+/**
+ * Whether a file is DICOM: by type or extension, or by the "DICM" marker
+ * after the 128-byte preamble, since files from imaging CDs often have
+ * neither.
+ */
+export const isDicomFile = async (file: File): Promise<boolean> => {
+  if (file.type === DICOM_MIME_TYPE || /\.(dcm|dicom)$/i.test(file.name)) return true;
+  if (file.type && file.type !== 'application/octet-stream') return false;
+  const header = new Uint8Array(await file.slice(128, 132).arrayBuffer());
+  return String.fromCharCode(...header) === 'DICM';
+};
+
+const text = (dataSet: DataSet, tag: string) => dataSet.string(tag)?.trim() || undefined;
+
+const readDataSet = (bytes: Uint8Array): DataSet => {
+  try {
+    return parseDicom(bytes);
+  } catch (error) {
+    throw new Error("This file could not be read as DICOM. It may be damaged or not a DICOM file.", { cause: error });
+  }
+};
+
+// Every value in an element, down through the items of a sequence
+const forEachValue = (element: Element, visit: (element: Element) => void) => {
+  if (!element.items) return visit(element);
+  element.items.forEach(item => Object.values(item.dataSet?.elements ?? {}).forEach(e => forEachValue(e, visit)));
+};
+
+const isBlank = (bytes: Uint8Array, element: Element) => {
+  let blank = true;
+  forEachValue(element, e => {
+    blank &&= bytes.subarray(e.dataOffset, e.dataOffset + e.length).every(b => b === 0 || b === 0x20);
+  });
+  return blank;
+};
+
+/**
+ * Returns a copy of a DICOM file with the identifying header fields and all
+ * private tags blanked, here and in the items of every sequence, so the copy
+ * that is stored and viewed carries none of them. Values are overwritten in
+ * place rather than cut out, which keeps every offset valid.
+ */
+export const deidentifyDicom = (bytes: Uint8Array): Uint8Array => {
+  const copy = bytes.slice();
+  const blank = (element: Element) => {
+    const text = element.vr ? TEXT_VRS.includes(element.vr) : IDENTIFYING.has(element.tag) && !UID_TAGS.includes(element.tag);
+    copy.fill(text ? 0x20 : 0, element.dataOffset, element.dataOffset + element.length);
+  };
+  const clean = (dataSet: DataSet) => {
+    for (const element of Object.values(dataSet.elements)) {
+      if (IDENTIFYING.has(element.tag) || isPrivate(element.tag)) forEachValue(element, blank);
+      else element.items?.forEach(item => item.dataSet && clean(item.dataSet));
+    }
+  };
+  clean(readDataSet(bytes));
+  return copy;
+};
+
+/**
+ * Parses a DICOM Part 10 file. Throws with a readable message for files that
+ * are not DICOM or use a compression the browser cannot decode.
+ */
+export const openDicom = (source: { data: string } | { bytes: Uint8Array }): DicomImage => {
+  const dataSet = readDataSet('data' in source ? base64ToBytes(source.data) : source.bytes);
+
+  const pixelData = dataSet.elements.x7fe00010;
+  if (!pixelData) throw new Error("This DICOM file has no image in it (it may be a report or structured data).");
+
+  const transferSyntax = text(dataSet, 'x00020010') ?? '1.2.840.10008.1.2';
+  if (!UNCOMPRESSED_SYNTAXES.includes(transferSyntax) && transferSyntax !== JPEG_BASELINE_SYNTAX) {
+    const compression = COMPRESSION_NAMES.find(([pattern]) => pattern.test(transferSyntax))?.[1] ?? 'an unsupported format';
+    throw new Error(`This DICOM file is compressed with ${compression}, which can't be read in the browser. Export it uncompressed from the imaging viewer and upload that.`);
+  }
+
+  const format: PixelFormat = {
+    transferSyntax,
+    samplesPerPixel: dataSet.uint16('x00280002') ?? 1,
+    photometric: text(dataSet, 'x00280004') ?? 'MONOCHROME2',
+    bitsAllocated: dataSet.uint16('x00280100') ?? 16,
+    bitsStored: dataSet.uint16('x00280101') ?? dataSet.uint16('x00280100') ?? 16,
+    signed: dataSet.uint16('x00280103') === 1,
+    planar: dataSet.uint16('x00280006') === 1,
+    slope: dataSet.floatString('x00281053') ?? 1,
+    intercept: dataSet.floatString('x00281052') ?? 0,
+  };
+  if (![8, 16, 32].includes(format.bitsAllocated)) {
+    throw new Error(`DICOM images with ${format.bitsAllocated}-bit pixels are not supported.`);
+  }
+  if (format.samplesPerPixel === 3 && format.photometric !== 'RGB' && transferSyntax !== JPEG_BASELINE_SYNTAX) {
+    throw new Error(`DICOM colour images stored as ${format.photometric} are not supported.`);
+  }
+
+  const info: DicomInfo = {
+    modality: text(dataSet, 'x00080060') ?? 'OT',
+    rows: dataSet.uint16('x00280010') ?? 0,
+    columns: dataSet.uint16('x00280011') ?? 0,
+    frameCount: Math.max(1, dataSet.intString('x00280008') ?? 1),
+    analyzedFrames: [],
+    // Fields the header has room for but no value in, which is what deidentifyDicom leaves
+    removedFields: [...new Set(IDENTIFYING_TAGS
+      .filter(([tag]) => dataSet.elements[tag]?.length > 0 && isBlank(dataSet.byteArray, dataSet.elements[tag]))
+      .map(([, label]) => label))],
+  };
+  const privateElements = Object.values(dataSet.elements).filter(e => isPrivate(e.tag) && e.length > 0);
+  if (privateElements.length > 0 && privateElements.every(e => isBlank(dataSet.byteArray, e))) info.removedFields.push('Private fields');
+  // Firestore rejects undefined, so optional fields are only set when present
+  const studyDescription = text(dataSet, 'x00081030');
+  const seriesDescription = text(dataSet, 'x0008103e');
+  const bodyPart = text(dataSet, 'x00180015');
+  const patientSex = text(dataSet, 'x00100040');
+  const patientAge = text(dataSet, 'x00101010');
+  const manufacturer = text(dataSet, 'x00080070');
+  if (studyDescription) info.studyDescription = studyDescription;
+  if (seriesDescription) info.seriesDescription = seriesDescription;
+  if (bodyPart) info.bodyPart = bodyPart;
+  if (patientSex) info.patientSex = patientSex;
+  if (patientAge) info.patientAge = patientAge;
+  if (manufacturer) info.manufacturer = manufacturer;
+
+  const rowSpacing = dataSet.floatString('x00280030', 0);
+  const columnSpacing = dataSet.floatString('x00280030', 1);
+  if (rowSpacing && columnSpacing) info.pixelSpacing = [rowSpacing, columnSpacing];
+  const center = dataSet.floatString('x00281050', 0);
+  const width = dataSet.floatString('x00281051', 0);
+  if (center !== undefined && width) info.window = { center, width };
+
+  if (!info.rows || !info.columns) throw new Error("This DICOM file does not say how large its image is.");
+  return { info, dataSet, pixelData, format };
+};
+
+const decodeJpegFrame = async (bytes: Uint8Array, width: number, height: number) => {
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Decodes one frame (1-based). Greyscale values have the rescale slope and
+ * intercept applied; colour frames are returned as RGBA.
+ */
+export const readDicomFrame = async ({ info, dataSet, pixelData, format }: DicomImage, frame: number): Promise<FramePixels> => {
+  const width = info.columns;
+  const height = info.rows;
+  const count = width * height;
+  const colour = format.samplesPerPixel === 3;
+
+  if (format.transferSyntax === JPEG_BASELINE_SYNTAX) {
+    // A single frame may span several fragments; multi-frame files without an offset table need one built
+    const bytes = info.frameCount === 1
+      ? readEncapsulatedPixelDataFromFragments(dataSet, pixelData, 0, pixelData.fragments.length)
+      : readEncapsulatedImageFrame(dataSet, pixelData, frame - 1, pixelData.basicOffsetTable.length ? undefined : createJPEGBasicOffsetTable(dataSet, pixelData));
+    const rgba = await decodeJpegFrame(new Uint8Array(bytes), width, height);
+    if (colour) return { kind: 'rgb', data: rgba, width, height };
+    const values = new Float32Array(count);
+    for (let i = 0; i < count; i++) values[i] = rgba[i * 4] * format.slope + format.intercept;
+    return { kind: 'grey', values, width, height, invert: format.photometric === 'MONOCHROME1' };
+  }
+
+  const bytesPerSample = format.bitsAllocated / 8;
+  const frameBytes = count * format.samplesPerPixel * bytesPerSample;
+  const offset = pixelData.dataOffset + (frame - 1) * frameBytes;
+  if (offset + frameBytes > dataSet.byteArray.length) throw new Error(`Frame ${frame} is missing from this DICOM file.`);
+  const view = new DataView(dataSet.byteArray.buffer, dataSet.byteArray.byteOffset + offset, frameBytes);
+
+  if (colour) {
+    const data = new Uint8ClampedArray(count * 4);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < 3; c++) {
+        // Only 8-bit colour exists in practice
+        data[i * 4 + c] = view.getUint8(format.planar ? c * count + i : i * 3 + c);
+      }
+      data[i * 4 + 3] = 255;
+    }
+    return { kind: 'rgb', data, width, height };
+  }
+
+  const littleEndian = format.transferSyntax !== BIG_ENDIAN_SYNTAX;
+  // Stored bits may be fewer than allocated; the rest can hold overlay bits
+  const shift = format.bitsAllocated - format.bitsStored;
+  const values = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    let raw: number;
+    if (format.bitsAllocated === 8) raw = format.signed ? view.getInt8(i) : view.getUint8(i);
+    else if (format.bitsAllocated === 16) raw = format.signed ? view.getInt16(i * 2, littleEndian) : view.getUint16(i * 2, littleEndian);
+    else raw = format.signed ? view.getInt32(i * 4, littleEndian) : view.getUint32(i * 4, littleEndian);
+    if (shift > 0 && format.bitsAllocated < 32) {
+      raw = format.signed ? (raw << (32 - format.bitsStored)) >> (32 - format.bitsStored) : raw & ((1 << format.bitsStored) - 1);
+    }
+    values[i] = raw * format.slope + format.intercept;
+  }
+  return { kind: 'grey', values, width, height, invert: format.photometric === 'MONOCHROME1' };
+};
+
+/**
+ * A window spanning every value in the frame, for files without a default
+ * and modalities without presets.
+ */
+export const autoWindow = (values: Float32Array): DicomWindow => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  if (!Number.isFinite(min)) return { center: 0, width: 1 };
+  return { center: (min + max) / 2, width: Math.max(1, max - min) };
+};
+
+export const defaultWindow = (image: DicomImage, pixels: FramePixels): DicomWindow =>
+  image.info.window ?? (pixels.kind === 'grey' ? autoWindow(pixels.values) : { center: 128, width: 256 });
+
+/**
+ * RGBA for display, using the linear window function from the DICOM standard.
+ * Colour frames are returned unchanged.
+ */
+export const applyWindow = (pixels: FramePixels, window: DicomWindow): Uint8ClampedArray => {
+  if (pixels.kind === 'rgb') return pixels.data;
+  const { values, invert } = pixels;
+  const out = new Uint8ClampedArray(values.length * 4);
+  const width = Math.max(1, window.width);
+  const low = window.center - 0.5 - (width - 1) / 2;
+  for (let i = 0; i < values.length; i++) {
+    let v = width === 1 ? (values[i] > low ? 255 : 0) : ((values[i] - low) / (width - 1)) * 255;
+    if (invert) v = 255 - v;
+    out[i * 4] = out[i * 4 + 1] = out[i * 4 + 2] = v;
+    out[i * 4 + 3] = 255;
+  }
+  return out;
+};
+
+/**
+ * Renders a decoded frame at full resolution as a PNG data URL.
+ */
+export const renderDicomFrame = (pixels: FramePixels, window: DicomWindow): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  ctx.putImageData(new ImageData(applyWindow(pixels, window), pixels.width, pixels.height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Frames to analyze: all of them for short series, otherwise evenly spaced
+ * from first to last.
+ */
+export const sampleFrames = (frameCount: number, max: number = MAX_ANALYZED_FRAMES): number[] => {
+  if (frameCount <= max) return Array.from({ length: frameCount }, (_, i) => i + 1);
+  return Array.from({ length: max }, (_, i) => Math.round(1 + (i * (frameCount - 1)) / (max - 1)));
+};
+
+/**
+ * Study details for the model, e.g. "CT of the chest (CHEST W/O CONTRAST),
+ * female, 045Y, 512×512 px at 0.70×0.70 mm". Never includes identifiers or dates.
+ */
+export const describeStudy = (info: DicomInfo): string =>
+  [
+    `${info.modality}${info.bodyPart ? ` of the ${info.bodyPart.toLowerCase()}` : ''}${info.studyDescription ? ` (${info.studyDescription})` : ''}`,
+    info.seriesDescription && `series "${info.seriesDescription}"`,
+    info.patientSex === 'F' ? 'female' : info.patientSex === 'M' ? 'male' : undefined,
+    info.patientAge,
+    `${info.columns}×${info.rows} px${info.pixelSpacing ? ` at ${info.pixelSpacing[1].toFixed(2)}×${info.pixelSpacing[0].toFixed(2)} mm` : ''}`,
+  ].filter(Boolean).join(', ');
+
+export interface DicomAnalysis {
+  analysisResult: AnalysisResult;
+  info: DicomInfo;
+}
+
+/**
+ * Decodes a DICOM upload and analyzes a sample of its frames, each rendered
+ * at full resolution with the file's default window. Findings are tagged with
+ * their frame and combined into one result for the report.
+ */
+export const analyzeDicom = async (
+  base64Data: string,
+  analyzeFrame: (imageBase64: string, description: string) => Promise<AnalysisResult>,
+  onStatus: (status: string) => void = () => {}
+): Promise<DicomAnalysis> => {
+  const image = openDicom({ data: base64Data });
+  const { info } = image;
+  const frames = sampleFrames(info.frameCount);
+  const results: { frame: number; analysis: AnalysisResult }[] = [];
+
+  for (const [i, frame] of frames.entries()) {
+    if (frames.length > 1) onStatus(`Analyzing frame ${frame} of ${info.frameCount} (${i + 1}/${frames.length})...`);
+    const pixels = await readDicomFrame(image, frame);
+    const png = renderDicomFrame(pixels, defaultWindow(image, pixels)).split(',')[1];
+    const description = info.frameCount > 1 ? `${describeStudy(info)}; frame ${frame} of ${info.frameCount}` : describeStudy(info);
+    results.push({ frame, analysis: await analyzeFrame(png, description) });
+  }
+
+  return { analysisResult: mergeFrameAnalyses(results, info.frameCount), info: { ...info, analyzedFrames: frames } };
+};
+
+/**
+ * One result for the whole series. It only counts as failed when no frame
+ * could be analyzed.
+ */
+export const mergeFrameAnalyses = (
+  results: { frame: number; analysis: AnalysisResult }[],
+  frameCount: number
+): AnalysisResult => {
+  const succeeded = results.filter(r => !r.analysis.error);
+  if (succeeded.length === 0) return results[0].analysis;
+
+  const notes: string[] = [];
+  const failed = results.filter(r => r.analysis.error).map(r => r.frame);
+  if (failed.length > 0) notes.push(`Frame${failed.length === 1 ? '' : 's'} ${failed.join(', ')} could not be analyzed.`);
+  if (frameCount > results.length) notes.push(`${results.length} of ${frameCount} frames were analyzed.`);
+
+  return {
+    summary: [
+      ...(succeeded.length === 1 && frameCount === 1
+        ? [succeeded[0].analysis.summary]
+        : succeeded.map(r => `Frame ${r.frame}: ${r.analysis.summary}`)),
+      ...notes,
+    ].join('\n'),
+    findings: succeeded.flatMap(r => r.analysis.findings.map(f => ({ ...f, frame: r.frame }))),
+    disclaimer: succeeded[0].analysis.disclaimer,
+  };
+};
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Records each listener so a test can feed it snapshots
+const listeners = new Map<string, (snap: any) => void>();
+const batch = { set: vi.fn(), commit: vi.fn(() => Promise.resolve()) };
+
+vi.mock('firebase/app', () => ({ initializeApp: () => ({}) }));
+vi.mock('firebase/auth', () => ({ getAuth: () => ({}) }));
+vi.mock('firebase/storage', () => ({ getStorage: () => ({}) }));
+vi.mock('firebase/firestore', () => ({
+  getFirestore: () => ({}),
+  doc: (_db: unknown, ...path: string[]) => ({ path: path.join('/') }),
+  collection: (_db: unknown, ...path: string[]) => ({ path: path.join('/') }),
+  query: (ref: { path: string }) => ref,
+  orderBy: () => ({}),
+  limit: () => ({}),
+  onSnapshot: (ref: { path: string }, onNext: (snap: any) => void) => {
+    listeners.set(ref.path, onNext);
+    return () => listeners.delete(ref.path);
+  },
+  updateDoc: vi.fn(),
+  writeBatch: () => batch,
+}));
+
+vi.stubEnv('FIREBASE_API_KEY', 'test');
+vi.stubEnv('FIREBASE_EMULATOR_HOST', '');
+const { syncPatientData } = await import('./firebaseService');
+
+const docSnapshot = (fromCache: boolean, data?: object) => ({
+  metadata: { fromCache },
+  exists: () => data !== undefined,
+  data: () => data,
+});
+
+const collectionSnapshot = (fromCache: boolean, entries: object[]) => ({
+  metadata: { fromCache },
+  docs: entries.map(entry => ({ data: () => entry })),
+  size: entries.length,
+});
+
+const initialData = { ownerId: 'alice', profile: { name: 'Alice' } };
+
+describe('syncPatientData', () => {
+  beforeEach(() => {
+    listeners.clear();
+    vi.clearAllMocks();
+  });
+
+  it('ignores snapshots served from cache, e.g. when starting offline', () => {
+    const onData = vi.fn();
+    syncPatientData('alice', onData, initialData);
+
+    listeners.get('patients/alice')!(docSnapshot(true));
+    listeners.get('patients/alice/medications')!(collectionSnapshot(true, []));
+    listeners.get('patients/alice/symptoms')!(collectionSnapshot(true, []));
+
+    expect(batch.commit).not.toHaveBeenCalled();
+    expect(onData).not.toHaveBeenCalled();
+  });
+
+  it('creates a missing document once the server confirms it does not exist', () => {
+    syncPatientData('alice', vi.fn(), initialData);
+    listeners.get('patients/alice')!(docSnapshot(false));
+
+    expect(batch.set).toHaveBeenCalledWith({ path: 'patients/alice' }, expect.objectContaining({ ownerId: 'alice', relationship: 'Self' }), { merge: true });
+    expect(batch.commit).toHaveBeenCalledOnce();
+  });
+
+  it('passes on server snapshots', () => {
+    const onData = vi.fn();
+    syncPatientData('alice', onData, initialData);
+
+    listeners.get('patients/alice')!(docSnapshot(false, { ownerId: 'alice', profile: { age: 40 } }));
+    listeners.get('patients/alice/medications')!(collectionSnapshot(false, [{ id: 'm1' }]));
+
+    expect(onData).toHaveBeenCalledWith({ profile: { name: 'Alice', age: 40 } });
+    expect(onData).toHaveBeenCalledWith({ medications: [{ id: 'm1' }] });
+  });
+});
@@ -1,6 +1,38 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore, doc, onSnapshot, setDoc, updateDoc, arrayUnion, Firestore } from 'firebase/firestore';
-import { PatientProfile, SymptomLog, Medication, UploadedFile, MedicalRecord } from '../types';
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  doc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  setDoc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  Firestore
+} from 'firebase/firestore';
+import {
+  getAuth,
+  connectAuthEmulator,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  updateProfile,
+  sendEmailVerification,
+  signOut,
+  Auth,
+  User
+} from 'firebase/auth';
+import { getStorage, connectStorageEmulator, ref, uploadBytesResumable, getDownloadURL, FirebaseStorage } from 'firebase/storage';
+import { PatientProfile, PatientAccess, SymptomLog, UploadedFile } from '../types';
 
 // Configuration should be loaded from environment variables
 const firebaseConfig = {
@@ -13,6 +45,8 @@ const firebaseConfig = {
 };
 
 let db: Firestore | null = null;
+let auth: Auth | null = null;
+let storage: FirebaseStorage | null = null;
 let isInitialized = false;
 
 // Initialize Firebase only if config is present
@@ -20,6 +54,18 @@ try {
   if (process.env.FIREBASE_API_KEY) {
     const app = initializeApp(firebaseConfig);
     db = getFirestore(app);
+    auth = getAuth(app);
+    storage = getStorage(app);
+
+    // Point at the local emulator suite when configured (e.g. "127.0.0.1")
+    const emulatorHost = process.env.FIREBASE_EMULATOR_HOST;
+    if (emulatorHost) {
+      connectFirestoreEmulator(db, emulatorHost, 8080);
+      connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+      connectStorageEmulator(storage, emulatorHost, 9199);
+      console.log(`Using Firebase emulators on ${emulatorHost}`);
+    }
+
     isInitialized = true;
     console.log("Firebase initialized successfully");
   } else {
@@ -31,9 +77,164 @@ try {
 
 export const isFirebaseReady = () => isInitialized;
 
+// --- AUTHENTICATION ---
+
+export type { User as AuthUser };
+
 /**
- * Subscribes to a patient's document in Firestore.
- * Creates the document with default data if it doesn't exist.
+ * Subscribes to sign-in state. Returns an unsubscribe function.
+ */
+export const onAuthChange = (callback: (user: User | null) => void) => {
+  if (!auth) return () => {};
+  return onAuthStateChanged(auth, callback);
+};
+
+export const signInPatient = async (email: string, password: string) => {
+  if (!auth) throw new Error("Authentication is not available in offline mode.");
+  const credential = await signInWithEmailAndPassword(auth, email, password);
+  return credential.user;
+};
+
+/**
+ * Creates an account and seeds the patient's name on their document.
+ * The profile write merges, so it is safe whether or not the sync
+ * listener has already created the document. A verified email is
+ * required before caregiver access shared to that address applies.
+ */
+export const registerPatient = async (name: string, email: string, password: string) => {
+  if (!auth || !db) throw new Error("Authentication is not available in offline mode.");
+  const credential = await createUserWithEmailAndPassword(auth, email, password);
+  await updateProfile(credential.user, { displayName: name });
+  await setDoc(doc(db, "patients", credential.user.uid), {
+    ownerId: credential.user.uid,
+    relationship: 'Self',
+    profile: { name }
+  }, { merge: true });
+  await sendEmailVerification(credential.user);
+  return credential.user;
+};
+
+export const signOutPatient = async () => {
+  if (!auth) return;
+  await signOut(auth);
+};
+
+// --- PATIENT DATA ---
+
+// Version 2 keeps each entity in a subcollection under patients/{id}
+const SCHEMA_VERSION = 2;
+
+export type EntryCollection = 'medications' | 'symptoms' | 'history' | 'reports' | 'adherence' | 'chat' | 'insights' | 'vitals' | 'labs';
+type PatientCollection = EntryCollection;
+export type PagedCollection = 'symptoms' | 'reports' | 'adherence' | 'chat' | 'insights' | 'vitals' | 'labs';
+
+const PATIENT_COLLECTIONS: PatientCollection[] = ['medications', 'symptoms', 'history', 'reports', 'adherence', 'chat', 'insights', 'vitals', 'labs'];
+
+// Collections that grow without bound are listened to a page at a time, newest first
+const PAGING: Record<PagedCollection, { orderBy: string; pageSize: number }> = {
+  symptoms: { orderBy: 'date', pageSize: 100 },
+  reports: { orderBy: 'date', pageSize: 10 },
+  adherence: { orderBy: 'scheduledFor', pageSize: 500 },
+  chat: { orderBy: 'createdAt', pageSize: 50 },
+  insights: { orderBy: 'createdAt', pageSize: 60 },
+  vitals: { orderBy: 'takenAt', pageSize: 300 },
+  labs: { orderBy: 'collectedAt', pageSize: 300 },
+};
+
+const isPaged = (name: PatientCollection): name is PagedCollection => name in PAGING;
+
+const entryRef = (userId: string, name: PatientCollection, id: string) =>
+  doc(db!, "patients", userId, name, id);
+
+const logSyncError = (error: unknown) => console.error("Firebase Sync Error:", error);
+
+// Without a persistent cache, a listener started offline reports an empty,
+// missing result from cache; acting on it would wipe the data kept on this device
+const fromServer = <S extends { metadata: { fromCache: boolean } }>(onNext: (snap: S) => void) =>
+  (snap: S) => { if (!snap.metadata.fromCache) onNext(snap); };
+
+// Widens the listener of an active paged collection, keyed by "{userId}/{collection}"
+const pageLoaders = new Map<string, () => void>();
+
+const subscribeCollection = (userId: string, name: PatientCollection, onData: (data: any) => void) => {
+  const colRef = collection(db!, "patients", userId, name);
+  if (!isPaged(name)) {
+    return onSnapshot(colRef, fromServer((snap) => onData({ [name]: snap.docs.map(d => d.data()) })), logSyncError);
+  }
+
+  const paging = PAGING[name];
+  let pageLimit = paging.pageSize;
+  let unsubscribe = () => {};
+  const listen = () => {
+    unsubscribe();
+    // One extra document tells whether an older page exists
+    unsubscribe = onSnapshot(query(colRef, orderBy(paging.orderBy, 'desc'), limit(pageLimit + 1)), fromServer((snap) => {
+      onData({
+        [name]: snap.docs.slice(0, pageLimit).map(d => d.data()),
+        hasMore: { [name]: snap.size > pageLimit },
+      });
+    }), logSyncError);
+  };
+
+  const key = `${userId}/${name}`;
+  pageLoaders.set(key, () => {
+    pageLimit += paging.pageSize;
+    listen();
+  });
+  listen();
+
+  return () => {
+    unsubscribe();
+    pageLoaders.delete(key);
+  };
+};
+
+/**
+ * Loads the next (older) page of a paged collection for an active sync.
+ */
+export const loadMorePatientData = (userId: string, name: PagedCollection) => {
+  pageLoaders.get(`${userId}/${name}`)?.();
+};
+
+const hasLegacyArrays = (data: any) => PATIENT_COLLECTIONS.some(name => Array.isArray(data[name]));
+
+const migratingDocuments = new Set<string>();
+
+/**
+ * One-time migration of a version 1 document, which kept every entity in
+ * arrays on the patient document, into subcollections. Entries are copied
+ * before the arrays are removed, so an interrupted run is simply retried.
+ */
+const migrateToSubcollections = async (userId: string, data: any) => {
+  if (!db || migratingDocuments.has(userId)) return;
+  migratingDocuments.add(userId);
+  try {
+    const writes = PATIENT_COLLECTIONS.flatMap(name =>
+      (Array.isArray(data[name]) ? data[name] : []).map((entry: any) => ({ name, entry }))
+    );
+    // Batches are capped at 500 writes
+    for (let i = 0; i < writes.length; i += 400) {
+      const batch = writeBatch(db);
+      writes.slice(i, i + 400).forEach(({ name, entry }) => {
+        const ref = entry.id ? entryRef(userId, name, String(entry.id)) : doc(collection(db!, "patients", userId, name));
+        batch.set(ref, { ...entry, id: ref.id });
+      });
+      await batch.commit();
+    }
+    const cleared = Object.fromEntries(PATIENT_COLLECTIONS.map(name => [name, deleteField()]));
+    await updateDoc(doc(db, "patients", userId), { ...cleared, schemaVersion: SCHEMA_VERSION });
+  } finally {
+    migratingDocuments.delete(userId);
+  }
+};
+
+/**
+ * Subscribes to a patient's document and its subcollections in Firestore.
+ * onData receives partial updates, one key per entity (profile, medications,
+ * symptoms, history, reports, adherence, chat, insights, vitals, labs), plus `hasMore` for paged lists.
+ * Creates the document with default data if it doesn't exist. Only
+ * server-confirmed snapshots are passed on; while offline the caller keeps
+ * showing what it saved on this device.
  */
 export const syncPatientData = (
   userId: string, 
@@ -44,24 +245,121 @@ export const syncPatientData = (
 
   const docRef = doc(db, "patients", userId);
 
-  const unsubscribe = onSnapshot(docRef, (docSnap) => {
+  const unsubscribeDoc = onSnapshot(docRef, fromServer((docSnap) => {
     if (docSnap.exists()) {
-      onData(docSnap.data());
-    } else {
-      // Initialize document if it doesn't exist
-      setDoc(docRef, {
+      const data = docSnap.data();
+      // Documents created before caregiver access have no owner recorded
+      if (!data.ownerId && initialData.ownerId) {
+        updateDoc(docRef, { ownerId: initialData.ownerId, caregiverEmails: data.caregiverEmails || [] });
+      }
+      if (hasLegacyArrays(data)) {
+        migrateToSubcollections(userId, data).catch(e => console.error("Patient data migration failed", e));
+      }
+      // Fill gaps in partially written profiles, e.g. the name-only profile set at registration
+      onData({ profile: { ...initialData.profile, ...data.profile } });
+    } else if (initialData.ownerId) {
+      // Initialize the account holder's own document if it doesn't exist
+      const batch = writeBatch(db!);
+      batch.set(docRef, {
+        ownerId: initialData.ownerId,
+        relationship: 'Self',
+        caregiverEmails: [],
         profile: initialData.profile,
-        medications: initialData.medications,
-        symptoms: initialData.symptoms,
-        history: initialData.history,
-        reports: [] 
+        schemaVersion: SCHEMA_VERSION
       }, { merge: true });
+      (['medications', 'symptoms', 'history'] as PatientCollection[]).forEach(name => {
+        (initialData[name] || []).forEach((entry: { id: string }) => batch.set(entryRef(userId, name, entry.id), entry));
+      });
+      batch.commit().catch(logSyncError);
     }
-  }, (error) => {
-    console.error("Firebase Sync Error:", error);
+  }), logSyncError);
+
+  const unsubscribers = [unsubscribeDoc, ...PATIENT_COLLECTIONS.map(name => subscribeCollection(userId, name, onData))];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+// --- CAREGIVER ACCESS ---
+
+const toPatientAccess = (id: string, data: any): PatientAccess => ({
+  id,
+  name: data.profile?.name || 'Unnamed patient',
+  relationship: data.relationship || 'Self',
+  ownerId: data.ownerId,
+  caregiverEmails: data.caregiverEmails || [],
+});
+
+/**
+ * Subscribes to every patient document the account owns or has been
+ * granted caregiver access to. Both queries mirror the security rules,
+ * so Firestore can authorize them without reading other documents.
+ */
+export const subscribeAccessiblePatients = (
+  user: { uid: string; email: string | null },
+  onChange: (patients: PatientAccess[]) => void
+) => {
+  if (!db) return () => {};
+
+  let owned: PatientAccess[] = [];
+  let shared: PatientAccess[] = [];
+  const emit = () => {
+    const byId = new Map<string, PatientAccess>();
+    [...owned, ...shared].forEach(p => byId.set(p.id, p));
+    onChange(Array.from(byId.values()));
+  };
+
+  const patients = collection(db, "patients");
+  const unsubscribers = [
+    onSnapshot(query(patients, where("ownerId", "==", user.uid)), (snap) => {
+      owned = snap.docs.map(d => toPatientAccess(d.id, d.data()));
+      emit();
+    }, (error) => console.error("Firebase Sync Error:", error)),
+  ];
+
+  if (user.email) {
+    unsubscribers.push(
+      onSnapshot(query(patients, where("caregiverEmails", "array-contains", user.email.toLowerCase())), (snap) => {
+        shared = snap.docs.map(d => toPatientAccess(d.id, d.data()));
+        emit();
+      }, (error) => console.error("Firebase Sync Error:", error))
+    );
+  }
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+/**
+ * Creates a dependent's patient document owned by the current account.
+ */
+export const createDependentProfile = async (
+  ownerId: string,
+  relationship: string,
+  profile: PatientProfile
+) => {
+  if (!db) return null;
+  const docRef = await addDoc(collection(db, "patients"), {
+    ownerId,
+    relationship,
+    caregiverEmails: [],
+    profile,
+    schemaVersion: SCHEMA_VERSION
   });
+  return docRef.id;
+};
+
+// The rules compare against the lowercased token email, so the list is kept lowercase
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const grantCaregiverAccess = async (patientId: string, email: string) => {
+  if (!db) return;
+  const docRef = doc(db, "patients", patientId);
+  await updateDoc(docRef, { caregiverEmails: arrayUnion(normalizeEmail(email)) });
+};
 
-  return unsubscribe;
+// The raw value is removed too, in case an entry was stored without normalizing
+export const revokeCaregiverAccess = async (patientId: string, email: string) => {
+  if (!db) return;
+  const docRef = doc(db, "patients", patientId);
+  await updateDoc(docRef, { caregiverEmails: arrayRemove(normalizeEmail(email), email) });
 };
 
 export const updatePatientProfile = async (userId: string, profile: PatientProfile) => {
@@ -70,37 +368,123 @@ export const updatePatientProfile = async (userId: string, profile: PatientProfi
   await updateDoc(docRef, { profile });
 };
 
-export const addPatientSymptom = async (userId: string, symptom: SymptomLog) => {
+/**
+ * Creates or replaces a single entry, e.g. a medication or dose event.
+ * Entries are keyed by their id, so repeating a save is harmless. This
+ * replaced the whole-list writers such as updatePatientMedications when
+ * patient data moved into subcollections.
+ */
+export const savePatientEntry = async (userId: string, name: EntryCollection, entry: { id: string }) => {
   if (!db) return;
-  const docRef = doc(db, "patients", userId);
-  await updateDoc(docRef, {
-    symptoms: arrayUnion(symptom)
-  });
+  await setDoc(entryRef(userId, name, entry.id), entry);
 };
 
-export const addPatientReport = async (userId: string, file: UploadedFile) => {
+export const deletePatientEntry = async (userId: string, name: EntryCollection, entryId: string) => {
   if (!db) return;
-  const docRef = doc(db, "patients", userId);
-  
-  // Note: Storing base64 images in Firestore is not recommended for production due to 1MB limit.
-  // Ideally, use Firebase Storage. For this demo, we'll try to store it, but strip large data if needed.
-  
-  const safeFile = { ...file };
-  
-  // Simple check to prevent exceeding document limits (rough estimate)
-  if ((safeFile.previewUrl?.length || 0) > 800000) {
-    safeFile.previewUrl = ""; // clear heavy data
-    safeFile.processedUrl = "";
-    console.warn("Image too large for Firestore, stripping visual data for metadata storage.");
+  await deleteDoc(entryRef(userId, name, entryId));
+};
+
+export const addPatientSymptom = async (userId: string, symptom: SymptomLog) => {
+  await savePatientEntry(userId, 'symptoms', symptom);
+};
+
+// --- REPORT IMAGES ---
+
+const isDataUrl = (url?: string): url is string => !!url && url.startsWith('data:');
+
+const extensionFor = (dataUrl: string) => {
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+  return mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'bin';
+};
+
+// Uploads still running, by path; asking for the same file again waits for it instead of starting over
+const uploadsInFlight = new Map<string, { dataUrl: string; upload: Promise<string> }>();
+
+/**
+ * Uploads a base64 data URL to patients/{patientId}/reports/{reportId}/ and
+ * returns its Storage path. The upload is resumable, so large DICOM files
+ * survive a dropped connection and keep going where they stopped.
+ */
+const uploadReportImage = (patientId: string, reportId: string, variant: 'original' | 'processed', dataUrl: string) => {
+  if (!storage) return Promise.reject(new Error("Firebase Storage is not configured"));
+  const path = `patients/${patientId}/reports/${reportId}/${variant}.${extensionFor(dataUrl)}`;
+  const running = uploadsInFlight.get(path);
+  if (running?.dataUrl === dataUrl) return running.upload;
+  const upload = (async () => {
+    const blob = await (await fetch(dataUrl)).blob();
+    await uploadBytesResumable(ref(storage!, path), blob, { contentType: blob.type });
+    return path;
+  })().finally(() => {
+    if (uploadsInFlight.get(path)?.upload === upload) uploadsInFlight.delete(path);
+  });
+  uploadsInFlight.set(path, { dataUrl, upload });
+  return upload;
+};
+
+/**
+ * Moves any inline images on a report into Storage, returning the record
+ * with paths in place of the base64 data.
+ */
+export const storeReportImages = async (patientId: string, file: UploadedFile): Promise<UploadedFile> => {
+  const { previewUrl, processedUrl, ...record } = file;
+  const stored: UploadedFile = { ...record };
+  if (isDataUrl(previewUrl)) {
+    stored.originalPath = await uploadReportImage(patientId, file.id, 'original', previewUrl);
   }
+  if (isDataUrl(processedUrl)) {
+    stored.processedPath = await uploadReportImage(patientId, file.id, 'processed', processedUrl);
+  }
+  return stored;
+};
+
+export const getReportImageUrl = async (path: string) => {
+  if (!storage) throw new Error("Firebase Storage is not configured");
+  return getDownloadURL(ref(storage, path));
+};
 
-  await updateDoc(docRef, {
-    reports: arrayUnion(safeFile)
+/**
+ * The original upload as base64 data (no prefix), for running another
+ * analysis on a saved report. Null when the file was not kept.
+ */
+export const getReportOriginal = async (file: UploadedFile): Promise<string | null> => {
+  if (isDataUrl(file.previewUrl)) return file.previewUrl.split(',')[1];
+  if (!file.originalPath) return null;
+  const blob = await (await fetch(await getReportImageUrl(file.originalPath))).blob();
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
   });
+  return dataUrl.split(',')[1];
 };
 
-export const updatePatientMedications = async (userId: string, medications: Medication[]) => {
+export const addPatientReport = async (userId: string, file: UploadedFile) => {
   if (!db) return;
-  const docRef = doc(db, "patients", userId);
-  await updateDoc(docRef, { medications });
-};
\ No newline at end of file
+  const record = await storeReportImages(userId, file);
+  await setDoc(entryRef(userId, 'reports', record.id), record);
+};
+
+export const hasInlineReportImages = (reports: UploadedFile[]) =>
+  reports.some(r => isDataUrl(r.previewUrl) || isDataUrl(r.processedUrl));
+
+const migratingReports = new Set<string>();
+
+/**
+ * One-off migration for reports saved before images moved to Storage.
+ * Uploads their inline images and rewrites each report with paths.
+ * Reports whose images were already stripped for size have nothing to recover.
+ */
+export const migrateInlineReports = async (userId: string, reports: UploadedFile[]) => {
+  if (!db) return;
+  // Snapshots keep arriving while uploads run; only migrate a report once at a time
+  const pending = reports.filter(r => hasInlineReportImages([r]) && !migratingReports.has(r.id));
+  await Promise.all(pending.map(async (report) => {
+    migratingReports.add(report.id);
+    try {
+      await setDoc(entryRef(userId, 'reports', report.id), await storeReportImages(userId, report));
+    } finally {
+      migratingReports.delete(report.id);
+    }
+  }));
+};
@@ -1,5 +1,8 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { PatientProfile, SymptomLog, Medication, MedicalRecord, AnalysisResult } from "../types";
+import { GoogleGenAI, Type, Schema, GenerateContentParameters } from "@google/genai";
+import { AIInsight, AnalysisResult, AIError, LabExtraction } from "../types";
+import type { AIProvider, HealthInsightInput, ChatRequest, DocumentContext } from "./aiProvider";
+import { buildSystemInstruction } from "./chatService";
+import { validateInsight, validateAnalysis, validateLabExtraction, Validation } from "./aiValidation";
 
 // Helper to initialize the client safely
 const getGenAIClient = () => {
@@ -10,17 +13,142 @@ const getGenAIClient = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
+const insightError = (summary: string, error: AIError): AIInsight => ({
+  healthScore: 0,
+  summary,
+  riskFactors: [],
+  recommendations: [],
+  doctorSpecialty: "General Physician",
+  urgency: "Low",
+  error
+});
+
+const MISSING_KEY: AIError = { code: "missing-key", message: "API_KEY not set" };
+
+const INSIGHT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    healthScore: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+    summary: { type: Type.STRING },
+    riskFactors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    doctorSpecialty: { type: Type.STRING },
+    urgency: { type: Type.STRING, enum: ["Low", "Moderate", "High", "Emergency"] },
+  },
+  required: ["healthScore", "summary", "riskFactors", "recommendations", "doctorSpecialty", "urgency"],
+};
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          confidence: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          box_2d: {
+            type: Type.OBJECT,
+            properties: {
+              ymin: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+              xmin: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+              ymax: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+              xmax: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+            },
+            required: ["ymin", "xmin", "ymax", "xmax"],
+          },
+        },
+        required: ["label", "confidence", "explanation"],
+      },
+    },
+    disclaimer: { type: Type.STRING },
+  },
+  required: ["summary", "findings", "disclaimer"],
+};
+
+const LAB_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    collectedAt: { type: Type.STRING },
+    values: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          value: { type: Type.NUMBER },
+          unit: { type: Type.STRING },
+          referenceLow: { type: Type.NUMBER },
+          referenceHigh: { type: Type.NUMBER },
+          referenceText: { type: Type.STRING },
+          collectedAt: { type: Type.STRING },
+        },
+        required: ["name", "value", "unit"],
+      },
+    },
+  },
+  required: ["values"],
+};
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Calls the model until its JSON passes validation. Invalid output is
+ * retried, since sampling again usually fixes it; request errors are not.
+ */
+const generateValidated = async <T>(
+  ai: GoogleGenAI,
+  request: GenerateContentParameters,
+  validate: (raw: unknown) => Validation<T>,
+  label: string
+): Promise<{ value: T } | { error: AIError }> => {
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let text: string | undefined;
+    try {
+      text = (await ai.models.generateContent(request)).text;
+    } catch (error) {
+      console.error(`Gemini ${label} Error:`, error);
+      return { error: { code: "request-failed", message: error instanceof Error ? error.message : String(error) } };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text || "");
+    } catch {
+      problems = ["Response was not valid JSON"];
+      console.warn(`Gemini ${label} returned invalid JSON (attempt ${attempt}/${MAX_ATTEMPTS})`);
+      continue;
+    }
+
+    const result = validate(raw);
+    if (!('errors' in result)) {
+      if (result.repairs.length > 0) console.warn(`Gemini ${label} response repaired:`, result.repairs);
+      return { value: result.value };
+    }
+    problems = result.errors;
+    console.warn(`Gemini ${label} response rejected (attempt ${attempt}/${MAX_ATTEMPTS}):`, result.errors);
+  }
+  return { error: { code: "invalid-response", message: problems.join("; ") } };
+};
+
 /**
  * Generates a comprehensive health insight report based on patient data.
  */
-export const generateHealthInsights = async (
-  profile: PatientProfile,
-  symptoms: SymptomLog[],
-  medications: Medication[],
-  history: MedicalRecord[]
-): Promise<string> => {
+const generateHealthInsights = async ({
+  profile,
+  symptoms,
+  medications,
+  history,
+  interactions,
+  adherence,
+  vitals
+}: HealthInsightInput): Promise<AIInsight> => {
   const ai = getGenAIClient();
-  if (!ai) return "API Key missing. Cannot generate insights.";
+  if (!ai) return insightError("API Key missing. Cannot generate insights.", MISSING_KEY);
 
   const prompt = `
     You are MediQuest AI, an advanced medical assistant. Analyze the following patient data and provide a JSON response.
@@ -29,6 +157,11 @@ export const generateHealthInsights = async (
     Symptoms Logs: ${JSON.stringify(symptoms)}
     Current Medications: ${JSON.stringify(medications)}
     Medical History: ${JSON.stringify(history)}
+    Medication Interaction Warnings (from a deterministic drug/allergy checker): ${JSON.stringify(
+      interactions.map(({ kind, severity, medications, allergen, description }) => ({ kind, severity, medications, allergen, description }))
+    )}
+    Medication Adherence (last ${adherence?.windowDays ?? 7} days, late doses count as taken): ${JSON.stringify(adherence)}
+    Vital Signs (latest reading per vital with its reference band, averages in mg/dL, mmHg systolic, bpm, % and kg): ${JSON.stringify(vitals)}
 
     Task:
     1. Calculate a hypothetical 'Health Risk Score' (0-100, where 100 is perfect health, 0 is critical).
@@ -37,46 +170,28 @@ export const generateHealthInsights = async (
     4. Provide 3 actionable health recommendations.
     5. Recommend the most appropriate specialist doctor type (e.g., Cardiologist, General Physician).
     6. Estimate urgency level (Low, Moderate, High, Emergency).
-
-    Return ONLY raw JSON with this schema:
-    {
-      "healthScore": number,
-      "summary": "string",
-      "riskFactors": ["string", "string", "string"],
-      "recommendations": ["string", "string", "string"],
-      "doctorSpecialty": "string",
-      "urgency": "Low" | "Moderate" | "High" | "Emergency"
-    }
+    7. Treat every Major or Contraindicated interaction warning as a risk factor and address it in the recommendations.
+    8. If medication adherence is below 80%, factor missed doses into the score and recommendations.
+    9. Treat vitals outside their normal band as risk factors, and relate them to the medications meant to control them (e.g. glucose and diabetes drugs, blood pressure and antihypertensives).
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-      },
-    });
+  const result = await generateValidated(ai, {
+    model: "gemini-3-flash-preview",
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: INSIGHT_SCHEMA,
+    },
+  }, validateInsight, "Insight");
 
-    return response.text || "{}";
-  } catch (error) {
-    console.error("Gemini Insight Error:", error);
-    return JSON.stringify({
-      healthScore: 0,
-      summary: "Error generating insights. Please try again.",
-      riskFactors: [],
-      recommendations: [],
-      doctorSpecialty: "General Physician",
-      urgency: "Low"
-    });
-  }
+  return "value" in result ? result.value : insightError("Error generating insights. Please try again.", result.error);
 };
 
 /**
  * Processes a medical image to remove noise and crop to the region of interest.
  * Returns the processed image as a base64 string (data only, no prefix).
  */
-export const processMedicalImage = async (
+const processMedicalImage = async (
   base64Data: string,
   mimeType: string
 ): Promise<string | null> => {
@@ -119,18 +234,13 @@ export const processMedicalImage = async (
  * Analyzes an uploaded medical document or image.
  * Returns structured JSON with bounding boxes for localization.
  */
-export const analyzeMedicalDocument = async (
+const analyzeMedicalDocument = async (
   base64Data: string,
-  mimeType: string
+  mimeType: string,
+  context?: DocumentContext
 ): Promise<AnalysisResult> => {
   const ai = getGenAIClient();
-  const defaultError: AnalysisResult = { 
-    summary: "Analysis failed.", 
-    findings: [], 
-    disclaimer: "System Error." 
-  };
-
-  if (!ai) return defaultError;
+  if (!ai) return { summary: "Analysis failed.", findings: [], disclaimer: "System Error.", error: MISSING_KEY };
 
   const prompt = `
     You are an expert medical imaging assistant. 
@@ -142,61 +252,124 @@ export const analyzeMedicalDocument = async (
     3. Provide a brief summary of findings.
 
     IMPORTANT: 
-    - Coordinates must be normalized (0.0 to 1.0) in the order [ymin, xmin, ymax, xmax].
+    - Return each region as "box_2d": an object with numeric "ymin", "xmin", "ymax" and "xmax" fields.
+    - Coordinates must be normalized (0.0 to 1.0): y from the top edge, x from the left edge, min below max.
+    - Omit "box_2d" for findings that have no location on the image.
     - This is for educational/screening purposes only. Do not provide a definitive diagnosis.
+    ${context?.kind === 'pdf-page' ? `
+    The image is one page of a PDF. Its embedded text layer is below (empty for scanned pages).
+    Prefer it over reading the image for exact names and values, and summarize this page only.
+    ---
+    ${context.text}
+    ---` : ""}
+    ${context?.kind === 'dicom-frame' ? `
+    The image is one frame of a DICOM study, rendered at full resolution with a display window applied.
+    Study details: ${context.description}
+    Describe this frame only.` : ""}
+  `;
 
-    Return JSON matching this schema:
-    {
-      "summary": "string",
-      "findings": [
+  const result = await generateValidated(ai, {
+    model: "gemini-3-flash-preview", // Strong multimodal reasoning
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: base64Data,
+          },
+        },
         {
-          "label": "string (e.g. 'Possible Nodule', 'Fracture', 'High Glucose Value')",
-          "confidence": "string (e.g. 'High', 'Medium')",
-          "explanation": "string",
-          "box_2d": { "ymin": number, "xmin": number, "ymax": number, "xmax": number } // Optional if not applicable
-        }
+          text: prompt,
+        },
       ],
-      "disclaimer": "string"
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: ANALYSIS_SCHEMA,
     }
+  }, validateAnalysis, "Image Analysis");
+
+  if ("value" in result) return result.value;
+  return {
+    summary: "Could not process image.",
+    findings: [],
+    disclaimer: "Error occurred during analysis.",
+    error: result.error
+  };
+};
+
+/**
+ * Reads the numeric results table of a lab report into structured values.
+ */
+const extractLabResults = async (
+  base64Data: string,
+  mimeType: string
+): Promise<LabExtraction> => {
+  const ai = getGenAIClient();
+  if (!ai) return { values: [], error: MISSING_KEY };
+
+  const prompt = `
+    You are a meticulous medical lab report transcriber.
+    Extract every numeric test result from the provided lab report.
+
+    For each result return:
+    - name: the test name exactly as printed (e.g. "Hemoglobin A1c").
+    - value: the numeric result only. Skip results that are not numbers (e.g. "Negative", "<0.5").
+    - unit: the unit as printed (e.g. "mg/dL", "%"), or an empty string if none.
+    - referenceLow / referenceHigh: the bounds of the printed reference range, when present.
+    - referenceText: the reference range exactly as printed (e.g. "70-99", "<5.7").
+    - collectedAt: only if this result has its own collection date, as YYYY-MM-DD.
+
+    Also return the specimen collection date of the report as collectedAt (YYYY-MM-DD), if shown.
+    Do not infer, calculate or interpret values. If the document is not a lab report, return an empty values list.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview", // Strong multimodal reasoning
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data,
-            },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-      }
-    });
+  const result = await generateValidated(ai, {
+    model: "gemini-3-flash-preview",
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data: base64Data } },
+        { text: prompt },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: LAB_SCHEMA,
+    },
+  }, validateLabExtraction, "Lab Extraction");
 
-    if (response.text) {
-      const parsed = JSON.parse(response.text);
-      // Ensure findings is always an array to prevent UI crashes
-      return {
-        ...parsed,
-        findings: Array.isArray(parsed.findings) ? parsed.findings : []
-      } as AnalysisResult;
-    }
-    return defaultError;
+  return "value" in result ? result.value : { values: [], error: result.error };
+};
 
-  } catch (error) {
-    console.error("Gemini Image Analysis Error:", error);
-    return {
-      summary: "Could not process image.",
-      findings: [],
-      disclaimer: "Error occurred during analysis."
-    };
+/**
+ * Streams a health assistant reply. The record goes in the system
+ * instruction so every turn of the conversation is grounded in it.
+ */
+async function* streamChat({ sources, messages }: ChatRequest): AsyncGenerator<string> {
+  const ai = getGenAIClient();
+  if (!ai) throw new Error(MISSING_KEY.message);
+
+  const stream = await ai.models.generateContentStream({
+    model: "gemini-3-flash-preview",
+    contents: messages.map(m => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.content }],
+    })),
+    config: {
+      systemInstruction: buildSystemInstruction(sources),
+    },
+  });
+
+  for await (const chunk of stream) {
+    if (chunk.text) yield chunk.text;
   }
-};
\ No newline at end of file
+}
+
+export const geminiProvider: AIProvider = {
+  name: "Gemini",
+  generateHealthInsights,
+  enhanceImage: processMedicalImage,
+  analyzeDocument: analyzeMedicalDocument,
+  extractLabResults,
+  streamChat,
+};
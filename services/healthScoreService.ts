@@ -0,0 +1,150 @@
+import { AIInsight, HealthScoreRecord, ScoreFactor, ScoreFactorId, ScoreInputs } from '../types';
+import type { HealthInsightInput } from './aiProvider';
+
+/**
+ * Explains health scores. Each saved score is broken down into fixed,
+ * rule-based factors; whatever the model weighed beyond them shows up as a
+ * separate adjustment, so the factors always add up to the score shown.
+ */
+
+// Symptoms older than this no longer count towards the current burden
+export const SYMPTOM_WINDOW_DAYS = 14;
+
+const clampPoints = (points: number, floor: number) => Math.max(floor, Math.round(points));
+
+export const calculateBmi = (heightCm: number, weightKg: number): number | null => {
+  if (!(heightCm > 0) || !(weightKg > 0)) return null;
+  return Math.round((weightKg / (heightCm / 100) ** 2) * 10) / 10;
+};
+
+export const collectScoreInputs = (
+  { profile, symptoms, medications, history, interactions, adherence }: HealthInsightInput,
+  now: Date = new Date()
+): ScoreInputs => {
+  const since = now.getTime() - SYMPTOM_WINDOW_DAYS * 86400000;
+  const recent = symptoms.filter(s => new Date(s.date).getTime() >= since);
+  return {
+    bmi: calculateBmi(profile.height, profile.weight),
+    smoking: profile.lifestyle.smoking,
+    alcohol: profile.lifestyle.alcohol,
+    activityLevel: profile.lifestyle.activityLevel,
+    activeConditions: history.filter(r => r.type === 'Condition' && r.status !== 'Resolved').map(r => r.name),
+    recentSymptoms: recent.length,
+    averageSeverity: recent.length > 0
+      ? Math.round((recent.reduce((sum, s) => sum + s.severity, 0) / recent.length) * 10) / 10
+      : null,
+    activeMedications: medications.filter(m => m.active).length,
+    seriousInteractions: interactions.filter(w => w.severity === 'Major' || w.severity === 'Contraindicated').length,
+    adherencePercent: adherence?.overallPercent ?? null,
+  };
+};
+
+const bmiFactor = ({ bmi }: ScoreInputs): ScoreFactor => {
+  const factor = (points: number, detail: string): ScoreFactor => ({ id: 'bmi', label: 'BMI', points, detail });
+  if (bmi === null) return factor(0, 'Height or weight not recorded.');
+  if (bmi < 18.5) return factor(-5, `BMI ${bmi} is underweight (below 18.5).`);
+  if (bmi < 25) return factor(0, `BMI ${bmi} is in the healthy range.`);
+  if (bmi < 30) return factor(-3, `BMI ${bmi} is overweight (25-30).`);
+  if (bmi < 35) return factor(-8, `BMI ${bmi} is obese (30-35).`);
+  return factor(-12, `BMI ${bmi} is severely obese (35 or more).`);
+};
+
+const lifestyleFactor = ({ smoking, alcohol, activityLevel }: ScoreInputs): ScoreFactor => {
+  const notes: string[] = [];
+  let points = 0;
+  if (smoking) { points -= 10; notes.push('smoking (-10)'); }
+  if (alcohol) { points -= 3; notes.push('alcohol (-3)'); }
+  if (activityLevel === 'Sedentary') { points -= 5; notes.push('sedentary (-5)'); }
+  return {
+    id: 'lifestyle',
+    label: 'Lifestyle',
+    points,
+    detail: notes.length > 0 ? `Counted: ${notes.join(', ')}.` : `Non-smoker, ${activityLevel.toLowerCase()} activity.`,
+  };
+};
+
+const conditionsFactor = ({ activeConditions }: ScoreInputs): ScoreFactor => ({
+  id: 'conditions',
+  label: 'Conditions',
+  points: clampPoints(-5 * activeConditions.length, -20),
+  detail: activeConditions.length > 0
+    ? `${activeConditions.length} ongoing: ${activeConditions.join(', ')} (-5 each, at most -20).`
+    : 'No ongoing conditions.',
+});
+
+const symptomsFactor = ({ recentSymptoms, averageSeverity }: ScoreInputs): ScoreFactor => ({
+  id: 'symptoms',
+  label: 'Symptom burden',
+  points: averageSeverity === null ? 0 : clampPoints(-averageSeverity * 2 - Math.max(0, recentSymptoms - 5), -25),
+  detail: averageSeverity === null
+    ? `No symptoms logged in the last ${SYMPTOM_WINDOW_DAYS} days.`
+    : `${recentSymptoms} logged in the last ${SYMPTOM_WINDOW_DAYS} days, average severity ${averageSeverity}/10.`,
+});
+
+const medicationsFactor = ({ activeMedications, seriousInteractions, adherencePercent }: ScoreInputs): ScoreFactor => {
+  const notes = [`${activeMedications} active`];
+  let points = -8 * seriousInteractions;
+  if (seriousInteractions > 0) notes.push(`${seriousInteractions} serious interaction${seriousInteractions === 1 ? '' : 's'} (-8 each)`);
+  if (adherencePercent !== null) {
+    notes.push(`adherence ${adherencePercent}%`);
+    if (adherencePercent < 80) points -= (80 - adherencePercent) / 4;
+  }
+  return { id: 'medications', label: 'Medications', points: clampPoints(points, -25), detail: `${notes.join(', ')}.` };
+};
+
+/**
+ * Splits a score into rule-based factors plus the model's own adjustment.
+ */
+export const scoreBreakdown = (inputs: ScoreInputs, score: number): ScoreFactor[] => {
+  const factors = [bmiFactor, lifestyleFactor, conditionsFactor, symptomsFactor, medicationsFactor].map(f => f(inputs));
+  const ruleScore = 100 + factors.reduce((sum, f) => sum + f.points, 0);
+  const adjustment = score - ruleScore;
+  factors.push({
+    id: 'model',
+    label: 'AI assessment',
+    points: adjustment,
+    detail: adjustment === 0
+      ? 'The AI agreed with the factors above.'
+      : `The AI scored ${Math.abs(adjustment)} point${Math.abs(adjustment) === 1 ? '' : 's'} ${adjustment > 0 ? 'higher' : 'lower'} than the factors above, based on the full record.`,
+  });
+  return factors;
+};
+
+export const createScoreRecord = (
+  insight: AIInsight,
+  input: HealthInsightInput,
+  provider: string,
+  dataVersion: string,
+  now: Date = new Date()
+): HealthScoreRecord => {
+  const inputs = collectScoreInputs(input, now);
+  return {
+    ...insight,
+    id: now.getTime().toString(),
+    createdAt: now.toISOString(),
+    provider,
+    dataVersion,
+    inputs,
+    breakdown: scoreBreakdown(inputs, insight.healthScore),
+  };
+};
+
+export interface FactorChange {
+  id: ScoreFactorId;
+  label: string;
+  change: number; // Points gained (+) or lost (-) since the previous score
+}
+
+/**
+ * Why a score moved: the factors that changed since the previous record,
+ * largest change first.
+ */
+export const compareScores = (current: HealthScoreRecord, previous: HealthScoreRecord): FactorChange[] =>
+  current.breakdown
+    .map(f => ({
+      id: f.id,
+      label: f.label,
+      change: f.points - (previous.breakdown.find(p => p.id === f.id)?.points ?? 0),
+    }))
+    .filter(c => c.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
@@ -0,0 +1,288 @@
+import { BoundingBox, PreprocessingRecord, PreprocessingSettings } from '../types';
+
+/**
+ * Deterministic preprocessing for uploaded scans, run in the browser on canvas
+ * pixel data. The same image and settings always give the same result, and
+ * every step only remaps or smooths pixels that are already there.
+ */
+
+export const DEFAULT_PREPROCESSING: PreprocessingSettings = {
+  autoCrop: { enabled: true, threshold: 16, margin: 8 },
+  denoise: { enabled: true, filter: 'median', radius: 1 },
+  windowLevel: { enabled: false, window: 255, level: 128 },
+  equalize: { enabled: false, strength: 0.5 },
+  aiEnhance: false,
+};
+
+// Longer sides are scaled down to this first; the analysis model reads images at a lower resolution anyway
+export const MAX_PREPROCESS_SIZE = 2048;
+
+// Median windows grow quadratically, so larger radii would stall the tab on big scans
+export const MAX_MEDIAN_RADIUS = 2;
+export const MAX_GAUSSIAN_RADIUS = 3;
+
+// RGBA pixels, as in ImageData
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const isPreprocessingEnabled = (settings: PreprocessingSettings) =>
+  settings.autoCrop.enabled || settings.denoise.enabled || settings.windowLevel.enabled || settings.equalize.enabled || settings.aiEnhance;
+
+const luminance = (data: Uint8ClampedArray, i: number) => (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+
+const clampIndex = (i: number, length: number) => (i < 0 ? 0 : i >= length ? length - 1 : i);
+
+/**
+ * The smallest rectangle outside of which every row and column is border:
+ * fewer than 1% of its pixels brighter than `threshold`. Null for an image
+ * that is border throughout.
+ */
+export const findContentBounds = ({ data, width, height }: Pixels, threshold: number): PixelRect | null => {
+  const rowHasContent = (y: number) => {
+    let count = 0;
+    for (let x = 0; x < width; x++) if (luminance(data, (y * width + x) * 4) > threshold) count++;
+    return count > width * 0.01;
+  };
+  let top = 0;
+  while (top < height && !rowHasContent(top)) top++;
+  if (top === height) return null;
+  let bottom = height - 1;
+  while (!rowHasContent(bottom)) bottom--;
+
+  const columnHasContent = (x: number) => {
+    let count = 0;
+    for (let y = top; y <= bottom; y++) if (luminance(data, (y * width + x) * 4) > threshold) count++;
+    return count > (bottom - top + 1) * 0.01;
+  };
+  let left = 0;
+  while (left < width && !columnHasContent(left)) left++;
+  if (left === width) return null;
+  let right = width - 1;
+  while (!columnHasContent(right)) right--;
+
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+export const cropPixels = ({ data, width }: Pixels, rect: PixelRect): Pixels => {
+  const out = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * width + rect.x) * 4;
+    out.set(data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return { data: out, width: rect.width, height: rect.height };
+};
+
+/**
+ * Median of each pixel's neighbourhood, per colour channel. Removes speckle
+ * and salt-and-pepper noise while keeping edges sharp.
+ */
+export const medianFilter = ({ data, width, height }: Pixels, radius: number): Pixels => {
+  const out = new Uint8ClampedArray(data);
+  const window = new Uint8Array((2 * radius + 1) ** 2);
+  const middle = window.length >> 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let n = 0;
+        for (let dy = -radius; dy <= radius; dy++) {
+          const row = clampIndex(y + dy, height) * width;
+          for (let dx = -radius; dx <= radius; dx++) {
+            // Insertion sort as we go; windows are at most 25 values
+            const value = data[(row + clampIndex(x + dx, width)) * 4 + c];
+            let j = n++;
+            while (j > 0 && window[j - 1] > value) {
+              window[j] = window[j - 1];
+              j--;
+            }
+            window[j] = value;
+          }
+        }
+        out[i + c] = window[middle];
+      }
+    }
+  }
+  return { data: out, width, height };
+};
+
+/**
+ * Gaussian blur with sigma radius/2, as two one-dimensional passes. Smooths
+ * grain more evenly than the median filter but softens edges too.
+ */
+export const gaussianBlur = ({ data, width, height }: Pixels, radius: number): Pixels => {
+  const sigma = radius / 2;
+  const kernel = Array.from({ length: 2 * radius + 1 }, (_, k) => Math.exp(-((k - radius) ** 2) / (2 * sigma * sigma)));
+  const total = kernel.reduce((sum, w) => sum + w, 0);
+  const weights = kernel.map(w => w / total);
+
+  const pass = (input: Uint8ClampedArray, horizontal: boolean) => {
+    const output = new Uint8ClampedArray(input);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) {
+          let sum = 0;
+          for (let k = -radius; k <= radius; k++) {
+            const j = horizontal ? y * width + clampIndex(x + k, width) : clampIndex(y + k, height) * width + x;
+            sum += input[j * 4 + c] * weights[k + radius];
+          }
+          output[i + c] = Math.round(sum);
+        }
+      }
+    }
+    return output;
+  };
+
+  return { data: pass(pass(data, true), false), width, height };
+};
+
+/**
+ * Maps brightness `level - window/2` to black and `level + window/2` to white,
+ * clipping everything outside.
+ */
+export const windowLevelTable = (window: number, level: number): Uint8Array => {
+  const low = level - Math.max(1, window) / 2;
+  return Uint8Array.from({ length: 256 }, (_, v) => Math.min(255, Math.max(0, Math.round(((v - low) / Math.max(1, window)) * 255))));
+};
+
+/**
+ * Spreads brightness so each level is used about equally, built from the
+ * luminance histogram. `strength` blends it with the unchanged image.
+ */
+export const equalizationTable = ({ data }: Pixels, strength: number): Uint8Array => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+  const cdf: number[] = [];
+  histogram.reduce((sum, count, v) => (cdf[v] = sum + count), 0);
+  const pixels = data.length / 4;
+  const first = cdf.find(count => count > 0) ?? 0;
+  return Uint8Array.from({ length: 256 }, (_, v) => {
+    const equalized = pixels === first ? v : ((cdf[v] - first) / (pixels - first)) * 255;
+    return Math.min(255, Math.max(0, Math.round(v + (equalized - v) * strength)));
+  });
+};
+
+export const applyTable = ({ data, width, height }: Pixels, table: Uint8Array): Pixels => {
+  const out = new Uint8ClampedArray(data);
+  for (let i = 0; i < out.length; i += 4) {
+    out[i] = table[out[i]];
+    out[i + 1] = table[out[i + 1]];
+    out[i + 2] = table[out[i + 2]];
+  }
+  return { data: out, width, height };
+};
+
+/**
+ * Runs the enabled steps: auto-crop, denoise, window/level, then histogram
+ * equalization. `crop` is the kept region in input pixels, when anything was cut.
+ */
+export const preprocessPixels = (input: Pixels, settings: PreprocessingSettings): { pixels: Pixels; crop?: PixelRect } => {
+  let pixels = input;
+  let crop: PixelRect | undefined;
+
+  if (settings.autoCrop.enabled) {
+    const bounds = findContentBounds(pixels, settings.autoCrop.threshold);
+    if (bounds) {
+      const margin = Math.max(0, settings.autoCrop.margin);
+      const x = Math.max(0, bounds.x - margin);
+      const y = Math.max(0, bounds.y - margin);
+      const rect = {
+        x,
+        y,
+        width: Math.min(pixels.width, bounds.x + bounds.width + margin) - x,
+        height: Math.min(pixels.height, bounds.y + bounds.height + margin) - y,
+      };
+      if (rect.width < pixels.width || rect.height < pixels.height) {
+        pixels = cropPixels(pixels, rect);
+        crop = rect;
+      }
+    }
+  }
+
+  if (settings.denoise.enabled && settings.denoise.radius > 0) {
+    pixels = settings.denoise.filter === 'median'
+      ? medianFilter(pixels, Math.min(settings.denoise.radius, MAX_MEDIAN_RADIUS))
+      : gaussianBlur(pixels, Math.min(settings.denoise.radius, MAX_GAUSSIAN_RADIUS));
+  }
+
+  if (settings.windowLevel.enabled) {
+    pixels = applyTable(pixels, windowLevelTable(settings.windowLevel.window, settings.windowLevel.level));
+  }
+
+  if (settings.equalize.enabled && settings.equalize.strength > 0) {
+    pixels = applyTable(pixels, equalizationTable(pixels, Math.min(1, settings.equalize.strength)));
+  }
+
+  return { pixels, crop };
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('The image could not be decoded'));
+  img.src = src;
+});
+
+/**
+ * Preprocesses an image URL (data or download URL) into a PNG data URL, with
+ * the record of what was done. The model enhancement step is not run here.
+ */
+export const preprocessImage = async (
+  imageUrl: string,
+  settings: PreprocessingSettings
+): Promise<{ dataUrl: string; record: PreprocessingRecord }> => {
+  const img = await loadImage(imageUrl);
+  const scale = Math.min(1, MAX_PREPROCESS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { pixels, crop } = preprocessPixels({ data: source.data, width: source.width, height: source.height }, settings);
+
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+
+  const record: PreprocessingRecord = { settings, width: pixels.width, height: pixels.height };
+  if (crop) record.crop = toBoundingBox(crop, source.width, source.height);
+  return { dataUrl: canvas.toDataURL('image/png'), record };
+};
+
+const toBoundingBox = (rect: PixelRect, width: number, height: number): BoundingBox => ({
+  xmin: rect.x / width,
+  ymin: rect.y / height,
+  xmax: (rect.x + rect.width) / width,
+  ymax: (rect.y + rect.height) / height,
+});
+
+/**
+ * Short description of the steps applied, e.g. "Cropped · Median 3×3 · Equalized 50%".
+ */
+export const describePreprocessing = (record: PreprocessingRecord): string => {
+  const { autoCrop, denoise, windowLevel, equalize } = record.settings;
+  const steps: string[] = [];
+  if (autoCrop.enabled && record.crop) steps.push('Cropped');
+  if (denoise.enabled && denoise.radius > 0) {
+    const size = 2 * denoise.radius + 1;
+    steps.push(denoise.filter === 'median' ? `Median ${size}×${size}` : `Gaussian r${denoise.radius}`);
+  }
+  if (windowLevel.enabled) steps.push(`W ${windowLevel.window} / L ${windowLevel.level}`);
+  if (equalize.enabled && equalize.strength > 0) steps.push(`Equalized ${Math.round(equalize.strength * 100)}%`);
+  if (record.aiEnhanced) steps.push('AI enhanced');
+  return steps.join(' · ') || 'Unchanged';
+};
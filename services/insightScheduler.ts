@@ -0,0 +1,103 @@
+import { AIInsight } from '../types';
+import type { HealthInsightInput } from './aiProvider';
+import { hashString, stableStringify } from './hash';
+
+/**
+ * Decides when health insights are regenerated. Inputs are fingerprinted;
+ * an unchanged fingerprint returns the cached insight instead of calling the
+ * model again, and data changes regenerate automatically after a quiet period.
+ */
+
+// Long enough to cover a burst of edits or a Firestore snapshot arriving in parts
+export const INSIGHT_DEBOUNCE_MS = 4000;
+
+// Each cached insight belongs to one data version; old versions are rarely revisited
+const CACHE_LIMIT = 20;
+
+const byId = <T extends { id: string }>(items: T[]) => [...items].sort((a, b) => a.id.localeCompare(b.id));
+
+/**
+ * Fingerprint of the data an insight is generated from. Lists are sorted by
+ * id, so the version does not change when only the loading order does.
+ */
+export const getDataVersion = ({ profile, symptoms, medications, history, adherence, vitals }: HealthInsightInput): string =>
+  hashString(stableStringify({
+    profile,
+    symptoms: byId(symptoms),
+    medications: byId(medications),
+    history: byId(history),
+    // Interactions follow from the medications; adherence only counts as a whole
+    adherence: adherence?.overallPercent ?? null,
+    vitals,
+  })).toString(16).padStart(8, '0');
+
+export interface InsightResult {
+  insight: AIInsight;
+  fromCache: boolean; // False only for the call that actually ran the model
+}
+
+export interface InsightScheduler {
+  /** Generates now, unless this version is cached or already being generated. */
+  request(version: string, input: HealthInsightInput): Promise<InsightResult>;
+  /** Like request, but waits for the data to settle first. Replaces any pending call. */
+  schedule(version: string, input: HealthInsightInput, onResult: (result: InsightResult) => void): void;
+  /** Seeds the cache, e.g. with scores saved earlier. */
+  remember(version: string, insight: AIInsight): void;
+  getCached(version: string): AIInsight | null;
+  isPending(): boolean;
+  cancel(): void;
+}
+
+export const createInsightScheduler = (
+  generate: (input: HealthInsightInput) => Promise<AIInsight>,
+  delayMs: number = INSIGHT_DEBOUNCE_MS
+): InsightScheduler => {
+  const cache = new Map<string, AIInsight>();
+  const inFlight = new Map<string, Promise<AIInsight>>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const remember = (version: string, insight: AIInsight) => {
+    cache.delete(version);
+    cache.set(version, insight);
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  };
+
+  const request = async (version: string, input: HealthInsightInput): Promise<InsightResult> => {
+    const cached = cache.get(version);
+    if (cached) return { insight: cached, fromCache: true };
+
+    // Repeated requests for the same data share one model call
+    const joined = inFlight.get(version);
+    if (joined) return { insight: await joined, fromCache: true };
+
+    const pending = generate(input)
+      .then(insight => {
+        // Failures are not cached, so the next request tries again
+        if (!insight.error) remember(version, insight);
+        return insight;
+      })
+      .finally(() => inFlight.delete(version));
+    inFlight.set(version, pending);
+    return { insight: await pending, fromCache: false };
+  };
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    request,
+    schedule: (version, input, onResult) => {
+      cancel();
+      timer = setTimeout(() => {
+        timer = null;
+        request(version, input).then(onResult).catch(e => console.error("Scheduled insight failed", e));
+      }, delayMs);
+    },
+    remember,
+    getCached: version => cache.get(version) ?? null,
+    isPending: () => timer !== null,
+    cancel,
+  };
+};
@@ -0,0 +1,143 @@
+import { Medication, InteractionWarning, InteractionSeverity } from '../types';
+import { DRUG_CLASSES, ALLERGEN_RULES, DRUG_INTERACTION_RULES } from './interactionTable';
+
+export const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  Minor: 1,
+  Moderate: 2,
+  Major: 3,
+  Contraindicated: 4,
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, term: string) =>
+  new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(text);
+
+interface DrugIdentity {
+  names: string[]; // Known drug names found in the medication name
+  classes: string[];
+}
+
+/**
+ * Maps a free-text medication name (e.g. "Amoxicillin 500mg") onto the
+ * drug names and classes known to the bundled table.
+ */
+export const identifyDrug = (medicationName: string): DrugIdentity => {
+  const names: string[] = [];
+  const classes: string[] = [];
+  Object.entries(DRUG_CLASSES).forEach(([drugClass, members]) => {
+    const matched = members.filter(member => mentions(medicationName, member));
+    if (matched.length > 0) {
+      classes.push(drugClass);
+      names.push(...matched);
+    }
+  });
+  return { names, classes };
+};
+
+const matchesRuleSide = (identity: DrugIdentity, side: string) =>
+  identity.classes.includes(side) || identity.names.includes(side.toLowerCase());
+
+const checkAllergies = (med: Medication, identity: DrugIdentity, allergies: string[]): InteractionWarning[] => {
+  const warnings: InteractionWarning[] = [];
+
+  allergies.map(a => a.trim()).filter(Boolean).forEach(allergen => {
+    const matches: { severity: InteractionSeverity; note: string }[] = [];
+
+    // A direct name match is always treated as contraindicated
+    if (mentions(med.name, allergen) || identity.classes.some(c => c.toLowerCase() === allergen.toLowerCase())) {
+      matches.push({ severity: 'Contraindicated', note: 'Medication matches a documented allergy.' });
+    }
+
+    ALLERGEN_RULES
+      .filter(rule => rule.terms.some(term => allergen.toLowerCase().includes(term)))
+      .forEach(rule => {
+        matches.push(...rule.classes.filter(c => identity.classes.includes(c.drugClass)));
+      });
+
+    const best = matches.sort((x, y) => SEVERITY_RANK[y.severity] - SEVERITY_RANK[x.severity])[0];
+    if (best) {
+      const { severity, note } = best;
+      warnings.push({
+        id: `allergy-${med.id}-${allergen.toLowerCase()}`,
+        kind: 'drug-allergy',
+        severity,
+        medications: [med.name],
+        allergen,
+        description: `${med.name} with ${allergen} allergy: ${note}`,
+      });
+    }
+  });
+
+  return warnings;
+};
+
+const checkPair = (
+  medA: Medication,
+  idA: DrugIdentity,
+  medB: Medication,
+  idB: DrugIdentity
+): InteractionWarning | null => {
+  const matches: { severity: InteractionSeverity; description: string }[] = DRUG_INTERACTION_RULES
+    .filter(rule =>
+      (matchesRuleSide(idA, rule.a) && matchesRuleSide(idB, rule.b)) ||
+      (matchesRuleSide(idA, rule.b) && matchesRuleSide(idB, rule.a))
+    )
+    .map(({ severity, description }) => ({ severity, description }));
+
+  const sharedClass = idA.classes.find(c => idB.classes.includes(c));
+  if (sharedClass) {
+    matches.push({ severity: 'Moderate', description: `Duplicate therapy: both are ${sharedClass}.` });
+  }
+
+  const worst = matches.sort((x, y) => SEVERITY_RANK[y.severity] - SEVERITY_RANK[x.severity])[0];
+  if (!worst) return null;
+  const { severity, description } = worst;
+  return {
+    id: `drug-${[medA.id, medB.id].sort().join('-')}`,
+    kind: 'drug-drug',
+    severity,
+    medications: [medA.name, medB.name],
+    description: `${medA.name} + ${medB.name}: ${description}`,
+  };
+};
+
+/**
+ * Cross-checks all active medications against each other and against
+ * the patient's allergies. Results are sorted most severe first.
+ */
+export const checkInteractions = (medications: Medication[], allergies: string[]): InteractionWarning[] => {
+  const active = medications.filter(m => m.active);
+  const identities = active.map(m => identifyDrug(m.name));
+  const warnings: InteractionWarning[] = [];
+
+  active.forEach((med, i) => {
+    warnings.push(...checkAllergies(med, identities[i], allergies));
+    for (let j = i + 1; j < active.length; j++) {
+      const pair = checkPair(med, identities[i], active[j], identities[j]);
+      if (pair) warnings.push(pair);
+    }
+  });
+
+  return warnings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+};
+
+/**
+ * Returns only the warnings that would involve `candidate` if it were
+ * added or re-activated alongside the current medication list.
+ */
+export const checkMedication = (
+  candidate: Medication,
+  medications: Medication[],
+  allergies: string[]
+): InteractionWarning[] => {
+  const others = medications.filter(m => m.id !== candidate.id);
+  return checkInteractions([{ ...candidate, active: true }, ...others], allergies)
+    .filter(w => w.medications.includes(candidate.name));
+};
+
+export const highestSeverity = (warnings: InteractionWarning[]): InteractionSeverity | null =>
+  warnings.reduce<InteractionSeverity | null>(
+    (worst, w) => (!worst || SEVERITY_RANK[w.severity] > SEVERITY_RANK[worst] ? w.severity : worst),
+    null
+  );
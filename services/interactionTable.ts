@@ -0,0 +1,113 @@
+import { InteractionSeverity } from '../types';
+
+/**
+ * Bundled, offline reference data for the interaction checker.
+ * This is a screening aid covering common outpatient drugs, not a
+ * complete pharmacology database.
+ */
+
+// Drug class -> generic and common brand names (lowercase)
+export const DRUG_CLASSES: Record<string, string[]> = {
+  'Penicillins': ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'dicloxacillin', 'piperacillin', 'nafcillin', 'oxacillin'],
+  'Cephalosporins': ['cephalexin', 'cefuroxime', 'ceftriaxone', 'cefdinir', 'cefazolin', 'cefepime', 'keflex'],
+  'Sulfonamides': ['sulfamethoxazole', 'bactrim', 'septra', 'sulfasalazine', 'sulfadiazine'],
+  'Macrolides': ['clarithromycin', 'erythromycin', 'azithromycin'],
+  'Fluoroquinolones': ['ciprofloxacin', 'levofloxacin', 'moxifloxacin'],
+  'NSAIDs': ['ibuprofen', 'naproxen', 'diclofenac', 'celecoxib', 'meloxicam', 'indomethacin', 'ketorolac', 'aspirin', 'advil', 'motrin', 'aleve'],
+  'ACE Inhibitors': ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'benazepril', 'perindopril'],
+  'ARBs': ['losartan', 'valsartan', 'irbesartan', 'candesartan', 'olmesartan', 'telmisartan'],
+  'Potassium-Sparing Diuretics': ['spironolactone', 'eplerenone', 'amiloride', 'triamterene'],
+  'Potassium Supplements': ['potassium chloride', 'k-dur', 'klor-con'],
+  'Statins': ['atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'lovastatin', 'lipitor', 'zocor', 'crestor'],
+  'Anticoagulants': ['warfarin', 'coumadin', 'apixaban', 'rivaroxaban', 'dabigatran', 'eliquis', 'xarelto'],
+  'Antiplatelets': ['clopidogrel', 'plavix', 'ticagrelor', 'prasugrel'],
+  'SSRIs': ['sertraline', 'fluoxetine', 'citalopram', 'escitalopram', 'paroxetine', 'zoloft', 'prozac', 'lexapro'],
+  'MAOIs': ['phenelzine', 'tranylcypromine', 'selegiline', 'isocarboxazid'],
+  'Triptans': ['sumatriptan', 'rizatriptan', 'zolmitriptan', 'imitrex'],
+  'Opioids': ['morphine', 'oxycodone', 'hydrocodone', 'codeine', 'tramadol', 'fentanyl', 'methadone'],
+  'Benzodiazepines': ['diazepam', 'lorazepam', 'alprazolam', 'clonazepam', 'xanax', 'valium'],
+  'Nitrates': ['nitroglycerin', 'isosorbide'],
+  'PDE5 Inhibitors': ['sildenafil', 'tadalafil', 'vardenafil', 'viagra', 'cialis'],
+  'Biguanides': ['metformin', 'glucophage'],
+  'Sulfonylureas': ['glipizide', 'glyburide', 'glimepiride'],
+  'Insulins': ['insulin', 'glargine', 'lispro', 'aspart', 'lantus', 'humalog'],
+  'Beta Blockers': ['metoprolol', 'atenolol', 'propranolol', 'carvedilol', 'bisoprolol'],
+};
+
+export interface AllergenRule {
+  // Allergy terms as patients typically write them (lowercase, matched as substrings)
+  terms: string[];
+  // Drug classes affected, with the severity of giving that class
+  classes: { drugClass: string; severity: InteractionSeverity; note: string }[];
+}
+
+export const ALLERGEN_RULES: AllergenRule[] = [
+  {
+    terms: ['penicillin', 'amoxicillin', 'ampicillin', 'beta-lactam', 'beta lactam'],
+    classes: [
+      { drugClass: 'Penicillins', severity: 'Contraindicated', note: 'Same drug class as the documented allergy.' },
+      { drugClass: 'Cephalosporins', severity: 'Moderate', note: 'Low but real cross-reactivity with penicillin allergy.' },
+    ],
+  },
+  {
+    terms: ['cephalosporin', 'cephalexin', 'keflex'],
+    classes: [
+      { drugClass: 'Cephalosporins', severity: 'Contraindicated', note: 'Same drug class as the documented allergy.' },
+      { drugClass: 'Penicillins', severity: 'Moderate', note: 'Possible beta-lactam cross-reactivity.' },
+    ],
+  },
+  {
+    terms: ['sulfa', 'sulfonamide', 'bactrim'],
+    classes: [
+      { drugClass: 'Sulfonamides', severity: 'Contraindicated', note: 'Sulfonamide antibiotic with documented sulfa allergy.' },
+    ],
+  },
+  {
+    terms: ['nsaid', 'aspirin', 'ibuprofen', 'naproxen'],
+    classes: [
+      { drugClass: 'NSAIDs', severity: 'Major', note: 'NSAID hypersensitivity often extends across the class.' },
+    ],
+  },
+  {
+    terms: ['macrolide', 'erythromycin', 'clarithromycin', 'azithromycin'],
+    classes: [
+      { drugClass: 'Macrolides', severity: 'Contraindicated', note: 'Same drug class as the documented allergy.' },
+    ],
+  },
+  {
+    terms: ['opioid', 'morphine', 'codeine'],
+    classes: [
+      { drugClass: 'Opioids', severity: 'Major', note: 'Opioid allergy or intolerance documented.' },
+    ],
+  },
+];
+
+export interface DrugInteractionRule {
+  // Either a drug class from DRUG_CLASSES or a specific drug name
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const DRUG_INTERACTION_RULES: DrugInteractionRule[] = [
+  { a: 'Nitrates', b: 'PDE5 Inhibitors', severity: 'Contraindicated', description: 'Risk of severe, life-threatening hypotension.' },
+  { a: 'SSRIs', b: 'MAOIs', severity: 'Contraindicated', description: 'Risk of serotonin syndrome.' },
+  { a: 'ACE Inhibitors', b: 'ARBs', severity: 'Major', description: 'Dual RAAS blockade increases risk of hyperkalemia, hypotension and kidney injury.' },
+  { a: 'ACE Inhibitors', b: 'Potassium-Sparing Diuretics', severity: 'Major', description: 'Increased risk of hyperkalemia.' },
+  { a: 'ACE Inhibitors', b: 'Potassium Supplements', severity: 'Major', description: 'Increased risk of hyperkalemia.' },
+  { a: 'ARBs', b: 'Potassium-Sparing Diuretics', severity: 'Major', description: 'Increased risk of hyperkalemia.' },
+  { a: 'Anticoagulants', b: 'NSAIDs', severity: 'Major', description: 'Increased risk of serious bleeding.' },
+  { a: 'Anticoagulants', b: 'Antiplatelets', severity: 'Major', description: 'Increased risk of serious bleeding.' },
+  { a: 'Opioids', b: 'Benzodiazepines', severity: 'Major', description: 'Additive respiratory depression and sedation.' },
+  { a: 'simvastatin', b: 'Macrolides', severity: 'Major', description: 'Raised statin levels with risk of myopathy and rhabdomyolysis.' },
+  { a: 'warfarin', b: 'Macrolides', severity: 'Moderate', description: 'May raise INR; monitor closely.' },
+  { a: 'warfarin', b: 'Fluoroquinolones', severity: 'Moderate', description: 'May raise INR; monitor closely.' },
+  { a: 'SSRIs', b: 'Triptans', severity: 'Moderate', description: 'Possible serotonin syndrome; watch for agitation or tremor.' },
+  { a: 'SSRIs', b: 'tramadol', severity: 'Moderate', description: 'Possible serotonin syndrome and lowered seizure threshold.' },
+  { a: 'SSRIs', b: 'NSAIDs', severity: 'Moderate', description: 'Increased risk of gastrointestinal bleeding.' },
+  { a: 'ACE Inhibitors', b: 'NSAIDs', severity: 'Moderate', description: 'Reduced blood pressure control and risk of kidney injury.' },
+  { a: 'Sulfonylureas', b: 'Fluoroquinolones', severity: 'Moderate', description: 'Risk of unpredictable blood glucose swings.' },
+  { a: 'Beta Blockers', b: 'Insulins', severity: 'Minor', description: 'May mask symptoms of hypoglycemia.' },
+  { a: 'Beta Blockers', b: 'Sulfonylureas', severity: 'Minor', description: 'May mask symptoms of hypoglycemia.' },
+];
@@ -0,0 +1,159 @@
+import { ExtractedLabValue, LabFlag, LabResult } from '../types';
+
+/**
+ * Lab results: analyte names are normalized so values from different labs
+ * trend together, and units are converted where the conversion is a simple
+ * factor. Units that cannot be converted stay as recorded and are left out
+ * of charts drawn in another unit.
+ */
+
+export interface LabAnalyte {
+  name: string;
+  pattern: RegExp; // Matched against the printed name
+  units: Record<string, number>; // Multiply to get the first (standard) unit
+}
+
+// Order matters: "Hemoglobin A1c" must match HbA1c before hemoglobin
+export const LAB_ANALYTES: LabAnalyte[] = [
+  { name: 'HbA1c', pattern: /a1c|glyc(at)?ed\s*ha?emoglobin/i, units: { '%': 1 } },
+  { name: 'Glucose', pattern: /glucose/i, units: { 'mg/dL': 1, 'mmol/L': 18.016 } },
+  { name: 'LDL Cholesterol', pattern: /\bldl\b|low[-\s]density/i, units: { 'mg/dL': 1, 'mmol/L': 38.67 } },
+  { name: 'HDL Cholesterol', pattern: /\bhdl\b|high[-\s]density/i, units: { 'mg/dL': 1, 'mmol/L': 38.67 } },
+  { name: 'Total Cholesterol', pattern: /cholesterol/i, units: { 'mg/dL': 1, 'mmol/L': 38.67 } },
+  { name: 'Triglycerides', pattern: /triglycerides?/i, units: { 'mg/dL': 1, 'mmol/L': 88.57 } },
+  { name: 'Creatinine', pattern: /creatinine/i, units: { 'mg/dL': 1, 'µmol/L': 0.01131 } },
+  { name: 'eGFR', pattern: /\begfr\b|glomerular/i, units: { 'mL/min/1.73m²': 1 } },
+  { name: 'TSH', pattern: /\btsh\b|thyroid[-\s]stimulating/i, units: { 'mIU/L': 1, 'µIU/mL': 1 } },
+  { name: 'Hemoglobin', pattern: /^(ha?emoglobin|hgb|hb)\b/i, units: { 'g/dL': 1, 'g/L': 0.1 } },
+  { name: 'Vitamin D', pattern: /vitamin\s*d|25[-\s]?oh/i, units: { 'ng/mL': 1, 'nmol/L': 0.4006 } },
+];
+
+const findAnalyte = (name: string) => LAB_ANALYTES.find(a => a.pattern.test(name.trim()));
+
+/**
+ * The name a value is trended under. Unknown analytes keep their printed
+ * name, tidied so "ALT " and "alt" land in the same series.
+ */
+export const normalizeAnalyte = (name: string): string => {
+  const known = findAnalyte(name);
+  if (known) return known.name;
+  const tidy = name.trim().replace(/\s+/g, ' ');
+  return tidy === tidy.toLowerCase() ? tidy.replace(/\b\w/g, c => c.toUpperCase()) : tidy;
+};
+
+// Labs print the same unit many ways: "mg/dl", "umol/L", "mcIU/mL"
+export const normalizeUnit = (unit: string): string => {
+  const compact = unit.trim().replace(/\s+/g, '');
+  const key = compact.toLowerCase().replace(/^(u|mc)(?=[a-z]+\/)/, 'µ');
+  const known = LAB_ANALYTES.flatMap(a => Object.keys(a.units)).find(u => u.toLowerCase() === key);
+  return known ?? compact;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Converts between units of one analyte. Returns null when there is no
+ * known factor, so callers can skip the value instead of plotting it wrong.
+ */
+export const convertLabValue = (analyte: string, value: number, from: string, to: string): number | null => {
+  if (from === to) return value;
+  const units = LAB_ANALYTES.find(a => a.name === analyte)?.units;
+  if (!units || !(from in units) || !(to in units)) return null;
+  return round((value * units[from]) / units[to]);
+};
+
+/**
+ * Reads a printed range like "70-99", "<5.7", ">= 40" or "3.5 - 5.0 mmol/L".
+ */
+export const parseReferenceRange = (text: string): { low?: number; high?: number } => {
+  const cleaned = text.replace(/,/g, '.').replace(/[–—]/g, '-');
+  const between = cleaned.match(/(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/);
+  if (between) return { low: Number(between[1]), high: Number(between[2]) };
+  const upper = cleaned.match(/(?:<|≤|up to|below)\s*=?\s*(\d+(?:\.\d+)?)/i);
+  if (upper) return { high: Number(upper[1]) };
+  const lower = cleaned.match(/(?:>|≥|above|over)\s*=?\s*(\d+(?:\.\d+)?)/i);
+  if (lower) return { low: Number(lower[1]) };
+  return {};
+};
+
+export const formatReferenceRange = (low?: number, high?: number): string => {
+  if (low !== undefined && high !== undefined) return `${low}-${high}`;
+  if (high !== undefined) return `<${high}`;
+  if (low !== undefined) return `>${low}`;
+  return '';
+};
+
+export const flagLabValue = (value: number, low?: number, high?: number): LabFlag => {
+  if (low === undefined && high === undefined) return 'unknown';
+  if (low !== undefined && value < low) return 'low';
+  if (high !== undefined && value > high) return 'high';
+  return 'normal';
+};
+
+/**
+ * Turns a reviewed value into a stored result. Optional fields are only set
+ * when known, since Firestore rejects undefined values.
+ */
+export const createLabResult = (
+  value: ExtractedLabValue,
+  collectedAt: string,
+  id: string,
+  reportId?: string
+): LabResult => {
+  const result: LabResult = {
+    id,
+    analyte: normalizeAnalyte(value.name),
+    name: value.name.trim(),
+    value: value.value,
+    unit: normalizeUnit(value.unit),
+    collectedAt,
+    flag: flagLabValue(value.value, value.referenceLow, value.referenceHigh),
+  };
+  if (value.referenceLow !== undefined) result.referenceLow = value.referenceLow;
+  if (value.referenceHigh !== undefined) result.referenceHigh = value.referenceHigh;
+  const referenceText = value.referenceText?.trim() || formatReferenceRange(value.referenceLow, value.referenceHigh);
+  if (referenceText) result.referenceText = referenceText;
+  if (reportId) result.reportId = reportId;
+  return result;
+};
+
+/**
+ * True when the same value for the same analyte and day is already stored,
+ * e.g. because the report was extracted before.
+ */
+export const isDuplicateLab = (existing: LabResult[], candidate: LabResult) =>
+  existing.some(r =>
+    r.analyte === candidate.analyte
+    && r.collectedAt.slice(0, 10) === candidate.collectedAt.slice(0, 10)
+    && convertLabValue(r.analyte, r.value, r.unit, candidate.unit) === candidate.value
+  );
+
+export interface LabSeries {
+  analyte: string;
+  unit: string; // Unit of the latest result; the chart is drawn in it
+  latest: LabResult;
+  results: LabResult[]; // Oldest first, in `unit`
+  skipped: number; // Results in a unit that cannot be converted
+}
+
+export const groupLabResults = (results: LabResult[]): LabSeries[] => {
+  const byAnalyte = new Map<string, LabResult[]>();
+  results.forEach(r => byAnalyte.set(r.analyte, [...(byAnalyte.get(r.analyte) ?? []), r]));
+
+  return [...byAnalyte.entries()]
+    .map(([analyte, list]) => {
+      const sorted = [...list].sort((a, b) => a.collectedAt.localeCompare(b.collectedAt) || a.id.localeCompare(b.id));
+      const latest = sorted[sorted.length - 1];
+      const converted = sorted.flatMap(r => {
+        const convert = (v: number) => convertLabValue(analyte, v, r.unit, latest.unit);
+        const value = convert(r.value);
+        if (value === null) return [];
+        const result: LabResult = { ...r, value, unit: latest.unit };
+        if (r.referenceLow !== undefined) result.referenceLow = convert(r.referenceLow)!;
+        if (r.referenceHigh !== undefined) result.referenceHigh = convert(r.referenceHigh)!;
+        return [result];
+      });
+      return { analyte, unit: latest.unit, latest, results: converted, skipped: sorted.length - converted.length };
+    })
+    .sort((a, b) => a.analyte.localeCompare(b.analyte));
+};
@@ -0,0 +1,54 @@
+/**
+ * Thin promise wrapper around IndexedDB. Holds the last known copy of each
+ * patient's data and the outbox of writes waiting to reach Firebase.
+ */
+
+const DB_NAME = 'mediquest';
+const DB_VERSION = 1;
+
+export type StoreName = 'snapshots' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Snapshots are keyed by patient id; outbox entries keep insertion order
+        if (!db.objectStoreNames.contains('snapshots')) db.createObjectStore('snapshots');
+        if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const isLocalStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getItem = <T>(store: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const getAllItems = <T>(store: StoreName) =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const putItem = (store: StoreName, value: unknown, key?: IDBValidKey) =>
+  run<IDBValidKey>(store, 'readwrite', s => s.put(value, key));
+
+export const deleteItem = (store: StoreName, key: IDBValidKey) =>
+  run<undefined>(store, 'readwrite', s => s.delete(key));
+
+export const clearStore = (store: StoreName) =>
+  run<undefined>(store, 'readwrite', s => s.clear());
@@ -0,0 +1,65 @@
+/**
+ * Geometry for the image measurement tools. Points are in image pixels;
+ * with a pixel spacing (mm per pixel, rows then columns, as in DICOM) results
+ * are calibrated to millimetres.
+ */
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export type MeasurementKind = 'ruler' | 'angle' | 'ellipse';
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  // Ruler: start and end. Angle: first arm, vertex, second arm. Ellipse: opposite corners of its bounding box.
+  points: ImagePoint[];
+}
+
+export const POINTS_NEEDED: Record<MeasurementKind, number> = { ruler: 2, angle: 3, ellipse: 2 };
+
+// Pixel offsets in mm; unchanged when the image is not calibrated
+const toPhysical = (dx: number, dy: number, spacing?: number[]) =>
+  spacing ? { dx: dx * spacing[1], dy: dy * spacing[0] } : { dx, dy };
+
+export const measureDistance = (a: ImagePoint, b: ImagePoint, spacing?: number[]) => {
+  const { dx, dy } = toPhysical(b.x - a.x, b.y - a.y, spacing);
+  return Math.hypot(dx, dy);
+};
+
+/**
+ * Angle at `vertex` between the arms to `a` and `b`, in degrees (0-180).
+ * Uneven pixel spacing is taken into account.
+ */
+export const measureAngle = (a: ImagePoint, vertex: ImagePoint, b: ImagePoint, spacing?: number[]) => {
+  const u = toPhysical(a.x - vertex.x, a.y - vertex.y, spacing);
+  const v = toPhysical(b.x - vertex.x, b.y - vertex.y, spacing);
+  const lengths = Math.hypot(u.dx, u.dy) * Math.hypot(v.dx, v.dy);
+  if (lengths === 0) return 0;
+  const cos = (u.dx * v.dx + u.dy * v.dy) / lengths;
+  return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+};
+
+/**
+ * Axis lengths (full width and height) and area of the ellipse inscribed in
+ * the box between two corners.
+ */
+export const measureEllipse = (a: ImagePoint, b: ImagePoint, spacing?: number[]) => {
+  const { dx, dy } = toPhysical(Math.abs(b.x - a.x), Math.abs(b.y - a.y), spacing);
+  return { width: dx, height: dy, area: (Math.PI * dx * dy) / 4 };
+};
+
+const formatNumber = (value: number) => (value >= 100 ? value.toFixed(0) : value.toFixed(1));
+
+/**
+ * The measurement as text, e.g. "12.4 mm", "87.5°" or "8.1 × 6.0 mm, 38.2 mm²".
+ */
+export const describeMeasurement = ({ kind, points }: Measurement, spacing?: number[]): string => {
+  const unit = spacing ? 'mm' : 'px';
+  if (kind === 'ruler') return `${formatNumber(measureDistance(points[0], points[1], spacing))} ${unit}`;
+  if (kind === 'angle') return `${measureAngle(points[0], points[1], points[2], spacing).toFixed(1)}°`;
+  const { width, height, area } = measureEllipse(points[0], points[1], spacing);
+  return `${formatNumber(width)} × ${formatNumber(height)} ${unit}, ${formatNumber(area)} ${unit}²`;
+};
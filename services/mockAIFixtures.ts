@@ -0,0 +1,116 @@
+import { AnalysisResult, LabExtraction } from '../types';
+
+/**
+ * Canned responses for the offline mock AI provider. They mirror what the
+ * real models return for typical uploads so every screen has realistic data.
+ */
+
+export const MOCK_DISCLAIMER =
+  'Demo analysis generated offline without an AI model. It is for illustration only and is not a medical assessment.';
+
+// Image fixtures; one is picked per upload from a hash of the file contents
+export const IMAGE_ANALYSIS_FIXTURES: AnalysisResult[] = [
+  {
+    summary: 'Chest radiograph with clear lung fields bilaterally apart from a small, well-defined opacity in the right upper zone. Heart size appears within normal limits.',
+    findings: [
+      {
+        label: 'Possible Nodule',
+        confidence: 'Medium',
+        explanation: 'A rounded opacity of roughly 8 mm in the right upper lobe. Comparison with prior imaging or a follow-up CT would help characterise it.',
+        box_2d: { ymin: 0.22, xmin: 0.58, ymax: 0.32, xmax: 0.68 },
+      },
+      {
+        label: 'Cardiac Silhouette',
+        confidence: 'High',
+        explanation: 'Cardiothoracic ratio appears under 0.5, which is within the expected range.',
+        box_2d: { ymin: 0.45, xmin: 0.38, ymax: 0.78, xmax: 0.7 },
+      },
+    ],
+    disclaimer: MOCK_DISCLAIMER,
+  },
+  {
+    summary: 'Radiograph of the distal forearm showing a cortical irregularity of the distal radius consistent with a possible non-displaced fracture. Joint alignment is preserved.',
+    findings: [
+      {
+        label: 'Possible Fracture',
+        confidence: 'High',
+        explanation: 'A thin lucent line crosses the distal radial metaphysis without visible displacement.',
+        box_2d: { ymin: 0.55, xmin: 0.3, ymax: 0.7, xmax: 0.55 },
+      },
+      {
+        label: 'Soft Tissue Swelling',
+        confidence: 'Medium',
+        explanation: 'Mild soft tissue prominence around the wrist, often seen alongside an acute injury.',
+        box_2d: { ymin: 0.5, xmin: 0.2, ymax: 0.75, xmax: 0.7 },
+      },
+    ],
+    disclaimer: MOCK_DISCLAIMER,
+  },
+  {
+    summary: 'Close-up photograph of a pigmented skin lesion with slightly irregular borders and uneven colouring. No ulceration is visible.',
+    findings: [
+      {
+        label: 'Irregular Pigmented Lesion',
+        confidence: 'Medium',
+        explanation: 'Asymmetry and colour variation are features a dermatologist would want to review, ideally with dermoscopy.',
+        box_2d: { ymin: 0.35, xmin: 0.38, ymax: 0.62, xmax: 0.64 },
+      },
+    ],
+    disclaimer: MOCK_DISCLAIMER,
+  },
+  {
+    summary: 'Knee radiograph without acute bony abnormality. Mild narrowing of the medial joint space suggests early degenerative change.',
+    findings: [],
+    disclaimer: MOCK_DISCLAIMER,
+  },
+];
+
+// Used for PDFs and other non-image documents
+export const DOCUMENT_ANALYSIS_FIXTURE: AnalysisResult = {
+  summary: 'Routine blood panel. Most values are within reference ranges; fasting glucose and HbA1c are raised and LDL cholesterol is borderline high.',
+  findings: [
+    { label: 'High Fasting Glucose', confidence: 'High', explanation: 'Fasting glucose of 132 mg/dL is above the 70-99 mg/dL reference range.' },
+    { label: 'Elevated HbA1c', confidence: 'High', explanation: 'HbA1c of 7.1% is above the 5.7% threshold and suggests suboptimal glucose control over recent months.' },
+    { label: 'Borderline LDL Cholesterol', confidence: 'Medium', explanation: 'LDL of 138 mg/dL is in the borderline-high band (130-159 mg/dL).' },
+  ],
+  disclaimer: MOCK_DISCLAIMER,
+};
+
+// Page text that looks like the panel above
+export const LAB_PANEL_PATTERN = /glucose|a1c|cholesterol|lipid panel/i;
+
+// The same panel as structured values. No collection date, so review defaults
+// to the upload date and repeated demo uploads build up a trend.
+export const LAB_EXTRACTION_FIXTURE: LabExtraction = {
+  values: [
+    { name: 'Fasting Glucose', value: 132, unit: 'mg/dL', referenceLow: 70, referenceHigh: 99, referenceText: '70-99' },
+    { name: 'Hemoglobin A1c', value: 7.1, unit: '%', referenceHigh: 5.7, referenceText: '<5.7' },
+    { name: 'LDL Cholesterol', value: 138, unit: 'mg/dL', referenceHigh: 100, referenceText: '<100' },
+    { name: 'HDL Cholesterol', value: 52, unit: 'mg/dL', referenceLow: 40, referenceText: '>40' },
+    { name: 'Triglycerides', value: 144, unit: 'mg/dL', referenceHigh: 150, referenceText: '<150' },
+    { name: 'Creatinine', value: 0.9, unit: 'mg/dL', referenceLow: 0.6, referenceHigh: 1.2, referenceText: '0.6-1.2' },
+  ],
+};
+
+// Symptom keywords mapped to the specialist a clinician would usually suggest
+export const SPECIALTY_KEYWORDS: [RegExp, string][] = [
+  [/chest|palpitation|heart|breath/i, 'Cardiologist'],
+  [/headache|migraine|dizz|numb|seizure/i, 'Neurologist'],
+  [/rash|itch|skin|lesion|mole/i, 'Dermatologist'],
+  [/joint|knee|back|arthritis/i, 'Rheumatologist'],
+  [/stomach|abdom|nausea|diarrh|reflux/i, 'Gastroenterologist'],
+  [/cough|wheez|asthma/i, 'Pulmonologist'],
+  [/anxiety|depress|insomnia|sleep/i, 'Psychiatrist'],
+];
+
+export const GENERAL_RECOMMENDATIONS = [
+  'Keep logging symptoms daily so trends are easier to spot at your next appointment.',
+  'Aim for at least 150 minutes of moderate activity per week, as tolerated.',
+  'Review your medication list with your pharmacist at least once a year.',
+];
+
+export const GENERAL_RISK_FACTORS = [
+  'Ongoing monitoring recommended for chronic conditions',
+  'Lifestyle factors may influence long-term health',
+  'Regular check-ups help catch changes early',
+];
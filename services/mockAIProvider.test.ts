@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { InteractionWarning, Medication, PatientProfile, SymptomLog } from '../types';
+import type { HealthInsightInput } from './aiProvider';
+import type { ChatSource } from './chatService';
+import { composeAnswer, matchSources, mockAIProvider } from './mockAIProvider';
+
+const SOURCES: ChatSource[] = [
+  { key: 'profile', label: 'Profile', detail: 'Alex, 52, male, allergic to penicillin.' },
+  { key: 'med:m1', label: 'Metformin', detail: 'Metformin 500mg, twice daily, started 2025-01-01.' },
+  { key: 'med:m2', label: 'Lisinopril', detail: 'Lisinopril 10mg, once daily, started 2024-06-01.' },
+  { key: 'symptom:s1', label: 'Headache', detail: 'Headache rated 6/10 on 2026-03-09.' },
+  { key: 'history:h1', label: 'Type 2 Diabetes', detail: 'Type 2 Diabetes, diagnosed 2019, active.' },
+];
+
+const profile: PatientProfile = {
+  name: 'Alex',
+  age: 52,
+  gender: 'Male',
+  bloodGroup: 'A+',
+  height: 178,
+  weight: 92,
+  allergies: ['Penicillin'],
+  lifestyle: { smoking: true, alcohol: false, activityLevel: 'Sedentary' },
+};
+
+const symptom = (id: string, name: string, severity: number, date: string): SymptomLog =>
+  ({ id, symptom: name, severity, date, duration: { value: 2, unit: 'days' } });
+
+const medication = (id: string, name: string): Medication =>
+  ({ id, name, dosage: '10mg', frequency: 'Once daily', startDate: '2025-01-01', active: true });
+
+const interaction: InteractionWarning = {
+  id: 'i1',
+  kind: 'drug-drug',
+  severity: 'Major',
+  medications: ['Warfarin', 'Aspirin'],
+  description: 'Raises the risk of bleeding.',
+};
+
+const input = (): HealthInsightInput => ({
+  profile,
+  symptoms: [symptom('s1', 'Chest pain', 7, '2026-03-09T10:00:00Z'), symptom('s2', 'Cough', 3, '2026-03-08T10:00:00Z')],
+  medications: [medication('m1', 'Warfarin'), medication('m2', 'Aspirin')],
+  history: [{ id: 'h1', type: 'Condition', name: 'Hypertension', date: '2020-01-01', notes: '', status: 'Active' }],
+  interactions: [interaction],
+  adherence: { windowDays: 7, overallPercent: 60, medications: [] },
+  vitals: [],
+});
+
+describe('matchSources', () => {
+  it('cites the records a question names', () => {
+    expect(matchSources('Should I keep taking metformin?', SOURCES).map(s => s.key)).toEqual(['med:m1']);
+  });
+
+  it('falls back to the records of the topic asked about', () => {
+    expect(matchSources('What pills am I on?', SOURCES).map(s => s.key)).toEqual(['med:m1', 'med:m2']);
+  });
+
+  it('returns the same citations in the same order every time', () => {
+    const question = 'Is my headache related to diabetes or lisinopril?';
+    const first = matchSources(question, SOURCES);
+    expect(first.map(s => s.key)).toEqual(['med:m2', 'symptom:s1', 'history:h1']);
+    expect(matchSources(question, SOURCES)).toEqual(first);
+  });
+});
+
+describe('composeAnswer', () => {
+  it('cites each matched record once', () => {
+    const answer = composeAnswer('Tell me about my metformin', SOURCES);
+    expect(answer).toContain('- Metformin 500mg, twice daily, started 2025-01-01. [[med:m1]]');
+    expect(answer.match(/\[\[[^\]]+\]\]/g)).toEqual(['[[med:m1]]']);
+  });
+
+  it('points to the profile when nothing matches', () => {
+    expect(composeAnswer('Quantum entanglement?', SOURCES)).toContain('[[profile]]');
+  });
+
+  it('gives the same answer to the same question', () => {
+    const question = 'How is my diabetes?';
+    expect(composeAnswer(question, SOURCES)).toBe(composeAnswer(question, SOURCES));
+  });
+});
+
+describe('generateHealthInsights', () => {
+  it('scores the same input the same way every time', async () => {
+    const first = await mockAIProvider.generateHealthInsights(input());
+    const second = await mockAIProvider.generateHealthInsights(input());
+    expect(second).toEqual(first);
+    // 100 - 5.0 avg severity * 3 - 10 major - 5 condition - (80 - 60) / 2 adherence - 8 smoking
+    expect(first).toMatchObject({ healthScore: 52, urgency: 'Moderate', doctorSpecialty: 'Cardiologist' });
+  });
+
+  it('does not depend on the order symptoms are listed in', async () => {
+    const reversed = { ...input(), symptoms: [...input().symptoms].reverse() };
+    expect(await mockAIProvider.generateHealthInsights(reversed)).toEqual(await mockAIProvider.generateHealthInsights(input()));
+  });
+
+  it('puts the most serious risks first', async () => {
+    const { riskFactors } = await mockAIProvider.generateHealthInsights(input());
+    expect(riskFactors).toEqual([
+      'Major interaction: Warfarin + Aspirin',
+      'Recent chest pain rated 7/10',
+      'Medication adherence at 60% over the last 7 days',
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { AIInsight, AnalysisResult, LabExtraction } from '../types';
+import type { AIProvider, HealthInsightInput, ChatRequest, DocumentContext } from './aiProvider';
+import type { ChatSource } from './chatService';
+import {
+  IMAGE_ANALYSIS_FIXTURES,
+  DOCUMENT_ANALYSIS_FIXTURE,
+  LAB_PANEL_PATTERN,
+  MOCK_DISCLAIMER,
+  LAB_EXTRACTION_FIXTURE,
+  SPECIALTY_KEYWORDS,
+  GENERAL_RECOMMENDATIONS,
+  GENERAL_RISK_FACTORS,
+} from './mockAIFixtures';
+import { hashString } from './hash';
+
+/**
+ * Offline stand-in for a real model. Results are derived from the input with
+ * fixed rules and fixtures, so the same data always gives the same answer.
+ */
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const generateHealthInsights = async ({ profile, symptoms, medications, history, interactions, adherence, vitals }: HealthInsightInput): Promise<AIInsight> => {
+  const recent = [...symptoms].sort((a, b) => b.date.localeCompare(a.date)).slice(0, 10);
+  const averageSeverity = recent.length > 0 ? recent.reduce((sum, s) => sum + s.severity, 0) / recent.length : 0;
+  const maxSeverity = Math.max(0, ...recent.map(s => s.severity));
+  const serious = interactions.filter(w => w.severity === 'Major' || w.severity === 'Contraindicated');
+  const moderate = interactions.filter(w => w.severity === 'Moderate');
+  const activeConditions = history.filter(r => r.type === 'Condition' && r.status !== 'Resolved');
+  const adherencePercent = adherence?.overallPercent ?? null;
+  const lowAdherence = adherencePercent !== null && adherencePercent < 80;
+  const outOfRange = vitals.filter(v => v.band === 'high' || v.band === 'critical');
+
+  const riskFactors: string[] = [];
+  const recommendations: string[] = [];
+
+  serious.forEach(w => {
+    riskFactors.push(`${w.severity} interaction: ${w.medications.join(' + ')}${w.allergen ? ` (allergy: ${w.allergen})` : ''}`);
+    recommendations.push(`Speak to your prescriber about ${w.medications.join(' and ')} before your next dose.`);
+  });
+  if (maxSeverity >= 6) {
+    const worst = recent.find(s => s.severity === maxSeverity)!;
+    riskFactors.push(`Recent ${worst.symptom.toLowerCase()} rated ${worst.severity}/10`);
+    recommendations.push(`Book a review of your ${worst.symptom.toLowerCase()}, especially if it is getting worse.`);
+  }
+  outOfRange.forEach(v => {
+    riskFactors.push(`${v.label} ${v.latest}: ${v.bandLabel.toLowerCase()}`);
+    recommendations.push(`Review your ${v.label.toLowerCase()} readings with your doctor; treatment may need adjusting.`);
+  });
+  if (lowAdherence) {
+    riskFactors.push(`Medication adherence at ${adherencePercent}% over the last ${adherence!.windowDays} days`);
+    recommendations.push('Set reminders for scheduled doses; missed doses reduce how well treatment works.');
+  }
+  activeConditions.forEach(c => riskFactors.push(`Ongoing condition: ${c.name}`));
+  if (profile.lifestyle.smoking) {
+    riskFactors.push('Current smoker');
+    recommendations.push('Ask about smoking cessation support; it is the single biggest change for long-term health.');
+  }
+
+  const healthScore = Math.round(clamp(
+    100
+      - averageSeverity * 3
+      - serious.length * 10
+      - moderate.length * 4
+      - activeConditions.length * 5
+      - (lowAdherence ? (80 - adherencePercent!) / 2 : 0)
+      - outOfRange.reduce((sum, v) => sum + (v.band === 'critical' ? 12 : 6), 0)
+      - (profile.lifestyle.smoking ? 8 : 0),
+    5,
+    100
+  ));
+
+  const urgency: AIInsight['urgency'] =
+    maxSeverity >= 9 || serious.some(w => w.severity === 'Contraindicated') || outOfRange.some(v => v.band === 'critical') ? 'High'
+    : healthScore >= 75 ? 'Low'
+    : healthScore >= 50 ? 'Moderate'
+    : 'High';
+
+  const symptomText = recent.map(s => `${s.symptom} ${s.bodyLocation ?? ''}`).join(' ');
+  const doctorSpecialty = SPECIALTY_KEYWORDS.find(([pattern]) => pattern.test(symptomText))?.[1] ?? 'General Physician';
+
+  const activeMedications = medications.filter(m => m.active);
+  const summary = [
+    `${profile.name || 'The patient'} has ${recent.length} recent symptom log${recent.length === 1 ? '' : 's'}` +
+      (recent.length > 0 ? ` with an average severity of ${averageSeverity.toFixed(1)}/10.` : '.'),
+    `${activeMedications.length} active medication${activeMedications.length === 1 ? '' : 's'}` +
+      (interactions.length > 0 ? ` with ${interactions.length} interaction warning${interactions.length === 1 ? '' : 's'}.` : ' with no known interactions.'),
+    adherencePercent !== null ? `Adherence over the last ${adherence!.windowDays} days is ${adherencePercent}%.` : '',
+    '(Demo insight generated offline.)',
+  ].filter(Boolean).join(' ');
+
+  return {
+    healthScore,
+    summary,
+    riskFactors: [...riskFactors, ...GENERAL_RISK_FACTORS].slice(0, 3),
+    recommendations: [...recommendations, ...GENERAL_RECOMMENDATIONS].slice(0, 3),
+    doctorSpecialty,
+    urgency,
+  };
+};
+
+// PDF pages are judged by their text, since the rendered image is just a page of print
+const analyzePdfPage = (text: string): AnalysisResult => {
+  if (LAB_PANEL_PATTERN.test(text)) return DOCUMENT_ANALYSIS_FIXTURE;
+  const firstLine = text.split('\n').find(line => line.trim())?.trim();
+  return {
+    summary: firstLine
+      ? `Page headed "${firstLine.slice(0, 80)}". No values on it were flagged.`
+      : 'This page has no readable text; it may be a scan or a blank page.',
+    findings: [],
+    disclaimer: MOCK_DISCLAIMER,
+  };
+};
+
+// The mock cannot edit pixels; keeping the original skips the enhanced step
+const enhanceImage = async (): Promise<string | null> => null;
+
+const analyzeDocument = async (base64Data: string, mimeType: string, context?: DocumentContext): Promise<AnalysisResult> => {
+  if (context?.kind === 'pdf-page') return analyzePdfPage(context.text);
+  if (!mimeType.startsWith('image/')) return DOCUMENT_ANALYSIS_FIXTURE;
+  return IMAGE_ANALYSIS_FIXTURES[hashString(base64Data) % IMAGE_ANALYSIS_FIXTURES.length];
+};
+
+// Scans have no results table; documents get the panel DOCUMENT_ANALYSIS_FIXTURE describes
+const extractLabResults = async (base64Data: string, mimeType: string): Promise<LabExtraction> =>
+  mimeType.startsWith('image/') ? { values: [] } : LAB_EXTRACTION_FIXTURE;
+
+// Words too common to say anything about which record a question is about
+const STOP_WORDS = new Set(['what', 'when', 'which', 'about', 'have', 'with', 'that', 'this', 'does', 'should', 'there', 'from', 'your', 'been', 'were', 'will', 'much', 'many', 'tell']);
+
+const TOPIC_KINDS: [RegExp, string][] = [
+  [/medic|drug|pill|dose|taking|prescri/i, 'med:'],
+  [/symptom|pain|feel|hurt|ache/i, 'symptom:'],
+  [/history|condition|surgery|vaccin|diagnos/i, 'history:'],
+  [/report|scan|x-?ray|result|lab|test/i, 'report:'],
+  [/lab|blood test|cholesterol|glucose|a1c/i, 'lab:'],
+  [/interact|mix|together|allerg/i, 'interaction:'],
+  [/adheren|miss|forgot|skipp/i, 'adherence'],
+  [/score|overall|health|risk/i, 'insight'],
+];
+
+const MAX_CITED = 4;
+
+export const matchSources = (question: string, sources: ChatSource[]): ChatSource[] => {
+  const words = question.toLowerCase().match(/[a-z0-9]{4,}/g)?.filter(w => !STOP_WORDS.has(w)) ?? [];
+  const byWord = sources.filter(s => words.some(w => `${s.label} ${s.detail}`.toLowerCase().includes(w)));
+  if (byWord.length > 0) return byWord.slice(0, MAX_CITED);
+  const prefixes = TOPIC_KINDS.filter(([pattern]) => pattern.test(question)).map(([, prefix]) => prefix);
+  return sources.filter(s => prefixes.some(prefix => s.key.startsWith(prefix))).slice(0, MAX_CITED);
+};
+
+export const composeAnswer = (question: string, sources: ChatSource[]) => {
+  const matches = matchSources(question, sources);
+  if (matches.length === 0) {
+    return `I could not find anything in your record about that. Your profile [[profile]] is on file, ` +
+      `so try asking about your medications, symptoms, history or reports. (Demo answer generated offline.)`;
+  }
+  return [
+    'Here is what your record shows:',
+    ...matches.map(s => `- ${s.detail} [[${s.key}]]`),
+    'If anything here is getting worse or worries you, please talk to your clinician. (Demo answer generated offline.)',
+  ].join('\n');
+};
+
+const STREAM_DELAY_MS = 30;
+
+// Streams word by word so the UI behaves as it does with a real model
+async function* streamChat({ sources, messages }: ChatRequest): AsyncGenerator<string> {
+  const question = messages[messages.length - 1]?.content ?? '';
+  for (const token of composeAnswer(question, sources).match(/\S+\s*/g) ?? []) {
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    yield token;
+  }
+}
+
+export const mockAIProvider: AIProvider = {
+  name: 'Mock (offline)',
+  generateHealthInsights,
+  enhanceImage,
+  analyzeDocument,
+  extractLabResults,
+  streamChat,
+};
@@ -0,0 +1,149 @@
+// The legacy build also runs on browsers a few versions old, which patients often have
+import { getDocument, GlobalWorkerOptions, version } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { AnalysisResult, ReportPage } from '../types';
+
+/**
+ * Local PDF handling with pdf.js: pages are rendered to images and their
+ * text layer read in the browser, so each page can be analyzed on its own
+ * and shown without storing page images.
+ */
+
+// Loaded from the CDN like the app's other browser dependencies; must match the library version
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/legacy/build/pdf.worker.min.mjs`;
+
+// Pages past these limits are listed but not read or analyzed
+export const MAX_PDF_PAGES = 50;
+export const MAX_ANALYZED_PAGES = 20;
+// Keeps the report document well under Firestore's size limit
+const MAX_PAGE_TEXT = 4000;
+
+// Wide enough for the model to read small print in lab tables
+export const PAGE_RENDER_WIDTH = 1400;
+export const THUMBNAIL_WIDTH = 160;
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+/**
+ * Opens a PDF from base64 data or a URL. Data URLs are decoded here so
+ * pdf.js does not need to fetch them.
+ */
+export const openPdf = (source: { data: string } | { url: string }): Promise<PDFDocumentProxy> => {
+  if ('data' in source) return getDocument({ data: base64ToBytes(source.data) }).promise;
+  if (source.url.startsWith('data:')) return getDocument({ data: base64ToBytes(source.url.split(',')[1]) }).promise;
+  return getDocument({ url: source.url }).promise;
+};
+
+/**
+ * Renders a page to a data URL at the given width.
+ */
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  width: number,
+  mimeType: string = 'image/jpeg'
+): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+  return canvas.toDataURL(mimeType, 0.85);
+};
+
+/**
+ * The page's embedded text, one line per text line. Scanned pages have none.
+ */
+export const extractPdfPageText = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  const text = content.items
+    .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return text.length > MAX_PAGE_TEXT ? `${text.slice(0, MAX_PAGE_TEXT)}…` : text;
+};
+
+export interface PdfAnalysis {
+  analysisResult: AnalysisResult;
+  pageCount: number;
+  pages: ReportPage[];
+}
+
+/**
+ * Runs the page-by-page pipeline on an uploaded PDF: read the text layer,
+ * render the page and analyze the two together. Findings are tagged with
+ * their page and combined into one result for the report.
+ */
+export const analyzePdf = async (
+  base64Data: string,
+  analyzePage: (imageBase64: string, pageText: string) => Promise<AnalysisResult>,
+  onStatus: (status: string) => void = () => {}
+): Promise<PdfAnalysis> => {
+  onStatus('Reading PDF...');
+  const pdf = await openPdf({ data: base64Data });
+  try {
+    const pageCount = pdf.numPages;
+    const pages: ReportPage[] = [];
+    const results: { pageNumber: number; analysis: AnalysisResult }[] = [];
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pageCount, MAX_PDF_PAGES); pageNumber++) {
+      const text = await extractPdfPageText(pdf, pageNumber);
+      if (pageNumber > MAX_ANALYZED_PAGES) {
+        pages.push({ pageNumber, text, analyzed: false });
+        continue;
+      }
+      onStatus(`Analyzing page ${pageNumber} of ${Math.min(pageCount, MAX_ANALYZED_PAGES)}...`);
+      const image = (await renderPdfPage(pdf, pageNumber, PAGE_RENDER_WIDTH)).split(',')[1];
+      const analysis = await analyzePage(image, text);
+      results.push({ pageNumber, analysis });
+      const page: ReportPage = { pageNumber, text, analyzed: !analysis.error };
+      if (!analysis.error) page.summary = analysis.summary;
+      pages.push(page);
+    }
+
+    return { analysisResult: mergePageAnalyses(results, pageCount), pageCount, pages };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * One result for the whole document. The report only counts as failed
+ * when no page could be analyzed.
+ */
+export const mergePageAnalyses = (
+  results: { pageNumber: number; analysis: AnalysisResult }[],
+  pageCount: number
+): AnalysisResult => {
+  const succeeded = results.filter(r => !r.analysis.error);
+  if (succeeded.length === 0) {
+    const failed = results[0]?.analysis;
+    return {
+      summary: 'Could not process document.',
+      findings: [],
+      disclaimer: failed?.disclaimer || 'Error occurred during analysis.',
+      error: failed?.error ?? { code: 'invalid-response', message: 'The PDF has no pages' },
+    };
+  }
+
+  const notes: string[] = [];
+  const failedPages = results.filter(r => r.analysis.error).map(r => r.pageNumber);
+  if (failedPages.length > 0) notes.push(`Page${failedPages.length === 1 ? '' : 's'} ${failedPages.join(', ')} could not be analyzed.`);
+  if (pageCount > results.length) notes.push(`Only the first ${results.length} of ${pageCount} pages were analyzed.`);
+
+  return {
+    summary: [
+      ...(succeeded.length === 1
+        ? [succeeded[0].analysis.summary]
+        : succeeded.map(r => `Page ${r.pageNumber}: ${r.analysis.summary}`)),
+      ...notes,
+    ].join('\n'),
+    findings: succeeded.flatMap(r => r.analysis.findings.map(f => ({ ...f, page: r.pageNumber }))),
+    disclaimer: succeeded[0].analysis.disclaimer,
+  };
+};
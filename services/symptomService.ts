@@ -0,0 +1,135 @@
+import { SymptomLog, SymptomDuration, DurationUnit } from '../types';
+
+export const DURATION_UNITS: DurationUnit[] = ['minutes', 'hours', 'days', 'weeks'];
+
+const UNIT_MINUTES: Record<DurationUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 60 * 24,
+  weeks: 60 * 24 * 7,
+};
+
+const UNIT_ALIASES: [RegExp, DurationUnit][] = [
+  [/^(m|min|mins|minute|minutes)$/, 'minutes'],
+  [/^(h|hr|hrs|hour|hours)$/, 'hours'],
+  [/^(d|day|days)$/, 'days'],
+  [/^(w|wk|wks|week|weeks)$/, 'weeks'],
+];
+
+/**
+ * Parses free-text durations such as "2 hours", "15 mins" or "1.5h".
+ * Returns null when the text cannot be understood.
+ */
+export const parseDuration = (text: string): SymptomDuration | null => {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)?$/);
+  if (!match) return null;
+  const value = Number(match[1]);
+  const unitText = match[2] || 'minutes';
+  const alias = UNIT_ALIASES.find(([pattern]) => pattern.test(unitText));
+  if (!alias || !(value > 0)) return null;
+  return { value, unit: alias[1] };
+};
+
+export const formatDuration = (duration: SymptomDuration): string => {
+  const unit = duration.value === 1 ? duration.unit.replace(/s$/, '') : duration.unit;
+  return `${duration.value} ${unit}`;
+};
+
+export const durationInMinutes = (duration: SymptomDuration): number =>
+  duration.value * UNIT_MINUTES[duration.unit];
+
+/**
+ * Brings a stored symptom log onto the current shape. Logs written
+ * before durations were structured carry a plain string, which is parsed
+ * here; unparseable text is kept in the notes so nothing is lost.
+ */
+export const normalizeSymptomLog = (raw: any): SymptomLog => {
+  if (typeof raw.duration !== 'string') return raw as SymptomLog;
+
+  const parsed = parseDuration(raw.duration);
+  const log: SymptomLog = { ...raw, duration: parsed || { value: 0, unit: 'minutes' } };
+  if (!parsed && raw.duration) {
+    log.notes = [raw.notes, `Duration: ${raw.duration}`].filter(Boolean).join(' • ');
+  }
+  return log;
+};
+
+// --- ANALYTICS ---
+
+export const symptomKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface SymptomGroup {
+  key: string;
+  label: string; // Display name as first logged
+  logs: SymptomLog[];
+}
+
+/** Groups logs of the same symptom regardless of case or spacing, most frequent first. */
+export const groupBySymptom = (logs: SymptomLog[]): SymptomGroup[] => {
+  const groups = new Map<string, SymptomGroup>();
+  logs.forEach(log => {
+    const key = symptomKey(log.symptom);
+    const group = groups.get(key) || { key, label: log.symptom.trim(), logs: [] };
+    group.logs.push(log);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.logs.length - a.logs.length);
+};
+
+export const filterByDateRange = (logs: SymptomLog[], from?: Date, to?: Date): SymptomLog[] =>
+  logs.filter(log => {
+    const time = new Date(log.date).getTime();
+    return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+  });
+
+/**
+ * One point per log, keyed by symptom, for multi-line charts on a time axis.
+ * Points only carry the symptom that was logged; lines connect across gaps.
+ */
+export const buildSeverityTimeSeries = (
+  logs: SymptomLog[],
+  keys: string[]
+): ({ time: number } & Record<string, number>)[] =>
+  logs
+    .filter(log => keys.includes(symptomKey(log.symptom)))
+    .map(log => ({ time: new Date(log.date).getTime(), [symptomKey(log.symptom)]: log.severity }) as { time: number } & Record<string, number>)
+    .sort((a, b) => a.time - b.time);
+
+/** Counts logs per local weekday (rows, Sunday first) and hour (columns). */
+export const buildFrequencyHeatmap = (logs: SymptomLog[]): number[][] => {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  logs.forEach(log => {
+    const date = new Date(log.date);
+    grid[date.getDay()][date.getHours()]++;
+  });
+  return grid;
+};
+
+export interface SeverityWindow {
+  count: number;
+  averageSeverity: number | null;
+}
+
+/**
+ * Compares a symptom's logs in the windows before and after a date,
+ * e.g. a medication start, to show whether it changed afterwards.
+ */
+export const compareAroundDate = (
+  logs: SymptomLog[],
+  date: Date,
+  windowDays = 30
+): { before: SeverityWindow; after: SeverityWindow } => {
+  const windowMs = windowDays * 86400000;
+  const pivot = date.getTime();
+  const summarize = (items: SymptomLog[]): SeverityWindow => ({
+    count: items.length,
+    averageSeverity: items.length > 0
+      ? Math.round((items.reduce((sum, l) => sum + l.severity, 0) / items.length) * 10) / 10
+      : null,
+  });
+  const times = logs.map(log => ({ log, time: new Date(log.date).getTime() }));
+  return {
+    before: summarize(times.filter(t => t.time < pivot && t.time >= pivot - windowMs).map(t => t.log)),
+    after: summarize(times.filter(t => t.time >= pivot && t.time < pivot + windowMs).map(t => t.log)),
+  };
+};
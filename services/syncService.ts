@@ -0,0 +1,346 @@
+import { PatientProfile, Medication, SymptomLog, MedicalRecord, UploadedFile, DoseEvent, ChatMessage, HealthScoreRecord, VitalReading, LabResult } from '../types';
+import { getItem, getAllItems, putItem, deleteItem, clearStore, isLocalStoreAvailable } from './localStore';
+import {
+  updatePatientProfile,
+  addPatientSymptom,
+  addPatientReport,
+  storeReportImages,
+  hasInlineReportImages,
+  savePatientEntry,
+  deletePatientEntry,
+  EntryCollection
+} from './firebaseService';
+
+/**
+ * Local-first persistence. Every change is applied to local state and the
+ * IndexedDB snapshot first; with Firebase it is also queued in a durable
+ * outbox that replays in order whenever the browser is online.
+ *
+ * Conflict rule: the Firestore snapshot is the base, and writes still
+ * waiting in the outbox are re-applied on top of it. Local changes win
+ * only until they are uploaded; after that the server copy wins, so the
+ * last write to reach Firestore is the one everyone sees.
+ */
+
+export interface PatientSnapshot {
+  profile: PatientProfile;
+  medications: Medication[];
+  symptoms: SymptomLog[];
+  history: MedicalRecord[];
+  reports: UploadedFile[];
+  adherence: DoseEvent[];
+  chat?: ChatMessage[]; // Missing from snapshots saved before the assistant existed
+  insights?: HealthScoreRecord[]; // Missing from snapshots saved before score history existed
+  vitals?: VitalReading[]; // Missing from snapshots saved before vitals existed
+  labs?: LabResult[]; // Missing from snapshots saved before lab results existed
+}
+
+type Entry = { id: string };
+
+export type PatientMutation =
+  | { type: 'profile'; profile: PatientProfile }
+  | { type: 'upsert'; collection: EntryCollection; entry: Entry }
+  | { type: 'delete'; collection: EntryCollection; entryId: string };
+
+interface OutboxEntry {
+  id?: number;
+  key?: string; // Identifies the entry to the UI; missing on entries queued before it existed
+  uid: string; // Account that made the change; only replayed while it is signed in
+  patientId: string;
+  mutation: PatientMutation;
+  createdAt: string;
+  attempts: number;
+  failed?: { code: string; at: string }; // Rejected by the server; kept until retried or discarded
+}
+
+/** A queued write the server rejected. It stays applied locally until retried or discarded. */
+export interface FailedWrite {
+  key: string;
+  patientId: string;
+  description: string; // e.g. "Saving a medication"
+  reason: string;
+  failedAt: string;
+}
+
+// --- MUTATIONS ---
+
+/** Describes the edits between two versions of a list as entry-level mutations. */
+export const diffEntries = <T extends Entry>(collection: EntryCollection, previous: T[], next: T[]): PatientMutation[] => {
+  const before = new Map(previous.map(entry => [entry.id, JSON.stringify(entry)]));
+  const kept = new Set(next.map(entry => entry.id));
+  return [
+    ...next
+      .filter(entry => before.get(entry.id) !== JSON.stringify(entry))
+      .map(entry => ({ type: 'upsert' as const, collection, entry })),
+    ...previous
+      .filter(entry => !kept.has(entry.id))
+      .map(entry => ({ type: 'delete' as const, collection, entryId: entry.id })),
+  ];
+};
+
+/** Applies the mutations for one collection to a list; new entries go first. */
+export const applyToList = <T extends Entry>(list: T[], collection: EntryCollection, mutations: PatientMutation[]): T[] =>
+  mutations.reduce((current, m) => {
+    if (m.type === 'profile' || m.collection !== collection) return current;
+    if (m.type === 'delete') return current.filter(entry => entry.id !== m.entryId);
+    const entry = m.entry as T;
+    return current.some(e => e.id === entry.id)
+      ? current.map(e => (e.id === entry.id ? entry : e))
+      : [entry, ...current];
+  }, list);
+
+export const applyToProfile = (profile: PatientProfile, mutations: PatientMutation[]) =>
+  mutations.reduce((current, m) => (m.type === 'profile' ? m.profile : current), profile);
+
+const ENTRY_LABELS: Record<EntryCollection, string> = {
+  medications: 'medication',
+  symptoms: 'symptom',
+  history: 'history record',
+  reports: 'report',
+  adherence: 'dose record',
+  chat: 'chat message',
+  insights: 'health score',
+  vitals: 'vital reading',
+  labs: 'lab result',
+};
+
+const describeMutation = (mutation: PatientMutation) => {
+  if (mutation.type === 'profile') return 'Saving the profile';
+  return `${mutation.type === 'delete' ? 'Deleting' : 'Saving'} a ${ENTRY_LABELS[mutation.collection]}`;
+};
+
+// --- LOCAL SNAPSHOTS ---
+
+export const loadLocalSnapshot = async (patientId: string): Promise<PatientSnapshot | null> => {
+  if (!isLocalStoreAvailable()) return null;
+  try {
+    return (await getItem<PatientSnapshot>('snapshots', patientId)) ?? null;
+  } catch (e) {
+    console.error("Failed to read local data", e);
+    return null;
+  }
+};
+
+/** Removes cached patient data, e.g. on sign-out from a shared device. Queued writes are kept. */
+export const clearLocalSnapshots = async () => {
+  serverData.clear();
+  if (!isLocalStoreAvailable()) return;
+  try {
+    await clearStore('snapshots');
+  } catch (e) {
+    console.error("Failed to clear local data", e);
+  }
+};
+
+export const saveLocalSnapshot = async (patientId: string, snapshot: PatientSnapshot) => {
+  if (!isLocalStoreAvailable()) return;
+  try {
+    await putItem('snapshots', snapshot, patientId);
+  } catch (e) {
+    console.error("Failed to save local data", e);
+  }
+};
+
+// --- OUTBOX ---
+
+// In-memory mirror of the outbox so snapshot callbacks can overlay it synchronously
+let outbox: OutboxEntry[] = [];
+let outboxLoaded: Promise<void> | null = null;
+let nextKey = 0;
+// Latest server copy of each patient, so discarding a rejected write can show it again
+const serverData = new Map<string, any>();
+
+const statusListeners = new Set<() => void>();
+const notifyStatus = () => statusListeners.forEach(listener => listener());
+
+const loadOutbox = () => {
+  if (!outboxLoaded) {
+    outboxLoaded = isLocalStoreAvailable()
+      ? getAllItems<OutboxEntry>('outbox')
+          .then(entries => {
+            outbox = entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+            outbox.forEach(entry => { entry.key ??= `stored-${entry.id}`; });
+            notifyStatus();
+          })
+          .catch(e => console.error("Failed to read outbox", e))
+      : Promise.resolve();
+  }
+  return outboxLoaded;
+};
+
+const overlay = (patientId: string, data: any) => {
+  const mutations = outbox.filter(e => e.patientId === patientId).map(e => e.mutation);
+  if (mutations.length === 0) return data;
+  const merged = { ...data };
+  if (merged.profile) merged.profile = applyToProfile(merged.profile, mutations);
+  (['medications', 'symptoms', 'history', 'reports', 'adherence', 'chat', 'insights', 'vitals', 'labs'] as EntryCollection[]).forEach(name => {
+    if (merged[name]) merged[name] = applyToList(merged[name], name, mutations);
+  });
+  return merged;
+};
+
+/**
+ * Re-applies queued writes for a patient onto data from a Firestore snapshot.
+ * Only keys present in `data` are touched, matching syncPatientData's partial updates.
+ * Rejected writes are re-applied too, so they stay visible until the patient deals with them.
+ */
+export const overlayPendingWrites = (patientId: string, data: any) => {
+  serverData.set(patientId, { ...serverData.get(patientId), ...data });
+  return overlay(patientId, data);
+};
+
+/** The latest server copy of a patient with the queued writes re-applied. */
+export const getPatientView = (patientId: string) => overlay(patientId, serverData.get(patientId) ?? {});
+
+/** Every replay is idempotent (set or delete by id), so a retried entry is harmless. */
+const replay = ({ patientId, mutation }: OutboxEntry) => {
+  if (mutation.type === 'profile') return updatePatientProfile(patientId, mutation.profile);
+  if (mutation.type === 'delete') return deletePatientEntry(patientId, mutation.collection, mutation.entryId);
+  if (mutation.collection === 'symptoms') return addPatientSymptom(patientId, mutation.entry as SymptomLog);
+  if (mutation.collection === 'reports') return addPatientReport(patientId, mutation.entry as UploadedFile);
+  return savePatientEntry(patientId, mutation.collection, mutation.entry);
+};
+
+// Firestore writes never reject while offline, they just wait; give up and retry later instead.
+// Storage uploads are not timed: a large DICOM file can take minutes, and it fails on its own.
+const REPLAY_TIMEOUT_MS = 30000;
+
+const withTimeout = <T>(promise: Promise<T>) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error("Write timed out")), REPLAY_TIMEOUT_MS); }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+// Errors that retrying on its own cannot fix, e.g. caregiver access revoked while offline
+const PERMANENT_ERRORS: Record<string, string> = {
+  'permission-denied': 'You no longer have permission to change this profile.',
+  'invalid-argument': 'The server did not accept this data.',
+  'not-found': 'The record no longer exists on the server.',
+  'storage/unauthorized': 'You no longer have permission to upload files to this profile.',
+  'storage/quota-exceeded': 'There is no storage space left for this file.',
+  'storage/invalid-argument': 'The server did not accept this file.',
+};
+
+/**
+ * Uploads a queued report's inline files to Storage and swaps the queued
+ * record for the one with paths, so a retry after a failed Firestore write
+ * does not upload them again.
+ */
+const storeQueuedFiles = async (entry: OutboxEntry) => {
+  const { mutation } = entry;
+  if (mutation.type !== 'upsert' || mutation.collection !== 'reports') return;
+  const report = mutation.entry as UploadedFile;
+  if (!hasInlineReportImages([report])) return;
+  entry.mutation = { ...mutation, entry: await storeReportImages(entry.patientId, report) };
+  await persistEntry(entry);
+};
+
+const removeFromOutbox = async (entry: OutboxEntry) => {
+  outbox = outbox.filter(e => e !== entry);
+  if (entry.id !== undefined) await deleteItem('outbox', entry.id).catch(e => console.error("Failed to clear outbox entry", e));
+  notifyStatus();
+};
+
+const persistEntry = (entry: OutboxEntry) =>
+  entry.id === undefined ? Promise.resolve() : putItem('outbox', entry).then(() => {}, e => console.error("Failed to update outbox entry", e));
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replays the account's queued writes in order, stopping at the first
+ * failure so later writes never overtake earlier ones. Writes the server
+ * rejects are set aside as failed instead, so they cannot block the rest.
+ */
+export const flushOutbox = (uid: string) => {
+  if (!flushing) {
+    flushing = (async () => {
+      await loadOutbox();
+      let entry: OutboxEntry | undefined;
+      while (navigator.onLine && (entry = outbox.find(e => e.uid === uid && !e.failed))) {
+        try {
+          await storeQueuedFiles(entry);
+          await withTimeout(replay(entry));
+        } catch (e) {
+          const code = (e as { code?: string })?.code ?? '';
+          entry.attempts++;
+          if (code in PERMANENT_ERRORS) {
+            console.error("Write rejected by the server", entry.mutation, e);
+            entry.failed = { code, at: new Date().toISOString() };
+            await persistEntry(entry);
+            notifyStatus();
+            continue;
+          }
+          console.error("Sync failed, will retry when back online", e);
+          await persistEntry(entry);
+          break;
+        }
+        await removeFromOutbox(entry);
+      }
+    })().finally(() => { flushing = null; });
+  }
+  return flushing;
+};
+
+export const enqueueMutations = async (uid: string, patientId: string, mutations: PatientMutation[]) => {
+  await loadOutbox();
+  for (const mutation of mutations) {
+    const entry: OutboxEntry = { key: `${Date.now()}-${nextKey++}`, uid, patientId, mutation, createdAt: new Date().toISOString(), attempts: 0 };
+    if (isLocalStoreAvailable()) {
+      try {
+        entry.id = (await putItem('outbox', entry)) as number;
+      } catch (e) {
+        console.error("Failed to persist outbox entry", e);
+      }
+    }
+    outbox.push(entry);
+  }
+  notifyStatus();
+  flushOutbox(uid);
+};
+
+const findFailed = (key: string) => outbox.find(e => e.key === key && e.failed);
+
+/** Queues a rejected write again, e.g. after the caregiver's access was restored. */
+export const retryFailedWrite = async (uid: string, key: string) => {
+  const entry = findFailed(key);
+  if (!entry) return;
+  delete entry.failed;
+  await persistEntry(entry);
+  notifyStatus();
+  flushOutbox(uid);
+};
+
+/**
+ * Drops a rejected write. The local copy still shows it, so callers should
+ * show `getPatientView` for the patient again afterwards.
+ */
+export const discardFailedWrite = async (key: string) => {
+  const entry = findFailed(key);
+  if (entry) await removeFromOutbox(entry);
+};
+
+/** Follows the account's rejected writes, for the sync indicator. */
+export const subscribeFailedWrites = (uid: string, listener: (failed: FailedWrite[]) => void) => {
+  const update = () => listener(outbox
+    .filter(e => e.uid === uid && e.failed)
+    .map(e => ({
+      key: e.key!,
+      patientId: e.patientId,
+      description: describeMutation(e.mutation),
+      reason: PERMANENT_ERRORS[e.failed!.code] ?? 'The server rejected this change.',
+      failedAt: e.failed!.at,
+    })));
+  statusListeners.add(update);
+  loadOutbox().then(() => { if (statusListeners.has(update)) update(); });
+  return () => { statusListeners.delete(update); };
+};
+
+/** Starts replaying the account's outbox now and whenever connectivity returns. */
+export const startOutboxSync = (uid: string) => {
+  const onOnline = () => { flushOutbox(uid); };
+  window.addEventListener('online', onOnline);
+  flushOutbox(uid);
+  return () => window.removeEventListener('online', onOnline);
+};
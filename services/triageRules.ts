@@ -0,0 +1,159 @@
+import { Urgency } from '../types';
+
+/**
+ * Red-flag rules for the triage engine. Deliberately conservative: a false
+ * alarm costs a tap, a missed emergency costs far more. Screening aid only,
+ * not a clinical decision tool.
+ */
+
+export interface TriageRule {
+  id: string;
+  level: Urgency;
+  title: string;
+  guidance: string;
+  // Matched against the symptom name, body location, triggers and notes
+  symptom: RegExp;
+  // Something else the same log must mention, e.g. "sudden" for a headache
+  withKeyword?: RegExp;
+  minSeverity?: number;
+  // Matched against the names of conditions that are not resolved
+  withCondition?: RegExp;
+  // Drug classes from the interaction table, any one of which must be active
+  withDrugClass?: string[];
+  minAge?: number;
+}
+
+export const EMERGENCY_NUMBER = '911';
+
+const CALL_EMERGENCY = 'Call your local emergency number (911 in the US, 112 in the EU, 999 in the UK) now. Do not drive yourself.';
+
+const CHEST_PAIN = /chest.{0,20}(pain|tight|pressure|discomfort|ache|heaviness)|(pain|tight|pressure|discomfort|ache|heaviness).{0,20}chest|angina/i;
+const BREATHING = /short(ness)? of breath|breathless|can'?t breathe|difficulty breathing|struggling to breathe|trouble breathing/i;
+const HEADACHE = /headache|head pain|migraine/i;
+
+// Ordered most to least specific; a symptom reports only its most urgent match
+export const TRIAGE_RULES: TriageRule[] = [
+  {
+    id: 'chest-pain-cardiac-risk',
+    level: 'Emergency',
+    title: 'Chest pain with cardiac risk factors',
+    guidance: `Chest pain in someone with diabetes, high blood pressure or heart disease can be a heart attack, even when it feels mild. ${CALL_EMERGENCY}`,
+    symptom: CHEST_PAIN,
+    withCondition: /diabet|hypertens|high blood pressure|heart|coronary|cardiac|angina|stroke|cholesterol/i,
+  },
+  {
+    id: 'chest-pain-severe',
+    level: 'Emergency',
+    title: 'Severe chest pain',
+    guidance: `Severe chest pain needs urgent assessment to rule out a heart attack. ${CALL_EMERGENCY}`,
+    symptom: CHEST_PAIN,
+    minSeverity: 7,
+  },
+  {
+    id: 'chest-pain-age',
+    level: 'Emergency',
+    title: 'Chest pain over age 50',
+    guidance: `Heart attack risk rises with age and symptoms are often mild. ${CALL_EMERGENCY}`,
+    symptom: CHEST_PAIN,
+    minAge: 50,
+  },
+  {
+    id: 'stroke-signs',
+    level: 'Emergency',
+    title: 'Possible stroke',
+    guidance: `Face drooping, arm weakness or speech problems are stroke signs. Note the time they started. ${CALL_EMERGENCY}`,
+    symptom: /face droop|drooping face|slurred|can'?t speak|trouble speaking|one[- ]sided (weakness|numbness)|weakness (on|in) one|numb(ness)? on one side|sudden (numbness|confusion|vision loss)|loss of vision/i,
+  },
+  {
+    id: 'thunderclap-headache',
+    level: 'Emergency',
+    title: 'Sudden severe headache',
+    guidance: `A sudden, "worst ever" headache can be a bleed in the brain. ${CALL_EMERGENCY}`,
+    symptom: HEADACHE,
+    withKeyword: /worst|sudden|thunderclap|explod/i,
+  },
+  {
+    id: 'headache-anticoagulant',
+    level: 'Emergency',
+    title: 'Headache while on blood thinners',
+    guidance: `Blood thinners raise the risk of bleeding in the brain, so a significant new headache needs checking today. ${CALL_EMERGENCY}`,
+    symptom: HEADACHE,
+    minSeverity: 6,
+    withDrugClass: ['Anticoagulants', 'Antiplatelets'],
+  },
+  {
+    id: 'anaphylaxis',
+    level: 'Emergency',
+    title: 'Possible severe allergic reaction',
+    guidance: `Swelling of the throat, tongue or lips can block the airway. Use an adrenaline auto-injector if you have one. ${CALL_EMERGENCY}`,
+    symptom: /throat (swelling|closing|tight)|swollen (tongue|lips?|throat|face)|(tongue|lip|face) swelling|anaphyla/i,
+  },
+  {
+    id: 'breathing-severe',
+    level: 'Emergency',
+    title: 'Severe difficulty breathing',
+    guidance: `Severe breathlessness needs emergency care. Sit upright and use your reliever inhaler if prescribed. ${CALL_EMERGENCY}`,
+    symptom: BREATHING,
+    minSeverity: 7,
+  },
+  {
+    id: 'self-harm',
+    level: 'Emergency',
+    title: 'Thoughts of self-harm',
+    guidance: 'You do not have to go through this alone. Call or text 988 (US), 116 123 (UK/EU) or your local crisis line now, or your emergency number if you are in danger.',
+    symptom: /suicid|self[- ]harm|kill myself|end my life|hurt myself/i,
+  },
+  {
+    id: 'serious-bleeding',
+    level: 'Emergency',
+    title: 'Signs of internal or heavy bleeding',
+    guidance: `Vomiting or coughing up blood, or black tarry stools, can mean serious internal bleeding. ${CALL_EMERGENCY}`,
+    symptom: /vomit(ing)? blood|cough(ing)? (up )?blood|black (tarry )?stool|tarry stool|blood in (stool|vomit)|heavy bleeding|won'?t stop bleeding/i,
+  },
+  {
+    id: 'diabetic-confusion',
+    level: 'Emergency',
+    title: 'Confusion or fainting with diabetes',
+    guidance: `This can be dangerously low or high blood sugar. If you can, check your glucose and take fast-acting sugar if it is low. ${CALL_EMERGENCY}`,
+    symptom: /confus|faint|passed out|unconscious|unresponsive|drowsy/i,
+    withCondition: /diabet/i,
+  },
+  {
+    id: 'meningitis-signs',
+    level: 'Emergency',
+    title: 'Fever with stiff neck or rash',
+    guidance: `Fever with a stiff neck or a rash that does not fade under pressure can be meningitis. ${CALL_EMERGENCY}`,
+    symptom: /fever|high temperature/i,
+    withKeyword: /stiff neck|neck stiff|rash/i,
+  },
+  {
+    id: 'chest-pain',
+    level: 'High',
+    title: 'Chest pain',
+    guidance: 'Chest pain should be assessed by a doctor today. Call emergency services if it spreads to the arm, jaw or back, or comes with sweating or breathlessness.',
+    symptom: CHEST_PAIN,
+  },
+  {
+    id: 'breathing',
+    level: 'High',
+    title: 'Difficulty breathing',
+    guidance: 'Breathing problems should be checked by a doctor today. Call emergency services if it gets worse or your lips turn blue.',
+    symptom: BREATHING,
+  },
+  {
+    id: 'severe-abdominal-pain',
+    level: 'High',
+    title: 'Severe abdominal pain',
+    guidance: 'Severe abdominal pain should be assessed today, especially with fever, vomiting or a rigid belly.',
+    symptom: /abdom|stomach|belly/i,
+    minSeverity: 8,
+  },
+  {
+    id: 'severe-symptom',
+    level: 'High',
+    title: 'Very severe symptom',
+    guidance: 'A symptom rated 9 or 10 out of 10 should be seen by a doctor today.',
+    symptom: /./,
+    minSeverity: 9,
+  },
+];
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { AIInsight, MedicalRecord, Medication, PatientProfile, SymptomLog, TriageAlert } from '../types';
+import { TRIAGE_RULES, TriageRule } from './triageRules';
+import { matchRule, reconcileUrgency, runTriage, triageSymptom, TriageContext } from './triageService';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+const profile = (age = 35): PatientProfile => ({
+  name: 'Test Patient',
+  age,
+  gender: 'Female',
+  bloodGroup: 'O+',
+  height: 165,
+  weight: 60,
+  allergies: [],
+  lifestyle: { smoking: false, alcohol: false, activityLevel: 'Moderate' },
+});
+
+const context = (overrides: Partial<TriageContext> = {}): TriageContext => ({
+  profile: profile(),
+  history: [],
+  medications: [],
+  ...overrides,
+});
+
+const log = (symptom: string, severity: number, overrides: Partial<SymptomLog> = {}): SymptomLog => ({
+  id: symptom.replace(/\W+/g, '-'),
+  symptom,
+  severity,
+  date: NOW.toISOString(),
+  duration: { value: 1, unit: 'hours' },
+  ...overrides,
+});
+
+const condition = (name: string, status: 'Active' | 'Managed' | 'Resolved' = 'Active'): MedicalRecord => ({
+  id: name,
+  type: 'Condition',
+  name,
+  date: '2020-01-01',
+  notes: '',
+  status,
+});
+
+const medication = (name: string, active = true): Medication => ({
+  id: name,
+  name,
+  dosage: '5mg',
+  frequency: 'Once daily',
+  startDate: '2025-01-01',
+  active,
+});
+
+const rule = (id: string) => TRIAGE_RULES.find(r => r.id === id)!;
+
+const insight = (urgency: AIInsight['urgency']): AIInsight => ({
+  healthScore: 70,
+  summary: 'Stable',
+  riskFactors: [],
+  recommendations: [],
+  doctorSpecialty: 'General Practitioner',
+  urgency,
+});
+
+const alert = (level: TriageAlert['level']): TriageAlert => ({
+  id: `test-${level}`,
+  ruleId: 'test',
+  level,
+  title: 'Test alert',
+  reason: 'test',
+  guidance: 'test',
+});
+
+describe('matchRule', () => {
+  it('matches chest pain with a cardiac risk condition and names it', () => {
+    const reason = matchRule(rule('chest-pain-cardiac-risk'), log('Chest pain', 3), context({ history: [condition('Type 2 Diabetes')] }));
+    expect(reason).toBe('"Chest pain" rated 3/10, history of Type 2 Diabetes');
+  });
+
+  it('ignores resolved conditions', () => {
+    expect(matchRule(rule('chest-pain-cardiac-risk'), log('Chest pain', 3), context({ history: [condition('Hypertension', 'Resolved')] }))).toBeNull();
+  });
+
+  it('reads the body location, triggers and notes as well as the symptom name', () => {
+    expect(matchRule(rule('chest-pain'), log('Pressure', 4, { bodyLocation: 'chest' }), context())).not.toBeNull();
+    expect(matchRule(rule('thunderclap-headache'), log('Headache', 5, { notes: 'came on suddenly' }), context())).not.toBeNull();
+  });
+
+  it('requires the keyword of a keyword rule', () => {
+    expect(matchRule(rule('thunderclap-headache'), log('Headache', 5), context())).toBeNull();
+  });
+
+  it('applies the severity threshold inclusively', () => {
+    expect(matchRule(rule('chest-pain-severe'), log('Chest pain', 6), context())).toBeNull();
+    expect(matchRule(rule('chest-pain-severe'), log('Chest pain', 7), context())).not.toBeNull();
+  });
+
+  it('applies the age threshold and reports the age', () => {
+    expect(matchRule(rule('chest-pain-age'), log('Chest pain', 2), context({ profile: profile(49) }))).toBeNull();
+    expect(matchRule(rule('chest-pain-age'), log('Chest pain', 2), context({ profile: profile(50) }))).toContain('age 50');
+  });
+
+  it('needs an active drug of the listed class', () => {
+    const headache = log('Headache', 6);
+    expect(matchRule(rule('headache-anticoagulant'), headache, context({ medications: [medication('Warfarin')] }))).toContain('taking Warfarin');
+    expect(matchRule(rule('headache-anticoagulant'), headache, context({ medications: [medication('Warfarin', false)] }))).toBeNull();
+    expect(matchRule(rule('headache-anticoagulant'), headache, context({ medications: [medication('Paracetamol')] }))).toBeNull();
+  });
+});
+
+describe('triageSymptom', () => {
+  it.each([
+    ['Face drooping and slurred speech', 'stroke-signs'],
+    ['Swollen tongue', 'anaphylaxis'],
+    ['Coughing up blood', 'serious-bleeding'],
+    ['Thoughts of self-harm', 'self-harm'],
+  ])('flags "%s" as an emergency', (symptom, ruleId) => {
+    const result = triageSymptom(log(symptom, 3), context());
+    expect(result).toMatchObject({ ruleId, level: 'Emergency' });
+  });
+
+  it('reports the most urgent rule a log matches', () => {
+    const result = triageSymptom(log('Chest pain', 8), context());
+    expect(result).toMatchObject({ ruleId: 'chest-pain-severe', level: 'Emergency', id: 'chest-pain-severe-Chest-pain' });
+  });
+
+  it('falls back to a lower level when no emergency rule matches', () => {
+    expect(triageSymptom(log('Chest pain', 3), context())).toMatchObject({ ruleId: 'chest-pain', level: 'High' });
+  });
+
+  it('returns null for an ordinary symptom', () => {
+    expect(triageSymptom(log('Runny nose', 3), context())).toBeNull();
+  });
+
+  it('uses the rules it is given', () => {
+    const custom: TriageRule[] = [{ id: 'cough', level: 'Moderate', title: 'Cough', guidance: 'See a doctor', symptom: /cough/i }];
+    expect(triageSymptom(log('Cough', 2), context(), custom)).toMatchObject({ ruleId: 'cough', level: 'Moderate' });
+  });
+});
+
+describe('runTriage', () => {
+  const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 3600000).toISOString();
+
+  it('only checks symptoms logged within 72 hours of now', () => {
+    const symptoms = [
+      log('Swollen lips', 3, { id: 'recent', date: hoursAgo(71) }),
+      log('Coughing up blood', 3, { id: 'old', date: hoursAgo(73) }),
+    ];
+    expect(runTriage(symptoms, context(), NOW).map(a => a.symptomId)).toEqual(['recent']);
+  });
+
+  it('measures the window from the injected time', () => {
+    const symptoms = [log('Swollen lips', 3, { date: hoursAgo(100) })];
+    expect(runTriage(symptoms, context(), NOW)).toEqual([]);
+    expect(runTriage(symptoms, context(), new Date(NOW.getTime() - 48 * 3600000))).toHaveLength(1);
+  });
+
+  it('reports each rule once, for its latest log', () => {
+    const symptoms = [
+      log('Chest pain', 3, { id: 'earlier', date: hoursAgo(10) }),
+      log('Chest pain', 4, { id: 'later', date: hoursAgo(2) }),
+    ];
+    const alerts = runTriage(symptoms, context(), NOW);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].symptomId).toBe('later');
+  });
+
+  it('orders alerts most urgent first', () => {
+    const symptoms = [
+      log('Shortness of breath', 4, { id: 'breathing', date: hoursAgo(1) }),
+      log('Swollen throat', 3, { id: 'throat', date: hoursAgo(5) }),
+    ];
+    expect(runTriage(symptoms, context(), NOW).map(a => a.level)).toEqual(['Emergency', 'High']);
+  });
+});
+
+describe('reconcileUrgency', () => {
+  it('raises the model urgency to the triage level and keeps what the model said', () => {
+    expect(reconcileUrgency(insight('Low'), [alert('Emergency')])).toMatchObject({ urgency: 'Emergency', modelUrgency: 'Low' });
+  });
+
+  it('never lowers the model urgency', () => {
+    const result = reconcileUrgency(insight('Emergency'), [alert('High')]);
+    expect(result.urgency).toBe('Emergency');
+    expect(result.modelUrgency).toBeUndefined();
+  });
+
+  it('leaves the insight alone when the levels agree or there are no alerts', () => {
+    const same = insight('High');
+    expect(reconcileUrgency(same, [alert('High')])).toBe(same);
+    expect(reconcileUrgency(same, [])).toBe(same);
+  });
+});
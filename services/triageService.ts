@@ -0,0 +1,118 @@
+import { SymptomLog, PatientProfile, MedicalRecord, Medication, AIInsight, TriageAlert, Urgency } from '../types';
+import { TRIAGE_RULES, TriageRule } from './triageRules';
+import { identifyDrug } from './interactionService';
+
+export const URGENCY_RANK: Record<Urgency, number> = {
+  Low: 0,
+  Moderate: 1,
+  High: 2,
+  Emergency: 3,
+};
+
+// Older logs are history, not something happening now
+export const RECENT_HOURS = 72;
+
+export interface TriageContext {
+  profile: PatientProfile;
+  history: MedicalRecord[];
+  medications: Medication[];
+}
+
+const symptomText = (log: SymptomLog) =>
+  [log.symptom, log.bodyLocation, ...(log.triggers ?? []), log.notes].filter(Boolean).join(' ');
+
+/**
+ * Checks one rule against one log. Returns why it matched, or null.
+ */
+export const matchRule = (rule: TriageRule, log: SymptomLog, context: TriageContext): string | null => {
+  const text = symptomText(log);
+  if (!rule.symptom.test(text)) return null;
+  if (rule.withKeyword && !rule.withKeyword.test(text)) return null;
+  if (rule.minSeverity !== undefined && log.severity < rule.minSeverity) return null;
+  if (rule.minAge !== undefined && !(context.profile.age >= rule.minAge)) return null;
+
+  const reasons = [`"${log.symptom}" rated ${log.severity}/10`];
+
+  if (rule.withCondition) {
+    const condition = context.history.find(r =>
+      r.type === 'Condition' && r.status !== 'Resolved' && rule.withCondition!.test(r.name)
+    );
+    if (!condition) return null;
+    reasons.push(`history of ${condition.name}`);
+  }
+
+  if (rule.withDrugClass) {
+    const medication = context.medications.find(m =>
+      m.active && identifyDrug(m.name).classes.some(c => rule.withDrugClass!.includes(c))
+    );
+    if (!medication) return null;
+    reasons.push(`taking ${medication.name}`);
+  }
+
+  if (rule.minAge !== undefined) reasons.push(`age ${context.profile.age}`);
+  return reasons.join(', ');
+};
+
+/**
+ * The most urgent rule a single log triggers, or null.
+ */
+export const triageSymptom = (
+  log: SymptomLog,
+  context: TriageContext,
+  rules: TriageRule[] = TRIAGE_RULES
+): TriageAlert | null => {
+  let best: TriageAlert | null = null;
+  for (const rule of rules) {
+    if (best && URGENCY_RANK[rule.level] <= URGENCY_RANK[best.level]) continue;
+    const reason = matchRule(rule, log, context);
+    if (reason) {
+      best = {
+        id: `${rule.id}-${log.id}`,
+        ruleId: rule.id,
+        level: rule.level,
+        title: rule.title,
+        reason,
+        guidance: rule.guidance,
+        symptomId: log.id,
+      };
+    }
+  }
+  return best;
+};
+
+/**
+ * Runs the red-flag rules over recently logged symptoms. Each rule is
+ * reported once, for its latest log; results are most urgent first.
+ */
+export const runTriage = (
+  symptoms: SymptomLog[],
+  context: TriageContext,
+  now: Date = new Date(),
+  rules: TriageRule[] = TRIAGE_RULES
+): TriageAlert[] => {
+  const since = now.getTime() - RECENT_HOURS * 3600000;
+  const alerts = new Map<string, TriageAlert>();
+
+  [...symptoms]
+    .filter(s => new Date(s.date).getTime() >= since)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .forEach(log => {
+      const alert = triageSymptom(log, context, rules);
+      if (alert && !alerts.has(alert.ruleId)) alerts.set(alert.ruleId, alert);
+    });
+
+  return Array.from(alerts.values()).sort((a, b) => URGENCY_RANK[b.level] - URGENCY_RANK[a.level]);
+};
+
+export const highestTriageLevel = (alerts: TriageAlert[]): Urgency | null =>
+  alerts.reduce<Urgency | null>((top, a) => (!top || URGENCY_RANK[a.level] > URGENCY_RANK[top] ? a.level : top), null);
+
+/**
+ * Cross-checks the model's urgency against triage. Rules can only raise it:
+ * the model may see risks the rules do not, but must never talk one down.
+ */
+export const reconcileUrgency = (insight: AIInsight, alerts: TriageAlert[]): AIInsight => {
+  const ruleLevel = highestTriageLevel(alerts);
+  if (!ruleLevel || URGENCY_RANK[ruleLevel] <= URGENCY_RANK[insight.urgency]) return insight;
+  return { ...insight, urgency: ruleLevel, modelUrgency: insight.urgency };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createUploadQueue, UploadJob, UploadJobContext } from './uploadQueue';
+
+const job = (id: string) => ({ id, name: `${id}.png`, type: 'image/png', size: 1 });
+
+// A run function whose calls finish only when the test says so
+const controllable = () => {
+  const calls: { input: string; context: UploadJobContext; finish: () => void }[] = [];
+  const run = (input: string, context: UploadJobContext) =>
+    new Promise<void>((resolve, reject) => {
+      calls.push({ input, context, finish: resolve });
+      context.signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  return { calls, run };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createUploadQueue', () => {
+  it('does not add a second job for an id that is still running', async () => {
+    const { calls, run } = controllable();
+    const queue = createUploadQueue(run);
+    expect(queue.add('first', job('r1'))).toBe(true);
+    expect(queue.add('second', job('r1'))).toBe(false);
+    expect(calls.map(c => c.input)).toEqual(['first']);
+  });
+
+  it('does not add a second job for an id that is still queued', () => {
+    const { calls, run } = controllable();
+    const queue = createUploadQueue(run, 1);
+    queue.add('a', job('a'));
+    expect(queue.add('b', job('b'))).toBe(true);
+    expect(queue.add('b again', job('b'))).toBe(false);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('leaves a job added after clear to its own run', async () => {
+    const { calls, run } = controllable();
+    const queue = createUploadQueue(run);
+    let jobs: UploadJob[] = [];
+    queue.subscribe(next => { jobs = next; });
+
+    queue.add('first', job('r1'));
+    queue.clear();
+    expect(queue.add('second', job('r1'))).toBe(true);
+    await settle();
+    expect(jobs).toMatchObject([{ id: 'r1', stage: 'reading' }]);
+
+    queue.cancel('r1');
+    await settle();
+    expect(calls[1].context.signal.aborted).toBe(true);
+    expect(jobs).toMatchObject([{ id: 'r1', stage: 'cancelled' }]);
+  });
+
+  it('accepts the id again once the job has finished', async () => {
+    const { calls, run } = controllable();
+    const queue = createUploadQueue(run);
+    queue.add('first', job('r1'));
+    calls[0].finish();
+    await settle();
+    expect(queue.add('second', job('r1'))).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Background queue for report uploads. Files are processed a few at a time,
+ * each job reports which stage it is in, and jobs can be cancelled or
+ * retried on their own without blocking the rest.
+ */
+
+export type UploadStage = 'queued' | 'reading' | 'enhancing' | 'analyzing' | 'saving' | 'failed' | 'cancelled';
+
+export const UPLOAD_STAGE_LABELS: Record<UploadStage, string> = {
+  queued: 'Waiting',
+  reading: 'Reading file',
+  enhancing: 'Removing noise',
+  analyzing: 'Detecting anomalies',
+  saving: 'Saving',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Model calls are slow but rate limited; two at once keeps a batch moving without tripping limits
+export const UPLOAD_CONCURRENCY = 2;
+
+export interface UploadJob {
+  id: string; // Also the id of the report it saves
+  name: string;
+  type: string;
+  size: number;
+  stage: UploadStage;
+  detail?: string; // e.g. "Analyzing page 2 of 5..."
+  error?: string;
+}
+
+export interface UploadJobContext {
+  signal: AbortSignal; // Aborted on cancel; check it between stages
+  setStage(stage: UploadStage, detail?: string): void;
+}
+
+export interface UploadQueue<T> {
+  /** Returns false, and changes nothing, while a job with the same id is waiting or running. */
+  add(input: T, job: Pick<UploadJob, 'id' | 'name' | 'type' | 'size'>): boolean;
+  cancel(id: string): void;
+  /** Queues a failed or cancelled job again with the same input. */
+  retry(id: string): boolean;
+  /** Removes a failed or cancelled job from the list. */
+  dismiss(id: string): void;
+  /** Cancels everything, e.g. when switching to another patient. */
+  clear(): void;
+  subscribe(listener: (jobs: UploadJob[]) => void): () => void;
+}
+
+const isActive = (stage: UploadStage) => stage !== 'queued' && stage !== 'failed' && stage !== 'cancelled';
+
+/**
+ * `run` does the work for one job. Jobs leave the list once it resolves,
+ * since the saved report takes their place; a rejection marks the job failed.
+ */
+export const createUploadQueue = <T>(
+  run: (input: T, context: UploadJobContext) => Promise<void>,
+  concurrency: number = UPLOAD_CONCURRENCY
+): UploadQueue<T> => {
+  let jobs: UploadJob[] = [];
+  const inputs = new Map<string, T>();
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<(jobs: UploadJob[]) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(jobs));
+
+  const update = (id: string, changes: Partial<UploadJob>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    notify();
+  };
+
+  const remove = (id: string) => {
+    jobs = jobs.filter(job => job.id !== id);
+    inputs.delete(id);
+    notify();
+  };
+
+  const start = async (job: UploadJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    const owns = () => controllers.get(job.id) === controller;
+    update(job.id, { stage: 'reading', detail: undefined, error: undefined });
+    try {
+      await run(inputs.get(job.id)!, {
+        signal: controller.signal,
+        setStage: (stage, detail) => {
+          if (owns() && !controller.signal.aborted) update(job.id, { stage, detail });
+        },
+      });
+      if (owns()) remove(job.id);
+    } catch (error) {
+      // Cleared, and perhaps queued again since; the list no longer holds this run
+      if (!owns()) return;
+      if (controller.signal.aborted) {
+        update(job.id, { stage: 'cancelled', detail: undefined });
+      } else {
+        console.error(`Upload of ${job.name} failed`, error);
+        update(job.id, { stage: 'failed', detail: undefined, error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      if (owns()) controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  // Starts queued jobs, oldest first, while there is capacity
+  const pump = () => {
+    const running = jobs.filter(job => isActive(job.stage)).length;
+    jobs.filter(job => job.stage === 'queued').slice(0, Math.max(0, concurrency - running)).forEach(start);
+  };
+
+  return {
+    add: (input, job) => {
+      // Two jobs for one report would both write its record
+      if (jobs.some(j => j.id === job.id && (j.stage === 'queued' || isActive(j.stage)))) return false;
+      inputs.set(job.id, input);
+      jobs = [...jobs.filter(j => j.id !== job.id), { ...job, stage: 'queued' }];
+      notify();
+      pump();
+      return true;
+    },
+    cancel: id => {
+      const controller = controllers.get(id);
+      if (controller) controller.abort();
+      else if (jobs.some(job => job.id === id && job.stage === 'queued')) update(id, { stage: 'cancelled' });
+    },
+    retry: id => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.stage !== 'failed' && job.stage !== 'cancelled') || !inputs.has(id)) return false;
+      update(id, { stage: 'queued', error: undefined });
+      pump();
+      return true;
+    },
+    dismiss: id => {
+      if (jobs.some(job => job.id === id && (job.stage === 'failed' || job.stage === 'cancelled'))) remove(id);
+    },
+    clear: () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      jobs = [];
+      inputs.clear();
+      notify();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      listener(jobs);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => (reader.error ? reject(reader.error) : resolve(reader.result as string));
+  reader.readAsDataURL(blob);
+});
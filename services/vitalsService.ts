@@ -0,0 +1,176 @@
+import { VitalReading, VitalType, VitalBandLevel, VitalSummary, PatientProfile, GlucoseContext } from '../types';
+import { calculateBmi } from './healthScoreService';
+
+/**
+ * Vital signs: units, plausibility checks and target bands. Readings keep
+ * the unit they were entered in; ranges are defined in the standard unit
+ * (the first one listed) and readings are converted before comparing.
+ */
+
+export interface VitalDefinition {
+  label: string;
+  units: string[]; // The first is the standard unit
+  plausible: [number, number]; // Standard unit; anything outside is a typo
+}
+
+export const VITALS: Record<VitalType, VitalDefinition> = {
+  bloodPressure: { label: 'Blood Pressure', units: ['mmHg'], plausible: [50, 300] },
+  glucose: { label: 'Blood Glucose', units: ['mg/dL', 'mmol/L'], plausible: [20, 600] },
+  heartRate: { label: 'Heart Rate', units: ['bpm'], plausible: [20, 250] },
+  spo2: { label: 'Oxygen Saturation', units: ['%'], plausible: [50, 100] },
+  weight: { label: 'Weight', units: ['kg', 'lb'], plausible: [2, 400] },
+};
+
+export const VITAL_TYPES = Object.keys(VITALS) as VitalType[];
+
+export const GLUCOSE_CONTEXTS: { value: GlucoseContext; label: string }[] = [
+  { value: 'fasting', label: 'Fasting' },
+  { value: 'beforeMeal', label: 'Before meal' },
+  { value: 'afterMeal', label: 'After meal (2h)' },
+  { value: 'random', label: 'Random' },
+];
+
+// Multiply to get the standard unit
+const UNIT_FACTORS: Record<string, number> = {
+  'mmol/L': 18.016,
+  lb: 0.45359237,
+};
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const convertVital = (value: number, from: string, to: string): number => {
+  if (from === to) return value;
+  const standard = value * (UNIT_FACTORS[from] ?? 1);
+  return round(standard / (UNIT_FACTORS[to] ?? 1), to === 'mg/dL' ? 0 : 1);
+};
+
+export const toStandardUnit = (reading: VitalReading): number =>
+  convertVital(reading.value, reading.unit, VITALS[reading.type].units[0]);
+
+export const formatReading = (reading: VitalReading): string =>
+  reading.type === 'bloodPressure'
+    ? `${reading.value}/${reading.diastolic} ${reading.unit}`
+    : `${reading.value}${reading.unit === '%' ? '' : ' '}${reading.unit}`;
+
+/**
+ * Returns a message for readings that cannot be right, or null.
+ */
+export const validateReading = (reading: VitalReading): string | null => {
+  const { label, plausible: [min, max] } = VITALS[reading.type];
+  if (!Number.isFinite(reading.value)) return `Enter a value for ${label.toLowerCase()}.`;
+  const value = toStandardUnit(reading);
+  if (value < min || value > max) return `${formatReading(reading)} is outside the plausible range for ${label.toLowerCase()}.`;
+  if (reading.type === 'bloodPressure') {
+    if (!Number.isFinite(reading.diastolic) || reading.diastolic! < 30 || reading.diastolic! > 200) return 'Enter a diastolic value between 30 and 200 mmHg.';
+    if (reading.diastolic! >= reading.value) return 'Systolic (top number) must be higher than diastolic.';
+  }
+  return null;
+};
+
+export interface VitalBand {
+  level: VitalBandLevel;
+  label: string;
+}
+
+const band = (level: VitalBandLevel, label: string): VitalBand => ({ level, label });
+
+// Adult reference bands (AHA blood pressure categories, ADA glucose thresholds)
+export const classifyReading = (reading: VitalReading, profile?: PatientProfile): VitalBand => {
+  const value = toStandardUnit(reading);
+  switch (reading.type) {
+    case 'bloodPressure': {
+      const dia = reading.diastolic ?? 0;
+      if (value > 180 || dia > 120) return band('critical', 'Hypertensive crisis');
+      if (value >= 140 || dia >= 90) return band('high', 'Stage 2 hypertension');
+      if (value >= 130 || dia >= 80) return band('high', 'Stage 1 hypertension');
+      if (value >= 120) return band('elevated', 'Elevated');
+      if (value < 90 || dia < 60) return band('low', 'Low');
+      return band('normal', 'Normal');
+    }
+    case 'glucose': {
+      if (value < 54) return band('critical', 'Very low');
+      if (value < 70) return band('low', 'Low');
+      if (value > 400) return band('critical', 'Very high');
+      const fasting = reading.context === 'fasting' || reading.context === 'beforeMeal';
+      if (fasting) {
+        if (value >= 126) return band('high', 'High (diabetes range)');
+        if (value >= 100) return band('elevated', 'Elevated (prediabetes range)');
+      } else {
+        if (value >= 200) return band('high', 'High');
+        if (value >= 140) return band('elevated', 'Elevated');
+      }
+      return band('normal', 'In range');
+    }
+    case 'heartRate':
+      if (value < 40 || value > 150) return band('critical', value < 40 ? 'Very slow' : 'Very fast');
+      if (value < 50) return band('low', 'Slow');
+      if (value > 120) return band('high', 'Fast');
+      if (value > 100) return band('elevated', 'Slightly fast');
+      return band('normal', 'Normal');
+    case 'spo2':
+      if (value < 92) return band('critical', 'Low oxygen');
+      if (value < 95) return band('low', 'Below normal');
+      return band('normal', 'Normal');
+    case 'weight': {
+      const bmi = profile ? calculateBmi(profile.height, value) : null;
+      if (bmi === null) return band('normal', 'Recorded');
+      if (bmi < 18.5) return band('low', `Underweight (BMI ${bmi})`);
+      if (bmi < 25) return band('normal', `Healthy (BMI ${bmi})`);
+      if (bmi < 30) return band('elevated', `Overweight (BMI ${bmi})`);
+      return band('high', `Obese (BMI ${bmi})`);
+    }
+  }
+};
+
+/**
+ * Target band for charts, in the given unit. Blood pressure uses systolic.
+ */
+export const targetRange = (type: VitalType, unit: string, profile?: PatientProfile): [number, number] | null => {
+  const standard: Record<VitalType, [number, number] | null> = {
+    bloodPressure: [90, 120],
+    glucose: [70, 140],
+    heartRate: [60, 100],
+    spo2: [95, 100],
+    weight: profile && profile.height > 0
+      ? [round(18.5 * (profile.height / 100) ** 2, 0), round(24.9 * (profile.height / 100) ** 2, 0)]
+      : null,
+  };
+  const range = standard[type];
+  if (!range) return null;
+  const from = VITALS[type].units[0];
+  return [convertVital(range[0], from, unit), convertVital(range[1], from, unit)];
+};
+
+// Readings older than this do not describe the patient's current state
+export const VITALS_WINDOW_DAYS = 30;
+
+/**
+ * The latest reading of each vital with its band, plus the recent average.
+ */
+export const summarizeVitals = (
+  readings: VitalReading[],
+  profile?: PatientProfile,
+  now: Date = new Date(),
+  windowDays: number = VITALS_WINDOW_DAYS
+): VitalSummary[] => {
+  const since = now.getTime() - windowDays * 86400000;
+  return VITAL_TYPES.flatMap(type => {
+    const ofType = readings
+      .filter(r => r.type === type && new Date(r.takenAt).getTime() >= since)
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+    if (ofType.length === 0) return [];
+    const latest = ofType[0];
+    const { level, label } = classifyReading(latest, profile);
+    const values = ofType.map(toStandardUnit);
+    return [{
+      type,
+      label: VITALS[type].label,
+      latest: formatReading(latest),
+      takenAt: latest.takenAt,
+      band: level,
+      bandLabel: label,
+      average: round(values.reduce((sum, v) => sum + v, 0) / values.length, 0),
+      readings: ofType.length,
+    }];
+  });
+};
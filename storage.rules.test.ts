@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+
+/**
+ * Access rules for report files, which follow the patient document in
+ * Firestore. Runs against the Storage and Firestore emulators: `npm run test:rules`.
+ */
+
+const PROJECT_ID = 'demo-mediquest';
+const REPORT = 'patients/alice/reports/r1';
+
+let testEnv: RulesTestEnvironment;
+
+const self = () => testEnv.authenticatedContext('alice', { email: 'alice@example.com', email_verified: true }).storage();
+const caregiver = () => testEnv.authenticatedContext('carol', { email: 'carol@example.com', email_verified: true }).storage();
+const unverifiedCaregiver = () => testEnv.authenticatedContext('carol', { email: 'carol@example.com', email_verified: false }).storage();
+const stranger = () => testEnv.authenticatedContext('mallory', { email: 'mallory@example.com', email_verified: true }).storage();
+
+const bytes = (size: number) => new Uint8Array(size);
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    storage: { rules: readFileSync('storage.rules', 'utf8') },
+  });
+});
+
+afterAll(() => testEnv?.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await context.firestore().doc('patients/alice').set({ ownerId: 'alice', relationship: 'Self', caregiverEmails: ['carol@example.com'] });
+    await context.storage().ref(`${REPORT}/original.png`).put(bytes(16), { contentType: 'image/png' });
+  });
+});
+
+describe('report files', () => {
+  it('can be read by the account holder and a verified caregiver', async () => {
+    await assertSucceeds(self().ref(`${REPORT}/original.png`).getDownloadURL());
+    await assertSucceeds(caregiver().ref(`${REPORT}/original.png`).getDownloadURL());
+  });
+
+  it('cannot be read by an unverified caregiver or a stranger', async () => {
+    await assertFails(unverifiedCaregiver().ref(`${REPORT}/original.png`).getDownloadURL());
+    await assertFails(stranger().ref(`${REPORT}/original.png`).getDownloadURL());
+  });
+
+  it('accept images, PDFs and DICOM files from people with access', async () => {
+    await assertSucceeds(self().ref(`${REPORT}/processed.png`).put(bytes(16), { contentType: 'image/png' }).then());
+    await assertSucceeds(caregiver().ref(`${REPORT}/original.pdf`).put(bytes(16), { contentType: 'application/pdf' }).then());
+    await assertSucceeds(self().ref(`${REPORT}/original.dicom`).put(bytes(16), { contentType: 'application/dicom' }).then());
+  });
+
+  it('reject uploads from a stranger and other file types', async () => {
+    await assertFails(stranger().ref(`${REPORT}/processed.png`).put(bytes(16), { contentType: 'image/png' }).then());
+    await assertFails(self().ref(`${REPORT}/notes.txt`).put(bytes(16), { contentType: 'text/plain' }).then());
+  });
+
+  it('reject images over 20 MB', async () => {
+    await assertFails(self().ref(`${REPORT}/original.png`).put(bytes(20 * 1024 * 1024), { contentType: 'image/png' }).then());
+  });
+});
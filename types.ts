@@ -1,3 +1,12 @@
+// A patient document the signed-in account can open, either as owner or caregiver
+export interface PatientAccess {
+  id: string;
+  name: string;
+  relationship: string; // e.g. 'Self', 'Child', 'Parent'
+  ownerId: string;
+  caregiverEmails: string[];
+}
+
 export interface PatientProfile {
   name: string;
   age: number;
@@ -13,6 +22,20 @@ export interface PatientProfile {
   };
 }
 
+export type MedicationStatus = 'Active' | 'Paused' | 'Discontinued';
+
+export interface MedicationStatusChange {
+  status: MedicationStatus;
+  date: string; // ISO string
+  note?: string;
+}
+
+export interface DoseSchedule {
+  timesOfDay: string[]; // "HH:mm", local time
+  daysOfWeek: number[]; // 0 = Sunday; empty means every day
+  prn: boolean; // Taken as needed, no fixed times
+}
+
 export interface Medication {
   id: string;
   name: string;
@@ -20,22 +43,123 @@ export interface Medication {
   frequency: string;
   startDate: string;
   active: boolean;
+  // Older records only carry `active`; see getMedicationStatus
+  status?: MedicationStatus;
+  endDate?: string;
+  statusHistory?: MedicationStatusChange[];
+  // Structured form of `frequency`; derived from it when missing
+  schedule?: DoseSchedule;
 }
 
-export interface MedicalRecord {
+export type DoseStatus = 'taken' | 'late' | 'skipped';
+
+export interface DoseEvent {
+  id: string;
+  medicationId: string;
+  scheduledFor: string; // ISO string; the time taken for PRN doses
+  status: DoseStatus;
+  recordedAt: string; // ISO string
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  name: string;
+  scheduled: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  percent: number; // 0-100
+}
+
+export interface AdherenceSummary {
+  windowDays: number;
+  overallPercent: number | null; // null when nothing was scheduled
+  medications: MedicationAdherence[];
+}
+
+interface MedicalRecordBase {
   id: string;
-  type: 'Condition' | 'Surgery' | 'Vaccination';
   name: string;
   date: string;
   notes: string;
 }
 
+export interface ConditionRecord extends MedicalRecordBase {
+  type: 'Condition';
+  status?: 'Active' | 'Managed' | 'Resolved';
+  resolvedDate?: string;
+}
+
+export interface SurgeryRecord extends MedicalRecordBase {
+  type: 'Surgery';
+  facility?: string;
+  surgeon?: string;
+}
+
+export interface VaccinationRecord extends MedicalRecordBase {
+  type: 'Vaccination';
+  doseNumber?: number;
+  boosterDueDate?: string;
+  lotNumber?: string;
+}
+
+export type MedicalRecord = ConditionRecord | SurgeryRecord | VaccinationRecord;
+
+export type MedicalRecordType = MedicalRecord['type'];
+
+export type DurationUnit = 'minutes' | 'hours' | 'days' | 'weeks';
+
+export interface SymptomDuration {
+  value: number;
+  unit: DurationUnit;
+}
+
 export interface SymptomLog {
   id: string;
   symptom: string;
   severity: number; // 1-10
   date: string; // ISO string
-  duration: string;
+  duration: SymptomDuration;
+  bodyLocation?: string;
+  triggers?: string[];
+  medicationId?: string; // Medication suspected to be related
+  notes?: string;
+}
+
+export type VitalType = 'bloodPressure' | 'glucose' | 'heartRate' | 'spo2' | 'weight';
+
+export type GlucoseContext = 'fasting' | 'beforeMeal' | 'afterMeal' | 'random';
+
+export interface VitalReading {
+  id: string;
+  type: VitalType;
+  takenAt: string; // ISO string
+  value: number; // Systolic for blood pressure
+  diastolic?: number; // Blood pressure only
+  unit: string; // As entered, e.g. 'mmol/L'; converted for ranges and charts
+  context?: GlucoseContext; // Glucose only
+  notes?: string;
+}
+
+export type VitalBandLevel = 'low' | 'normal' | 'elevated' | 'high' | 'critical';
+
+// Latest reading of one vital, in its standard unit, for insights and grounding
+export interface VitalSummary {
+  type: VitalType;
+  label: string;
+  latest: string; // Formatted, e.g. "128/82 mmHg"
+  takenAt: string;
+  band: VitalBandLevel;
+  bandLabel: string;
+  average: number | null; // Over the summary window, standard unit; systolic for blood pressure
+  readings: number;
+}
+
+// Why an AI call produced a fallback result instead of model output
+export interface AIError {
+  code: 'missing-key' | 'request-failed' | 'invalid-response';
+  message: string;
 }
 
 export interface AIInsight {
@@ -44,7 +168,56 @@ export interface AIInsight {
   riskFactors: string[];
   recommendations: string[];
   doctorSpecialty: string;
-  urgency: 'Low' | 'Moderate' | 'High' | 'Emergency';
+  urgency: Urgency;
+  modelUrgency?: Urgency; // What the model said, when red-flag triage raised it
+  error?: AIError; // Set on fallback results
+}
+
+export type Urgency = 'Low' | 'Moderate' | 'High' | 'Emergency';
+
+export type ScoreFactorId = 'bmi' | 'lifestyle' | 'conditions' | 'symptoms' | 'medications' | 'model';
+
+// One line of the score explanation; points are relative to a perfect 100
+export interface ScoreFactor {
+  id: ScoreFactorId;
+  label: string;
+  points: number; // Zero or negative, except the model adjustment which may be either
+  detail: string;
+}
+
+// What a score was computed from, kept small enough to store with it
+export interface ScoreInputs {
+  bmi: number | null;
+  smoking: boolean;
+  alcohol: boolean;
+  activityLevel: PatientProfile['lifestyle']['activityLevel'];
+  activeConditions: string[];
+  recentSymptoms: number;
+  averageSeverity: number | null;
+  activeMedications: number;
+  seriousInteractions: number;
+  adherencePercent: number | null;
+}
+
+// A saved insight, so scores can be charted and compared over time
+export interface HealthScoreRecord extends AIInsight {
+  id: string;
+  createdAt: string; // ISO string
+  provider: string;
+  dataVersion: string; // Fingerprint of the patient data it was generated from
+  inputs: ScoreInputs;
+  breakdown: ScoreFactor[];
+}
+
+// Raised by the rule-based red-flag check, independently of any AI model
+export interface TriageAlert {
+  id: string; // Stable per rule and symptom, so acknowledgements stick
+  ruleId: string;
+  level: Urgency;
+  title: string;
+  reason: string; // Which data triggered the rule
+  guidance: string;
+  symptomId?: string;
 }
 
 export interface BoundingBox {
@@ -57,14 +230,17 @@ export interface BoundingBox {
 export interface MedicalFinding {
   label: string;
   confidence: string;
-  box_2d?: BoundingBox; // Normalized 0-1 coordinates
+  box_2d?: BoundingBox; // Normalized 0-1 coordinates; relative to `page` for PDFs
   explanation: string;
+  page?: number; // 1-based PDF page the finding is on
+  frame?: number; // 1-based DICOM frame the finding is on
 }
 
 export interface AnalysisResult {
   findings: MedicalFinding[];
   summary: string;
   disclaimer: string;
+  error?: AIError; // Set on fallback results
 }
 
 export interface UploadedFile {
@@ -72,9 +248,129 @@ export interface UploadedFile {
   name: string;
   type: string;
   date: string;
-  // We store the base64 url for display purposes in the overlay
+  // We store the base64 url for display purposes in the overlay.
+  // Only kept in memory (offline mode) or on reports saved before images moved to Storage.
   previewUrl?: string; 
   // The processed (denoised/cropped) image URL
   processedUrl?: string;
+  // Firebase Storage paths; resolve to download URLs for display
+  originalPath?: string;
+  processedPath?: string;
+  size?: number; // Original file size in bytes
   analysisResult?: AnalysisResult;
-}
\ No newline at end of file
+  pageCount?: number; // PDFs only
+  pages?: ReportPage[]; // PDFs only; may stop short of pageCount for very long documents
+  dicom?: DicomInfo; // DICOM files only
+  // Why processing failed; the original is kept so the report can be retried
+  processingError?: string;
+  // How processedUrl/processedPath was made; missing on reports enhanced by the model before preprocessing was local
+  preprocessing?: PreprocessingRecord;
+}
+
+export type DenoiseFilter = 'median' | 'gaussian';
+
+// Local preprocessing of uploaded images. Enabled steps run in the order listed; brightness values are 0-255.
+export interface PreprocessingSettings {
+  autoCrop: { enabled: boolean; threshold: number; margin: number }; // Rows and columns no brighter than threshold count as border; margin in px
+  denoise: { enabled: boolean; filter: DenoiseFilter; radius: number }; // px
+  windowLevel: { enabled: boolean; window: number; level: number }; // Brightness range stretched to full contrast, and its centre
+  equalize: { enabled: boolean; strength: number }; // 0-1 blend between the input and a fully equalized histogram
+  aiEnhance: boolean; // Also send the result through the model's enhancement, which may alter anatomy
+}
+
+// What was done to an image report; the original is always kept alongside the result
+export interface PreprocessingRecord {
+  settings: PreprocessingSettings;
+  crop?: BoundingBox; // Normalized region of the original that was kept
+  width: number; // Processed image size in px
+  height: number;
+  aiEnhanced?: boolean; // The model's enhancement was applied on top
+}
+
+// One page of a PDF report. Page images are not stored; they are rendered from the PDF when viewed.
+export interface ReportPage {
+  pageNumber: number; // 1-based
+  text: string; // Embedded text layer, truncated; empty for scanned pages
+  analyzed: boolean; // False past the page limit or when analysis failed
+  summary?: string; // Analysis of this page on its own
+}
+
+// Display range for DICOM pixel values, in modality units (Hounsfield units for CT)
+export interface DicomWindow {
+  center: number;
+  width: number;
+}
+
+// What is kept from a DICOM header. Identifying fields (names, IDs, dates,
+// institution, UIDs) are blanked in the stored file and never sent to the model;
+// `removedFields` lists those that were blanked.
+export interface DicomInfo {
+  modality: string; // e.g. 'CT', 'MR', 'CR', 'DX'
+  studyDescription?: string;
+  seriesDescription?: string;
+  bodyPart?: string;
+  patientSex?: string;
+  patientAge?: string; // As recorded, e.g. '045Y'
+  manufacturer?: string;
+  rows: number;
+  columns: number;
+  frameCount: number;
+  pixelSpacing?: number[]; // mm between rows, then between columns
+  window?: DicomWindow; // The file's own default window
+  analyzedFrames: number[]; // 1-based frames that were sent for analysis
+  removedFields: string[];
+}
+
+export type LabFlag = 'low' | 'normal' | 'high' | 'unknown';
+
+// One analyte as read off a lab report, before the patient has reviewed it
+export interface ExtractedLabValue {
+  name: string; // As printed, e.g. "Hemoglobin A1c"
+  value: number;
+  unit: string;
+  referenceLow?: number;
+  referenceHigh?: number;
+  referenceText?: string; // The range as printed, e.g. "70-99" or "<5.7"
+  collectedAt?: string; // YYYY-MM-DD, when the value has its own date
+}
+
+export interface LabExtraction {
+  values: ExtractedLabValue[];
+  collectedAt?: string; // YYYY-MM-DD specimen collection date for the whole report
+  error?: AIError; // Set on fallback results
+}
+
+// A confirmed lab value; results with the same analyte form a time series
+export interface LabResult extends ExtractedLabValue {
+  id: string;
+  analyte: string; // Canonical name, e.g. "HbA1c" for "Glycated Hemoglobin"
+  collectedAt: string;
+  flag: LabFlag;
+  reportId?: string; // The upload it was extracted from
+}
+
+export type InteractionSeverity = 'Minor' | 'Moderate' | 'Major' | 'Contraindicated';
+
+export interface InteractionWarning {
+  id: string;
+  kind: 'drug-drug' | 'drug-allergy';
+  severity: InteractionSeverity;
+  medications: string[]; // Medication names involved
+  allergen?: string; // Set for drug-allergy warnings
+  description: string;
+}
+
+// A record the assistant's answer was grounded in, e.g. key "med:1"
+export interface ChatCitation {
+  key: string;
+  label: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string; // Assistant text keeps its [[key]] citation markers
+  createdAt: string; // ISO string
+  citations?: ChatCitation[];
+  error?: boolean; // The reply failed and content holds the error text
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules tests; they need the emulators, so `npm run test:rules` starts them first
+export default defineConfig({
+  test: {
+    include: ['*.rules.test.ts'],
+    // Test files share the emulators and clear them between tests
+    fileParallelism: false,
+    testTimeout: 30000,
+  },
+});